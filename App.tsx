@@ -7,10 +7,21 @@ import { AuthProvider, useAuth } from './src/hooks/useAuth';
 import { useDocumentCache } from './src/hooks/useDocumentCache';
 import { useOfflineSync } from './src/hooks/useOfflineSync';
 import { OfflineStatus, OfflineIndicator } from './src/components/Offline/OfflineStatus';
+import { SettingsPanel } from './components/SettingsPanel';
+import { useCompletionPolicy } from './src/hooks/useCompletionPolicy';
+import { useLLMSettings } from './src/hooks/useLLMSettings';
+import {
+  DEFAULT_TEMPLATE_ID,
+  getAvailableTemplates,
+  normalizeProjectPromptSettings,
+  type ProjectPromptSettings
+} from './services/promptTemplates';
 import { projectService, standardInfoService, documentService } from './src/services/databaseService';
 import type { Project, StandardInfo, UserProfile } from './src/types';
 import { MOCK_USERS } from './constants';
 import { collaborationService, MockRealtimeChannel } from './services/collaborationService';
+import { indexingQueue } from './src/services/indexingQueue';
+import { standardInfoRagService } from './src/services/ragService';
 
 type Theme = 'light' | 'dark';
 
@@ -57,9 +68,12 @@ const MainApp: React.FC = () => {
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
   const [activeDocumentId, setActiveDocumentId] = useState<string | null>(null);
   const [rewriteMode, setRewriteMode] = useState<boolean>(false);
+  const [promptTemplateId, setPromptTemplateId] = useState<string>(DEFAULT_TEMPLATE_ID);
   const [collaborators, setCollaborators] = useState<UserProfile[]>([]);
   const [standardInfo, setStandardInfo] = useState<StandardInfo[]>([]);
   const [loading, setLoading] = useState(true);
+  const [settingsOpen, setSettingsOpen] = useState(false);
+  const { policy: completionPolicy, setPolicy: setCompletionPolicy, resetPolicy: resetCompletionPolicy, saveStatus: policySaveStatus } = useCompletionPolicy(user?.id);
   
   // 使用离线同步
   useOfflineSync();
@@ -116,6 +130,21 @@ const MainApp: React.FC = () => {
     loadStandardInfo();
   }, [activeProjectId, currentUser.id]);
 
+  // 新增或修改的条目在后台生成向量，结束后刷新列表中的状态
+  useEffect(() => standardInfoService.subscribeEmbedding(() => {
+    standardInfoService.getUserStandardInfo(currentUser.id)
+      .then(data => setStandardInfo(data || []))
+      .catch(error => console.error('刷新标准信息失败:', error));
+  }), [currentUser.id]);
+
+  // 为尚未生成向量的标准信息生成向量，完成后刷新列表以显示最新状态
+  const handleBackfillEmbeddings = useCallback(async () => {
+    const result = await standardInfoRagService.backfillEmbeddings(currentUser.id);
+    const data = await standardInfoService.getUserStandardInfo(currentUser.id);
+    setStandardInfo(data || []);
+    return result;
+  }, [currentUser.id]);
+
   useEffect(() => {
     const root = window.document.documentElement;
     root.classList.remove(theme === 'light' ? 'dark' : 'light');
@@ -169,6 +198,9 @@ const MainApp: React.FC = () => {
         event: 'contentUpdate',
         payload: { content: newContent }
       });
+
+      // 停止输入一段时间后重新生成该文档的向量
+      await indexingQueue.enqueue(docId, newContent);
     } catch (error) {
       console.error('保存文档失败:', error);
     }
@@ -217,6 +249,29 @@ const MainApp: React.FC = () => {
     [projects, activeProjectId]
   );
 
+  // 项目的品牌语气、禁用词和自定义模板保存在 projects.metadata.prompt 中
+  const promptSettings = useMemo(
+    () => normalizeProjectPromptSettings(activeProject?.metadata?.prompt),
+    [activeProject]
+  );
+
+  const promptTemplates = useMemo(() => getAvailableTemplates(promptSettings), [promptSettings]);
+
+  const handleProjectSaved = useCallback((data: Project) => {
+    setProjects(prev => prev.map(project => (project.id === data.id ? data : project)));
+  }, []);
+
+  const handleSavePromptSettings = useCallback(async (settings: ProjectPromptSettings) => {
+    if (!activeProject) return;
+    const data = await projectService.updateProject(activeProject.id, {
+      metadata: { ...(activeProject.metadata ?? {}), prompt: settings }
+    });
+    handleProjectSaved(data);
+  }, [activeProject, handleProjectSaved]);
+
+  // 模型设置按工作区保存在 projects.metadata.llm 中
+  const { settings: llmSettings, setSettings: setLLMSettings, resetSettings: resetLLMSettings, saveStatus: llmSaveStatus } = useLLMSettings(activeProject, handleProjectSaved);
+
   const activeDocument = useMemo(() => 
     documents.find(d => d.id === activeDocumentId),
     [documents, activeDocumentId]
@@ -237,10 +292,33 @@ const MainApp: React.FC = () => {
   );
   
   const projectStandardInfo = useMemo(()=>
-    standardInfo,
+    standardInfo.map(info => ({
+      ...info,
+      updatedAt: info.updatedAt ?? info.updated_at
+    })),
+    [standardInfo]
+  );
+
+  const standardInfoCategories = useMemo(
+    () => Array.from(new Set(standardInfo.map(info => info.category).filter(Boolean))).sort(),
     [standardInfo]
   );
 
+  const settingsPanel = settingsOpen && (
+    <SettingsPanel
+      policy={completionPolicy}
+      onPolicyChange={setCompletionPolicy}
+      onResetPolicy={resetCompletionPolicy}
+      saveStatus={policySaveStatus}
+      llmSettings={llmSettings}
+      onLLMSettingsChange={setLLMSettings}
+      onResetLLMSettings={resetLLMSettings}
+      llmSaveStatus={llmSaveStatus}
+      categories={standardInfoCategories}
+      onClose={() => setSettingsOpen(false)}
+    />
+  );
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-screen bg-gray-50">
@@ -264,8 +342,15 @@ const MainApp: React.FC = () => {
           onRewriteModeChange={setRewriteMode}
           onClose={handleCloseDocument}
           standardInfo={projectStandardInfo}
+          completionPolicy={completionPolicy}
+          onOpenSettings={() => setSettingsOpen(true)}
+          promptTemplates={promptTemplates}
+          promptTemplateId={promptTemplateId}
+          onPromptTemplateChange={setPromptTemplateId}
+          promptSettings={promptSettings}
         />
         <OfflineIndicator />
+        {settingsPanel}
       </div>
     )
   }
@@ -282,6 +367,7 @@ const MainApp: React.FC = () => {
         theme={theme}
         onThemeChange={setTheme}
         currentUser={currentUser}
+        onOpenSettings={() => setSettingsOpen(true)}
       />
       <main className="flex-1 flex flex-col h-screen overflow-hidden">
         <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 p-4">
@@ -301,11 +387,15 @@ const MainApp: React.FC = () => {
                 standardInfo={projectStandardInfo}
                 onSelectDocument={handleSelectDocument}
                 onCreateDocument={handleCreateDocument}
+                promptSettings={promptSettings}
+                onSavePromptSettings={handleSavePromptSettings}
+                onBackfillEmbeddings={handleBackfillEmbeddings}
               />
             )}
           </div>
         </div>
       </main>
+      {settingsPanel}
     </div>
   );
 };
@@ -0,0 +1,146 @@
+import React, { useEffect, useState } from 'react';
+import { telemetryService, type CompletionStats, type CompletionStatsSummary } from '../src/services/telemetryService';
+
+interface CompletionMetricsPanelProps {
+  projectId: string;
+}
+
+const SOURCE_LABELS: Record<keyof CompletionStats['bySource'], string> = {
+  exact: '逐字匹配',
+  ai: 'AI 生成',
+  cache: '缓存',
+};
+
+const RANGE_OPTIONS = [7, 30, 90];
+
+const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+
+const StatCard: React.FC<{ label: string; value: string; detail?: string }> = ({ label, value, detail }) => (
+  <div className="bg-white dark:bg-gray-800 rounded-lg border border-[#DADCE0] dark:border-gray-700 p-4">
+    <p className="text-xs text-[#5F6368] dark:text-gray-400">{label}</p>
+    <p className="text-2xl font-medium text-[#202124] dark:text-white mt-1">{value}</p>
+    {detail && <p className="text-xs text-[#5F6368] dark:text-gray-400 mt-1">{detail}</p>}
+  </div>
+);
+
+const SourceRow: React.FC<{ label: string; summary: CompletionStatsSummary }> = ({ label, summary }) => (
+  <tr className="border-t border-[#DADCE0] dark:border-gray-700">
+    <td className="py-2 text-[#202124] dark:text-gray-100">{label}</td>
+    <td className="py-2 text-right">{summary.total}</td>
+    <td className="py-2 text-right">{formatRate(summary.acceptanceRate)}</td>
+    <td className="py-2 text-right">{summary.dismissed}</td>
+    <td className="py-2 text-right">{summary.latency.p50} ms</td>
+    <td className="py-2 text-right">{summary.latency.p95} ms</td>
+  </tr>
+);
+
+// 项目的补全统计：接受率、延迟分布以及按来源的明细，数据来自本地 IndexedDB
+export const CompletionMetricsPanel: React.FC<CompletionMetricsPanelProps> = ({ projectId }) => {
+  const [sinceDays, setSinceDays] = useState(30);
+  const [stats, setStats] = useState<CompletionStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    telemetryService.getCompletionStats(projectId, sinceDays)
+      .then(result => {
+        if (!cancelled) setStats(result);
+      })
+      .catch(err => {
+        console.error('加载补全统计失败:', err);
+        if (!cancelled) setError('加载补全统计失败');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [projectId, sinceDays]);
+
+  const handleClear = async () => {
+    setError(null);
+    try {
+      await telemetryService.clearCompletionEvents(projectId);
+      setStats(await telemetryService.getCompletionStats(projectId, sinceDays));
+    } catch (err) {
+      console.error('清除补全统计失败:', err);
+      setError('清除补全统计失败');
+    }
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex items-center justify-between mb-4">
+        <p className="text-sm text-[#5F6368] dark:text-gray-400">补全建议的使用情况，仅保存在本机。</p>
+        <div className="flex items-center gap-2">
+          <select
+            value={sinceDays}
+            onChange={(e) => setSinceDays(Number(e.target.value))}
+            className="p-1.5 text-sm border border-[#DADCE0] dark:border-gray-600 rounded-md bg-transparent text-[#202124] dark:text-gray-100"
+          >
+            {RANGE_OPTIONS.map(days => (
+              <option key={days} value={days}>最近 {days} 天</option>
+            ))}
+          </select>
+          <button
+            onClick={handleClear}
+            className="text-xs text-[#5F6368] dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+          >
+            清除数据
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {stats && stats.total === 0 && (
+        <div className="text-center py-12">
+          <p className="text-[#5F6368] dark:text-gray-400">这段时间内还没有显示过补全建议。</p>
+        </div>
+      )}
+
+      {stats && stats.total > 0 && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <StatCard label="显示的建议" value={String(stats.total)} />
+            <StatCard
+              label="接受率"
+              value={formatRate(stats.acceptanceRate)}
+              detail={`共接受 ${stats.acceptedChars} 个字`}
+            />
+            <StatCard
+              label="Escape 关闭"
+              value={String(stats.dismissed)}
+              detail={`忽略 ${stats.ignored} 条`}
+            />
+            <StatCard
+              label="首次显示延迟"
+              value={`${stats.latency.p50} ms`}
+              detail={`p95 ${stats.latency.p95} ms`}
+            />
+          </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg border border-[#DADCE0] dark:border-gray-700 p-4">
+            <table className="w-full text-sm text-[#5F6368] dark:text-gray-400">
+              <thead>
+                <tr className="text-xs">
+                  <th className="pb-2 text-left font-medium">来源</th>
+                  <th className="pb-2 text-right font-medium">显示</th>
+                  <th className="pb-2 text-right font-medium">接受率</th>
+                  <th className="pb-2 text-right font-medium">关闭</th>
+                  <th className="pb-2 text-right font-medium">p50</th>
+                  <th className="pb-2 text-right font-medium">p95</th>
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(SOURCE_LABELS) as Array<keyof typeof SOURCE_LABELS>).map(source => {
+                  const summary = stats.bySource[source];
+                  return summary ? <SourceRow key={source} label={SOURCE_LABELS[source]} summary={summary} /> : null;
+                })}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,11 +1,19 @@
 
-import React, { useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
 import type { Document, UserProfile, StandardInfo } from '../src/types';
 import { useEditor, EditorContent } from '@tiptap/react';
 import StarterKit from '@tiptap/starter-kit';
 import { MenuBar } from './MenuBar';
 // Fix: Import completionPluginKey to access the plugin's state.
 import { CompletionPlugin, completionPluginKey } from '../tiptap/completion';
+import { SlashCommand } from '../tiptap/slashCommand';
+import { StandardInfoReference } from '../tiptap/standardInfoReference';
+import { SlashCommandMenu } from './SlashCommandMenu';
+import { telemetryService } from '../src/services/telemetryService';
+import { useAuth } from '../src/hooks/useAuth';
+import { useAIStatus } from '../src/hooks/useAIStatus';
+import type { CompletionTriggerPolicy } from '../tiptap/completionPolicy';
+import { findTemplate, type ProjectPromptSettings, type PromptTemplate } from '../services/promptTemplates';
 
 interface EditorProps {
   document: Document;
@@ -15,6 +23,12 @@ interface EditorProps {
   onRewriteModeChange: (enabled: boolean) => void;
   onClose: () => void;
   standardInfo: StandardInfo[];
+  completionPolicy: CompletionTriggerPolicy;
+  onOpenSettings: () => void;
+  promptTemplates: PromptTemplate[];
+  promptTemplateId: string;
+  onPromptTemplateChange: (templateId: string) => void;
+  promptSettings: ProjectPromptSettings;
 }
 
 export const Editor: React.FC<EditorProps> = ({ 
@@ -24,14 +38,60 @@ export const Editor: React.FC<EditorProps> = ({
   rewriteMode,
   onRewriteModeChange,
   onClose,
-  standardInfo
+  standardInfo,
+  completionPolicy,
+  onOpenSettings,
+  promptTemplates,
+  promptTemplateId,
+  onPromptTemplateChange,
+  promptSettings
 }) => {
+  // 编辑器只创建一次，通过 ref 让补全插件每次触发时读到最新的设置
+  const completionPolicyRef = useRef(completionPolicy);
+  completionPolicyRef.current = completionPolicy;
+  const standardInfoRef = useRef(standardInfo);
+  standardInfoRef.current = standardInfo;
+  const { user } = useAuth();
+  const aiStatus = useAIStatus();
+  const userIdRef = useRef(user?.id);
+  userIdRef.current = user?.id;
+  const activeTemplate = findTemplate(promptTemplates, promptTemplateId);
+  // 标题等会在编辑器创建后变化，通过 ref 在每次请求时读取最新值
+  const promptRef = useRef({ template: activeTemplate, settings: promptSettings, title: document.title });
+  promptRef.current = { template: activeTemplate, settings: promptSettings, title: document.title };
+
   const editor = useEditor({
     extensions: [
       StarterKit,
       CompletionPlugin.configure({
-        standardInfo,
+        getStandardInfo: () => standardInfoRef.current,
         getRewriteMode: () => rewriteMode,
+        getPolicy: () => completionPolicyRef.current,
+        getPromptOptions: () => ({
+          scope: userIdRef.current
+            ? { userId: userIdRef.current, projectId: document.project_id ?? document.projectId ?? null }
+            : null,
+          template: promptRef.current.template,
+          title: promptRef.current.title,
+          settings: promptRef.current.settings,
+        }),
+        loadUsage: () => telemetryService.getStandardInfoUsage(),
+        onUsage: (entryId, usedAt) => {
+          telemetryService.recordStandardInfoUsage(entryId, usedAt);
+        },
+        onTelemetry: (event) => {
+          telemetryService.recordCompletionEvent({
+            ...event,
+            projectId: document.project_id ?? document.projectId,
+            documentId: document.id,
+          });
+        },
+      }),
+      SlashCommand.configure({
+        getStandardInfo: () => standardInfoRef.current,
+      }),
+      StandardInfoReference.configure({
+        getStandardInfo: () => standardInfoRef.current,
       }),
     ],
     content: document.content,
@@ -41,14 +101,16 @@ export const Editor: React.FC<EditorProps> = ({
       },
     },
     onUpdate: ({ editor }) => {
-      // Don't emit updates while a completion is active to avoid weird cursor jumps
-      // Fix: Use completionPluginKey to get the plugin state.
-      if (!completionPluginKey.getState(editor.state)?.active) {
-        onDocumentChange(document.id, editor.getHTML());
-      }
+      // 建议只以装饰显示，不在文档中：只要文档变了就是真实内容（包括部分接受的建议），建议是否仍在显示都要保存
+      onDocumentChange(document.id, editor.getHTML());
     },
   });
   
+  // 知识库条目变化时，文档中的引用显示条目的最新内容
+  useEffect(() => {
+    editor?.storage.standardInfoReference.refresh();
+  }, [standardInfo, editor]);
+
   // Sync external changes (from collaborators) to the editor
   useEffect(() => {
     if (editor && !editor.isFocused) {
@@ -73,13 +135,20 @@ export const Editor: React.FC<EditorProps> = ({
         editor={editor}
         rewriteMode={rewriteMode}
         onRewriteModeChange={onRewriteModeChange}
+        aiStatus={aiStatus}
         collaborators={collaborators}
         onClose={onClose}
         document={document}
+        standardInfo={standardInfo}
+        onOpenSettings={onOpenSettings}
+        promptTemplates={promptTemplates}
+        promptTemplateId={activeTemplate.id}
+        onPromptTemplateChange={onPromptTemplateChange}
       />
       <div className="flex-1 overflow-y-auto p-4 sm:p-6 md:p-8">
         <div className="max-w-4xl mx-auto h-full">
              <EditorContent editor={editor} className="h-full" />
+             <SlashCommandMenu editor={editor} standardInfo={standardInfo} />
         </div>
       </div>
     </div>
@@ -1,15 +1,52 @@
 
 import React, { useState } from 'react';
 import type { StandardInfo } from '../types';
+import { needsEmbedding } from '../src/services/ragService';
 import { PlusIcon, UploadIcon } from './icons/Icons';
 
+export interface EmbeddingBackfillResult {
+  total: number;
+  ready: number;
+  failed: number;
+}
+
 interface KnowledgeBaseProps {
   standardInfo: StandardInfo[];
+  // 为尚未生成向量或由其他向量模型生成的条目生成向量
+  onBackfillEmbeddings?: () => Promise<EmbeddingBackfillResult>;
 }
 
-export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ standardInfo }) => {
+type EmbeddingStatus = NonNullable<StandardInfo['embedding_status']>;
+
+const EMBEDDING_STATUS_BADGES: Record<EmbeddingStatus, { label: string; className: string }> = {
+  ready: { label: '可检索', className: 'bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-300' },
+  pending: { label: '等待生成向量', className: 'bg-[#E8EAED] text-[#5F6368] dark:bg-gray-700 dark:text-gray-300' },
+  failed: { label: '向量生成失败', className: 'bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300' },
+};
+
+export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ standardInfo, onBackfillEmbeddings }) => {
   const [newEntryContent, setNewEntryContent] = useState('');
   const [newEntryCategory, setNewEntryCategory] = useState('');
+  const [backfilling, setBackfilling] = useState(false);
+  const [backfillMessage, setBackfillMessage] = useState<string | null>(null);
+
+  const unembeddedCount = standardInfo.filter(needsEmbedding).length;
+
+  const handleBackfill = async () => {
+      if (!onBackfillEmbeddings) return;
+      setBackfilling(true);
+      setBackfillMessage(null);
+      try {
+        const result = await onBackfillEmbeddings();
+        setBackfillMessage(result.failed > 0
+          ? `已为 ${result.ready} 条生成向量，${result.failed} 条失败`
+          : `已为 ${result.ready} 条生成向量`);
+      } catch (error) {
+        setBackfillMessage(error instanceof Error ? error.message : '生成向量失败');
+      } finally {
+        setBackfilling(false);
+      }
+  }
   
   const handleAddEntry = () => {
       if(newEntryContent.trim()) {
@@ -46,17 +83,36 @@ export const KnowledgeBase: React.FC<KnowledgeBaseProps> = ({ standardInfo }) =>
             </div>
         </div>
         
-        <h3 className="text-sm font-bold text-[#202124] dark:text-gray-100 mb-3">标准条目</h3>
+        <div className="flex items-center justify-between mb-3">
+            <h3 className="text-sm font-bold text-[#202124] dark:text-gray-100">标准条目</h3>
+            {onBackfillEmbeddings && (unembeddedCount > 0 || backfillMessage) && (
+                <div className="flex items-center gap-3">
+                    {backfillMessage && <span className="text-xs text-[#5F6368] dark:text-gray-400">{backfillMessage}</span>}
+                    {unembeddedCount > 0 && (
+                        <button onClick={handleBackfill} disabled={backfilling} className="text-xs text-[#1A73E8] dark:text-blue-400 hover:underline disabled:text-gray-400 disabled:no-underline">
+                        {backfilling ? '正在生成向量...' : `为 ${unembeddedCount} 条生成向量`}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
         <div className="space-y-3">
-        {standardInfo.map(info => (
+        {standardInfo.map(info => {
+            // 由其他向量模型生成的向量不能用于当前的检索，按等待生成显示
+            const badge = EMBEDDING_STATUS_BADGES[needsEmbedding(info) && info.embedding_status === 'ready' ? 'pending' : info.embedding_status ?? 'pending'];
+            return (
             <div key={info.id} className="bg-white dark:bg-gray-800 p-4 rounded-lg border border-[#DADCE0] dark:border-gray-700 flex justify-between items-start">
             <div>
                 <p className="text-[#202124] dark:text-gray-100">{info.content}</p>
-                {info.category && <span className="text-xs bg-[#E8EAED] dark:bg-gray-700 text-[#5F6368] dark:text-gray-300 px-2 py-1 rounded-full mt-2 inline-block">{info.category}</span>}
+                <div className="flex items-center gap-2 mt-2">
+                    {info.category && <span className="text-xs bg-[#E8EAED] dark:bg-gray-700 text-[#5F6368] dark:text-gray-300 px-2 py-1 rounded-full">{info.category}</span>}
+                    <span className={`text-xs px-2 py-1 rounded-full ${badge.className}`} title={info.embedding_error ?? undefined}>{badge.label}</span>
+                </div>
             </div>
             <button className="text-xs text-[#5F6368] dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400">删除</button>
             </div>
-        ))}
+            );
+        })}
         </div>
 
         <h3 className="text-sm font-bold text-[#202124] dark:text-gray-100 mt-8 mb-3">知识文档</h3>
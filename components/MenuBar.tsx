@@ -1,16 +1,25 @@
 
 import React from 'react';
 import type { Editor as TipTapEditor } from '@tiptap/core';
-import type { UserProfile, Document } from '../src/types';
-import { BackArrowIcon, BoldIcon, ItalicIcon, StrikeIcon, ShareIcon, DownloadIcon } from './icons/Icons';
+import type { UserProfile, Document, StandardInfo } from '../src/types';
+import { countOutdatedReferences } from '../tiptap/standardInfoReference';
+import type { PromptTemplate } from '../services/promptTemplates';
+import type { AIStatus } from '../src/hooks/useAIStatus';
+import { BackArrowIcon, BoldIcon, ItalicIcon, StrikeIcon, ShareIcon, DownloadIcon, SettingsIcon } from './icons/Icons';
 
 interface MenuBarProps {
   editor: TipTapEditor;
   rewriteMode: boolean;
   onRewriteModeChange: (enabled: boolean) => void;
+  aiStatus: AIStatus;
   collaborators: UserProfile[];
   onClose: () => void;
   document: Document;
+  standardInfo: StandardInfo[];
+  onOpenSettings: () => void;
+  promptTemplates: PromptTemplate[];
+  promptTemplateId: string;
+  onPromptTemplateChange: (templateId: string) => void;
 }
 
 const ToggleSwitch: React.FC<{
@@ -61,7 +70,22 @@ const MenuButton: React.FC<{ onClick: () => void; isActive?: boolean; children:
 );
 
 
-export const MenuBar: React.FC<MenuBarProps> = ({ editor, rewriteMode, onRewriteModeChange, collaborators, onClose, document }) => {
+export const MenuBar: React.FC<MenuBarProps> = ({
+  editor,
+  rewriteMode,
+  onRewriteModeChange,
+  aiStatus,
+  collaborators,
+  onClose,
+  document,
+  standardInfo,
+  onOpenSettings,
+  promptTemplates,
+  promptTemplateId,
+  onPromptTemplateChange,
+}) => {
+  const outdatedReferences = countOutdatedReferences(editor.state.doc, standardInfo);
+
   return (
     <div className="flex items-center justify-between p-2 border-b border-[#DADCE0] dark:border-gray-700 bg-white dark:bg-gray-800 sticky top-0 z-10">
       <div className="flex items-center gap-2">
@@ -77,9 +101,40 @@ export const MenuBar: React.FC<MenuBarProps> = ({ editor, rewriteMode, onRewrite
       </div>
 
       <div className="flex items-center gap-4">
+        {outdatedReferences > 0 && (
+          <button
+            onClick={() => editor.chain().focus().syncStandardInfoReferences().run()}
+            title="文档中引用的标准信息已更新"
+            className="text-sm text-[#B06000] dark:text-yellow-400 px-3 py-1.5 rounded-md bg-[#FEF7E0] dark:bg-yellow-900/20 hover:bg-[#FCE8B2] transition-colors"
+          >
+            更新引用（{outdatedReferences}）
+          </button>
+        )}
         <div className="flex items-center gap-2">
             <label className="text-sm font-medium text-[#5F6368] dark:text-gray-400">改写模式</label>
             <ToggleSwitch checked={rewriteMode} onChange={onRewriteModeChange} />
+            {rewriteMode && aiStatus !== 'available' && (
+              <span
+                title={aiStatus === 'unavailable' ? '模型服务连续出错，稍后会自动重试；期间只显示知识库匹配和缓存的建议' : '请在设置中选择模型并配置 API Key'}
+                className="text-xs text-[#B06000] dark:text-yellow-400 px-2 py-0.5 rounded-md bg-[#FEF7E0] dark:bg-yellow-900/20"
+              >
+                {aiStatus === 'unavailable' ? 'AI 暂不可用' : 'AI 服务未配置'}
+              </span>
+            )}
+            <select
+              value={promptTemplateId}
+              onChange={(e) => onPromptTemplateChange(e.target.value)}
+              disabled={!rewriteMode}
+              title={rewriteMode ? '改写使用的提示词模板' : '开启改写模式后生效'}
+              className="text-sm p-1 border border-[#DADCE0] dark:border-gray-600 rounded-md bg-white dark:bg-gray-800 text-[#202124] dark:text-gray-100 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-[#1A73E8]"
+            >
+              {promptTemplates.map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+            </select>
+            <button onClick={onOpenSettings} title="补全设置" className="p-1 rounded-full text-[#5F6368] dark:text-gray-400 hover:bg-[#F1F3F4] dark:hover:bg-gray-700 transition-colors">
+                <SettingsIcon className="w-5 h-5" />
+            </button>
         </div>
         <div className="w-px h-6 bg-[#DADCE0] dark:bg-gray-600"></div>
         <CollaboratorAvatars users={collaborators} />
@@ -0,0 +1,44 @@
+import React, { useMemo } from 'react';
+import type { Document, StandardInfo } from '../types';
+import { findOutdatedReferences } from '../tiptap/standardInfoReference';
+
+interface OutdatedReferencesReportProps {
+  documents: Document[];
+  standardInfo: StandardInfo[];
+  onSelectDocument: (id: string) => void;
+}
+
+// 列出引用了已更新标准信息、但文档中保存的仍是旧内容的位置
+export const OutdatedReferencesReport: React.FC<OutdatedReferencesReportProps> = ({ documents, standardInfo, onSelectDocument }) => {
+  const outdated = useMemo(() => findOutdatedReferences(documents, standardInfo), [documents, standardInfo]);
+
+  if (outdated.length === 0) {
+    return null;
+  }
+
+  const documentCount = new Set(outdated.map(reference => reference.documentId)).size;
+
+  return (
+    <div className="mb-6 rounded-lg border border-[#F9AB00] bg-[#FEF7E0] dark:bg-yellow-900/20 dark:border-yellow-700 p-4">
+      <p className="text-sm font-medium text-[#202124] dark:text-gray-100">
+        {documentCount} 篇文档中有 {outdated.length} 处引用的标准信息已更新
+      </p>
+      <p className="text-xs text-[#5F6368] dark:text-gray-400 mb-3">打开文档后点击“更新引用”即可同步为最新内容。</p>
+      <ul className="space-y-2">
+        {outdated.map((reference, index) => (
+          <li key={`${reference.documentId}-${reference.standardInfoId}-${index}`}>
+            <button
+              onClick={() => onSelectDocument(reference.documentId)}
+              className="w-full text-left text-sm hover:underline"
+            >
+              <span className="font-medium text-[#1A73E8] dark:text-blue-400">{reference.documentTitle}</span>
+              <span className="text-[#5F6368] dark:text-gray-400">
+                {' '}· {reference.category}：“{reference.content}” · 条目更新于 {new Date(reference.updatedAt).toLocaleDateString('zh-CN')}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
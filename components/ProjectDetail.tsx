@@ -1,7 +1,11 @@
 
 import React, { useState } from 'react';
 import type { Project, Document, StandardInfo } from '../types';
-import { KnowledgeBase } from './KnowledgeBase';
+import { KnowledgeBase, type EmbeddingBackfillResult } from './KnowledgeBase';
+import { OutdatedReferencesReport } from './OutdatedReferencesReport';
+import { CompletionMetricsPanel } from './CompletionMetricsPanel';
+import { PromptSettingsPanel } from './PromptSettingsPanel';
+import type { ProjectPromptSettings } from '../services/promptTemplates';
 import { PlusIcon, DocumentIcon } from './icons/Icons';
 
 interface ProjectDetailProps {
@@ -10,14 +14,19 @@ interface ProjectDetailProps {
     standardInfo: StandardInfo[];
     onSelectDocument: (id: string) => void;
     onCreateDocument: () => void;
+    promptSettings: ProjectPromptSettings;
+    onSavePromptSettings: (settings: ProjectPromptSettings) => Promise<void>;
+    onBackfillEmbeddings?: () => Promise<EmbeddingBackfillResult>;
 }
 
 enum ProjectTab {
   DOCUMENTS,
-  KNOWLEDGE
+  KNOWLEDGE,
+  STYLE,
+  METRICS
 }
 
-export const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, documents, standardInfo, onSelectDocument, onCreateDocument }) => {
+export const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, documents, standardInfo, onSelectDocument, onCreateDocument, promptSettings, onSavePromptSettings, onBackfillEmbeddings }) => {
     const [activeTab, setActiveTab] = useState<ProjectTab>(ProjectTab.DOCUMENTS);
 
     return (
@@ -49,8 +58,24 @@ export const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, documents
                 >
                 知识
                 </button>
+                <button 
+                onClick={() => setActiveTab(ProjectTab.STYLE)}
+                className={`px-4 py-2 text-sm font-medium transition-colors ${activeTab === ProjectTab.STYLE ? 'text-[#1A73E8] dark:text-blue-400 border-b-2 border-[#1A73E8] dark:border-blue-400' : 'text-[#5F6368] dark:text-gray-400 hover:bg-[#F1F3F4] dark:hover:bg-gray-800'}`}
+                >
+                文案风格
+                </button>
+                <button 
+                onClick={() => setActiveTab(ProjectTab.METRICS)}
+                className={`px-4 py-2 text-sm font-medium transition-colors ${activeTab === ProjectTab.METRICS ? 'text-[#1A73E8] dark:text-blue-400 border-b-2 border-[#1A73E8] dark:border-blue-400' : 'text-[#5F6368] dark:text-gray-400 hover:bg-[#F1F3F4] dark:hover:bg-gray-800'}`}
+                >
+                统计
+                </button>
             </div>
 
+            {activeTab === ProjectTab.DOCUMENTS && (
+                 <OutdatedReferencesReport documents={documents} standardInfo={standardInfo} onSelectDocument={onSelectDocument} />
+            )}
+
             {activeTab === ProjectTab.DOCUMENTS && (
                  <div className="space-y-3">
                     {documents.length > 0 ? documents.map(doc => (
@@ -78,7 +103,15 @@ export const ProjectDetail: React.FC<ProjectDetailProps> = ({ project, documents
             )}
 
             {activeTab === ProjectTab.KNOWLEDGE && (
-                <KnowledgeBase standardInfo={standardInfo} />
+                <KnowledgeBase standardInfo={standardInfo} onBackfillEmbeddings={onBackfillEmbeddings} />
+            )}
+
+            {activeTab === ProjectTab.STYLE && (
+                <PromptSettingsPanel settings={promptSettings} onSave={onSavePromptSettings} />
+            )}
+
+            {activeTab === ProjectTab.METRICS && (
+                <CompletionMetricsPanel projectId={project.id} />
             )}
         </div>
     );
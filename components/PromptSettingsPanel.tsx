@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import {
+  parseBannedWords,
+  PRESET_TEMPLATES,
+  type ProjectPromptSettings,
+  type PromptTemplate,
+} from '../services/promptTemplates';
+
+interface PromptSettingsPanelProps {
+  settings: ProjectPromptSettings;
+  onSave: (settings: ProjectPromptSettings) => Promise<void>;
+}
+
+type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+const inputClassName = 'w-full p-2 text-sm border border-[#DADCE0] dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-[#1A73E8] bg-transparent text-[#202124] dark:text-gray-100';
+
+const TemplateEditor: React.FC<{
+  template: PromptTemplate;
+  onChange: (template: PromptTemplate) => void;
+  onDelete: () => void;
+}> = ({ template, onChange, onDelete }) => (
+  <div className="p-3 rounded-md border border-[#DADCE0] dark:border-gray-700 space-y-2">
+    <div className="flex items-center gap-2">
+      <input
+        type="text"
+        value={template.name}
+        onChange={(e) => onChange({ ...template, name: e.target.value })}
+        placeholder="模板名称"
+        className={inputClassName}
+      />
+      <button onClick={onDelete} className="text-xs text-[#5F6368] dark:text-gray-400 hover:text-red-600 dark:hover:text-red-400 flex-shrink-0">删除</button>
+    </div>
+    <textarea
+      value={template.body}
+      onChange={(e) => onChange({ ...template, body: e.target.value })}
+      rows={6}
+      className={`${inputClassName} font-mono`}
+    />
+  </div>
+);
+
+// 项目的文案风格：品牌语气、禁用词和自定义提示词模板，保存在项目的 metadata 中
+export const PromptSettingsPanel: React.FC<PromptSettingsPanelProps> = ({ settings, onSave }) => {
+  const [brandVoice, setBrandVoice] = useState(settings.brandVoice);
+  const [bannedWords, setBannedWords] = useState(settings.bannedWords.join('、'));
+  const [templates, setTemplates] = useState(settings.templates);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+
+  // 切换项目或保存成功后以项目中的设置为准
+  useEffect(() => {
+    setBrandVoice(settings.brandVoice);
+    setBannedWords(settings.bannedWords.join('、'));
+    setTemplates(settings.templates);
+  }, [settings]);
+
+  const handleAddTemplate = () => {
+    setTemplates(prev => [...prev, {
+      id: `custom-${Date.now().toString(36)}`,
+      name: '新模板',
+      body: PRESET_TEMPLATES[0].body,
+    }]);
+  };
+
+  const handleSave = async () => {
+    setSaveState('saving');
+    try {
+      await onSave({
+        brandVoice: brandVoice.trim(),
+        bannedWords: parseBannedWords(bannedWords),
+        templates: templates.filter(template => template.name.trim() && template.body.trim()),
+      });
+      setSaveState('saved');
+    } catch (error) {
+      console.error('保存文案风格失败:', error);
+      setSaveState('error');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <label className="block text-sm font-medium text-[#202124] dark:text-gray-100 mb-1">品牌语气</label>
+        <p className="text-xs text-[#5F6368] dark:text-gray-400 mb-2">改写模式生成的内容会遵循这里的说明，例如“专业克制，不使用网络流行语”。</p>
+        <textarea value={brandVoice} onChange={(e) => setBrandVoice(e.target.value)} rows={3} className={inputClassName} />
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-[#202124] dark:text-gray-100 mb-1">禁用词</label>
+        <p className="text-xs text-[#5F6368] dark:text-gray-400 mb-2">用逗号、顿号或换行分隔。AI 建议和知识库片段中都会避开这些词。</p>
+        <textarea value={bannedWords} onChange={(e) => setBannedWords(e.target.value)} rows={2} className={inputClassName} />
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-1">
+          <label className="text-sm font-medium text-[#202124] dark:text-gray-100">自定义模板</label>
+          <button onClick={handleAddTemplate} className="text-sm text-[#1A73E8] dark:text-blue-400 hover:underline">新建模板</button>
+        </div>
+        <p className="text-xs text-[#5F6368] dark:text-gray-400 mb-2">
+          可用变量：{'{{context}}'} 参考资料，{'{{sentence}}'} 已输入的内容，{'{{title}}'} 文档标题。自定义模板会显示在编辑器的模板列表中。
+        </p>
+        <div className="space-y-3">
+          {templates.map((template, index) => (
+            <TemplateEditor
+              key={template.id}
+              template={template}
+              onChange={(next) => setTemplates(prev => prev.map((item, i) => (i === index ? next : item)))}
+              onDelete={() => setTemplates(prev => prev.filter((_item, i) => i !== index))}
+            />
+          ))}
+          {templates.length === 0 && (
+            <p className="text-sm text-[#5F6368] dark:text-gray-400">还没有自定义模板，可以使用预设的{PRESET_TEMPLATES.map(template => `“${template.name}”`).join('')}。</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        {saveState === 'saved' && <span className="text-xs text-[#5F6368] dark:text-gray-400">已保存</span>}
+        {saveState === 'error' && <span className="text-xs text-red-600 dark:text-red-400">保存失败，请稍后重试</span>}
+        <button
+          onClick={handleSave}
+          disabled={saveState === 'saving'}
+          className="bg-[#1A73E8] text-white px-4 py-2 text-sm rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {saveState === 'saving' ? '保存中…' : '保存'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,210 @@
+import React from 'react';
+import type { CompletionTriggerPolicy } from '../tiptap/completionPolicy';
+import type { PreferenceSaveStatus } from '../src/hooks/usePreference';
+import type { LLMProviderId, LLMSettings } from '../src/services/llmService';
+
+interface SettingsPanelProps {
+  policy: CompletionTriggerPolicy;
+  onPolicyChange: (changes: Partial<CompletionTriggerPolicy>) => void;
+  // 个人的补全设置和工作区的模型设置分别恢复默认，避免重置一方时改动另一方
+  onResetPolicy: () => void;
+  saveStatus: PreferenceSaveStatus;
+  llmSettings: LLMSettings;
+  onLLMSettingsChange: (changes: Partial<LLMSettings>) => void;
+  onResetLLMSettings: () => void;
+  llmSaveStatus: PreferenceSaveStatus;
+  // 知识库中出现过的分类，用于设置逐字匹配的分类加权
+  categories: string[];
+  onClose: () => void;
+}
+
+const PROVIDER_OPTIONS: Array<{ value: LLMProviderId; label: string }> = [
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'openai', label: 'OpenAI 兼容接口' },
+  { value: 'mock', label: '本地模拟（离线）' },
+];
+
+const SAVE_STATUS_TEXT: Record<PreferenceSaveStatus, string> = {
+  idle: '',
+  saving: '保存中…',
+  saved: '已保存',
+  error: '保存失败，修改仅在本次使用中生效',
+};
+
+// 两组设置分别保存，显示其中最需要关注的状态
+const STATUS_PRIORITY: PreferenceSaveStatus[] = ['error', 'saving', 'saved', 'idle'];
+const combineSaveStatus = (...statuses: PreferenceSaveStatus[]) =>
+  STATUS_PRIORITY.find(status => statuses.includes(status)) ?? 'idle';
+
+const SectionTitle: React.FC<{ children: React.ReactNode; onReset?: () => void }> = ({ children, onReset }) => (
+  <div className="flex items-center justify-between pt-4 pb-1">
+    <h3 className="text-xs font-medium uppercase tracking-wide text-[#5F6368] dark:text-gray-400">{children}</h3>
+    {onReset && (
+      <button onClick={onReset} className="text-xs text-[#1A73E8] dark:text-blue-400 hover:underline">
+        恢复默认
+      </button>
+    )}
+  </div>
+);
+
+const SettingRow: React.FC<{ label: string; description: string; children: React.ReactNode }> = ({ label, description, children }) => (
+  <div className="flex items-center justify-between gap-6 py-3 border-b border-[#DADCE0] dark:border-gray-700 last:border-b-0">
+    <div>
+      <p className="text-sm font-medium text-[#202124] dark:text-gray-100">{label}</p>
+      <p className="text-xs text-[#5F6368] dark:text-gray-400">{description}</p>
+    </div>
+    {children}
+  </div>
+);
+
+const NumberInput: React.FC<{
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  unit: string;
+  onChange: (value: number) => void;
+}> = ({ value, min, max, step = 1, unit, onChange }) => (
+  <div className="flex items-center gap-2 flex-shrink-0">
+    <input
+      type="number"
+      value={value}
+      min={min}
+      max={max}
+      step={step}
+      onChange={(e) => {
+        // 清空输入框时先不更新，等输入了数字再生效
+        if (!Number.isNaN(e.target.valueAsNumber)) onChange(e.target.valueAsNumber);
+      }}
+      className="w-24 p-1.5 text-sm text-right border border-[#DADCE0] dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-[#1A73E8] bg-transparent text-[#202124] dark:text-gray-100"
+    />
+    <span className="text-xs text-[#5F6368] dark:text-gray-400 w-8">{unit}</span>
+  </div>
+);
+
+const TextInput: React.FC<{ value: string; placeholder?: string; onChange: (value: string) => void }> = ({ value, placeholder, onChange }) => (
+  <input
+    type="text"
+    value={value}
+    placeholder={placeholder}
+    onChange={(e) => onChange(e.target.value)}
+    className="w-48 p-1.5 text-sm border border-[#DADCE0] dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-[#1A73E8] bg-transparent text-[#202124] dark:text-gray-100"
+  />
+);
+
+const ProviderSelect: React.FC<{ value: LLMProviderId; onChange: (value: LLMProviderId) => void }> = ({ value, onChange }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value as LLMProviderId)}
+    className="w-48 p-1.5 text-sm border border-[#DADCE0] dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-[#1A73E8] bg-white dark:bg-gray-800 text-[#202124] dark:text-gray-100"
+  >
+    {PROVIDER_OPTIONS.map(option => (
+      <option key={option.value} value={option.value}>{option.label}</option>
+    ))}
+  </select>
+);
+
+const Checkbox: React.FC<{ checked: boolean; onChange: (checked: boolean) => void }> = ({ checked, onChange }) => (
+  <input
+    type="checkbox"
+    checked={checked}
+    onChange={(e) => onChange(e.target.checked)}
+    className="w-4 h-4 flex-shrink-0 accent-[#1A73E8]"
+  />
+);
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  policy,
+  onPolicyChange,
+  onResetPolicy,
+  saveStatus,
+  llmSettings,
+  onLLMSettingsChange,
+  onResetLLMSettings,
+  llmSaveStatus,
+  categories,
+  onClose,
+}) => {
+  const status = combineSaveStatus(saveStatus, llmSaveStatus);
+  const usesOpenAI = llmSettings.provider === 'openai' || llmSettings.embeddingProvider === 'openai';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="设置"
+        onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-lg max-h-[90vh] overflow-y-auto bg-white dark:bg-gray-800 rounded-lg shadow-lg border border-[#DADCE0] dark:border-gray-700"
+      >
+        <div className="flex items-center justify-between p-4 border-b border-[#DADCE0] dark:border-gray-700">
+          <h2 className="text-lg font-medium text-[#202124] dark:text-white">设置</h2>
+          <button onClick={onClose} className="text-sm text-[#5F6368] dark:text-gray-400 hover:text-[#202124] dark:hover:text-white">关闭</button>
+        </div>
+
+        <div className="px-4">
+          <SectionTitle onReset={onResetPolicy}>补全</SectionTitle>
+          <SettingRow label="触发延迟" description="停止输入多久后开始查找建议。">
+            <NumberInput value={policy.debounceMs} min={0} max={5000} step={50} unit="毫秒" onChange={(debounceMs) => onPolicyChange({ debounceMs })} />
+          </SettingRow>
+          <SettingRow label="最少字数" description="光标前至少有这么多字才请求 AI 建议。">
+            <NumberInput value={policy.minChars} min={0} max={200} unit="字" onChange={(minChars) => onPolicyChange({ minChars })} />
+          </SettingRow>
+          <SettingRow label="只在空格或标点后触发" description="输入词语的中途不请求 AI 建议，逐字匹配不受影响。">
+            <Checkbox checked={policy.triggerOnlyAfterBoundary} onChange={(triggerOnlyAfterBoundary) => onPolicyChange({ triggerOnlyAfterBoundary })} />
+          </SettingRow>
+          <SettingRow label="在移动设备上关闭 AI 建议" description="触屏设备上只使用知识库的逐字匹配。">
+            <Checkbox checked={policy.disableAIOnMobile} onChange={(disableAIOnMobile) => onPolicyChange({ disableAIOnMobile })} />
+          </SettingRow>
+          <SettingRow label="建议最大字数" description="超过后截断 AI 建议，0 表示不限制。">
+            <NumberInput value={policy.maxSuggestionLength} min={0} max={2000} step={10} unit="字" onChange={(maxSuggestionLength) => onPolicyChange({ maxSuggestionLength })} />
+          </SettingRow>
+
+          {categories.length > 0 && (
+            <>
+              <SectionTitle>知识库分类加权</SectionTitle>
+              {categories.map(category => (
+                <SettingRow key={category} label={category} description="加权越高，该分类的条目在逐字匹配中越靠前。">
+                  <NumberInput
+                    value={policy.categoryWeights[category] ?? 0}
+                    min={-2}
+                    max={2}
+                    step={0.1}
+                    unit=""
+                    onChange={(weight) => onPolicyChange({ categoryWeights: { ...policy.categoryWeights, [category]: weight } })}
+                  />
+                </SettingRow>
+              ))}
+            </>
+          )}
+
+          <SectionTitle onReset={onResetLLMSettings}>模型（当前工作区）</SectionTitle>
+          <SettingRow label="生成模型" description="AI 建议和改写使用的模型，工作区的所有成员共用。">
+            <ProviderSelect value={llmSettings.provider} onChange={(provider) => onLLMSettingsChange({ provider })} />
+          </SettingRow>
+          <SettingRow label="向量模型" description="知识库检索使用的模型，切换后知识库需要重新生成向量，文档在下次保存时重新生成。">
+            <ProviderSelect value={llmSettings.embeddingProvider} onChange={(embeddingProvider) => onLLMSettingsChange({ embeddingProvider })} />
+          </SettingRow>
+          {usesOpenAI && (
+            <>
+              <SettingRow label="接口地址" description="OpenAI 或兼容服务（如自建的 vLLM、Ollama）的地址。使用自建服务时不会附带内置的 API Key。">
+                <TextInput value={llmSettings.baseUrl} onChange={(baseUrl) => onLLMSettingsChange({ baseUrl })} />
+              </SettingRow>
+              <SettingRow label="生成模型名称" description="留空时使用 gpt-4o-mini。">
+                <TextInput value={llmSettings.model} placeholder="gpt-4o-mini" onChange={(model) => onLLMSettingsChange({ model })} />
+              </SettingRow>
+              <SettingRow label="向量模型名称" description="留空时使用 text-embedding-3-small。">
+                <TextInput value={llmSettings.embeddingModel} placeholder="text-embedding-3-small" onChange={(embeddingModel) => onLLMSettingsChange({ embeddingModel })} />
+              </SettingRow>
+            </>
+          )}
+        </div>
+
+        <div className="flex items-center p-4 border-t border-[#DADCE0] dark:border-gray-700">
+          <span className={`text-xs ${status === 'error' ? 'text-red-600 dark:text-red-400' : 'text-[#5F6368] dark:text-gray-400'}`}>
+            {SAVE_STATUS_TEXT[status]}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 
 import React from 'react';
 import type { Project, Document, UserProfile } from '../src/types';
-import { FolderIcon, DocumentIcon, PlusIcon, SunIcon, MoonIcon } from './icons/Icons';
+import { FolderIcon, DocumentIcon, PlusIcon, SunIcon, MoonIcon, SettingsIcon } from './icons/Icons';
 
 interface SidebarProps {
   projects: Project[];
@@ -13,6 +13,7 @@ interface SidebarProps {
   theme: 'light' | 'dark';
   onThemeChange: (theme: 'light' | 'dark') => void;
   currentUser: UserProfile;
+  onOpenSettings: () => void;
 }
 
 const NavItem: React.FC<{
@@ -42,6 +43,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
   theme,
   onThemeChange,
   currentUser,
+  onOpenSettings,
 }) => {
   const toggleTheme = () => {
     onThemeChange(theme === 'light' ? 'dark' : 'light');
@@ -96,9 +98,14 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 </div>
                 <span className="text-sm font-medium text-[#202124] dark:text-white">{currentUser.name}</span>
            </div>
-           <button onClick={toggleTheme} className="p-2 rounded-full text-[#5F6368] dark:text-gray-400 hover:bg-[#E8EAED] dark:hover:bg-gray-700 transition-colors">
-                {theme === 'light' ? <MoonIcon className="w-5 h-5" /> : <SunIcon className="w-5 h-5" />}
-           </button>
+           <div className="flex items-center">
+                <button onClick={onOpenSettings} title="设置" className="p-2 rounded-full text-[#5F6368] dark:text-gray-400 hover:bg-[#E8EAED] dark:hover:bg-gray-700 transition-colors">
+                     <SettingsIcon className="w-5 h-5" />
+                </button>
+                <button onClick={toggleTheme} className="p-2 rounded-full text-[#5F6368] dark:text-gray-400 hover:bg-[#E8EAED] dark:hover:bg-gray-700 transition-colors">
+                     {theme === 'light' ? <MoonIcon className="w-5 h-5" /> : <SunIcon className="w-5 h-5" />}
+                </button>
+           </div>
         </div>
       </div>
     </nav>
@@ -0,0 +1,84 @@
+import React, { useEffect, useReducer, useRef } from 'react';
+import type { Editor as TipTapEditor } from '@tiptap/core';
+import type { StandardInfo } from '../types';
+import { getSlashCommandCategory, getSlashCommandItems, slashCommandPluginKey } from '../tiptap/slashCommand';
+import { toPlainText } from '../tiptap/richSuggestion';
+
+interface SlashCommandMenuProps {
+  editor: TipTapEditor;
+  standardInfo: StandardInfo[];
+}
+
+export const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({ editor, standardInfo }) => {
+  // 菜单状态保存在编辑器插件里，这里在每个事务后重新渲染
+  const [, forceUpdate] = useReducer((count: number) => count + 1, 0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    editor.on('transaction', forceUpdate);
+    return () => {
+      editor.off('transaction', forceUpdate);
+    };
+  }, [editor]);
+
+  const state = slashCommandPluginKey.getState(editor.state);
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector('[aria-selected="true"]')
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [state?.selectedIndex]);
+
+  if (!state?.active || editor.isDestroyed) {
+    return null;
+  }
+
+  const items = getSlashCommandItems(standardInfo, state.query);
+  const coords = editor.view.coordsAtPos(state.from);
+
+  return (
+    <div
+      ref={listRef}
+      role="listbox"
+      style={{ top: coords.bottom + 4, left: coords.left }}
+      className="fixed z-50 w-80 max-h-72 overflow-y-auto rounded-lg border border-[#DADCE0] dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg py-1"
+    >
+      {items.length === 0 ? (
+        <p className="px-3 py-2 text-sm text-[#5F6368] dark:text-gray-400">
+          {state.query ? `没有匹配“${state.query}”的标准条目` : '知识库中还没有标准条目'}
+        </p>
+      ) : items.map((info, index) => {
+        const category = getSlashCommandCategory(info);
+        const showHeader = index === 0 || getSlashCommandCategory(items[index - 1]) !== category;
+        const selected = index === state.selectedIndex;
+
+        return (
+          <React.Fragment key={info.id}>
+            {showHeader && (
+              <div className="px-3 pt-2 pb-1 text-xs font-medium text-[#5F6368] dark:text-gray-400">{category}</div>
+            )}
+            <button
+              role="option"
+              aria-selected={selected}
+              // 用 mousedown 并阻止默认行为，避免编辑器先失去焦点
+              onMouseDown={(event) => {
+                event.preventDefault();
+                editor.chain().focus().selectSlashCommandItem(index, event.ctrlKey || event.metaKey).run();
+              }}
+              className={`w-full text-left px-3 py-1.5 text-sm truncate transition-colors ${
+                selected ? 'bg-[#E8F0FE] dark:bg-gray-700 text-[#1A73E8] dark:text-blue-300' : 'text-[#202124] dark:text-gray-100 hover:bg-[#F1F3F4] dark:hover:bg-gray-700'
+              }`}
+            >
+              {toPlainText(info.content)}
+            </button>
+          </React.Fragment>
+        );
+      })}
+      {items.length > 0 && (
+        <p className="px-3 pt-1.5 pb-1 mt-1 border-t border-[#DADCE0] dark:border-gray-700 text-xs text-[#5F6368] dark:text-gray-400">
+          Enter 插入文本 · Ctrl+Enter 插入链接引用
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, cleanup, waitFor, act } from '@testing-library/react';
+import type { Editor as TipTapEditor } from '@tiptap/core';
+import { Editor } from '../Editor';
+import { completionPluginKey } from '../../tiptap/completion';
+import { DEFAULT_COMPLETION_POLICY } from '../../tiptap/completionPolicy';
+import { PRESET_TEMPLATES, DEFAULT_PROJECT_PROMPT_SETTINGS } from '../../services/promptTemplates';
+import type { Document } from '../../src/types';
+
+vi.mock('../../services/geminiService', () => ({
+  getCompletionStream: vi.fn(async function* () {
+    yield '，欢迎选购';
+  }),
+}));
+vi.mock('../../src/hooks/useAuth', () => ({ useAuth: () => ({ user: null }) }));
+vi.mock('../../src/hooks/useAIStatus', () => ({ useAIStatus: () => 'available' }));
+vi.mock('../../src/services/telemetryService', () => ({
+  telemetryService: {
+    getStandardInfoUsage: async () => new Map(),
+    recordStandardInfoUsage: vi.fn(),
+    recordCompletionEvent: vi.fn(),
+  },
+}));
+
+const doc = { id: 'doc-1', projectId: 'p1', title: '夏季文案', content: '<p></p>' } as Document;
+
+const mount = (onDocumentChange: (documentId: string, content: string) => void) => {
+  const { container } = render(
+    <Editor
+      document={doc}
+      onDocumentChange={onDocumentChange}
+      collaborators={[]}
+      rewriteMode
+      onRewriteModeChange={() => {}}
+      onClose={() => {}}
+      standardInfo={[]}
+      completionPolicy={{ ...DEFAULT_COMPLETION_POLICY, debounceMs: 0 }}
+      onOpenSettings={() => {}}
+      promptTemplates={PRESET_TEMPLATES}
+      promptTemplateId={PRESET_TEMPLATES[0].id}
+      onPromptTemplateChange={() => {}}
+      promptSettings={DEFAULT_PROJECT_PROMPT_SETTINGS}
+    />,
+  );
+  const dom = container.querySelector('.ProseMirror') as HTMLElement & { editor: TipTapEditor };
+  return dom.editor;
+};
+
+describe('Editor', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it('部分接受建议后即使剩余部分仍在显示，也会保存文档', async () => {
+    const onDocumentChange = vi.fn();
+    const editor = mount(onDocumentChange);
+
+    act(() => {
+      editor.chain().focus('end').insertContent('夏季新品上市了').run();
+    });
+    await waitFor(() => expect(completionPluginKey.getState(editor.state)?.suggestion).toBe('，欢迎选购'));
+    onDocumentChange.mockClear();
+
+    act(() => {
+      editor.commands.acceptCompletionWord();
+    });
+
+    expect(completionPluginKey.getState(editor.state)?.active).toBe(true);
+    expect(onDocumentChange).toHaveBeenLastCalledWith('doc-1', '<p>夏季新品上市了，欢迎</p>');
+  });
+});
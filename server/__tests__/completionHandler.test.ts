@@ -0,0 +1,269 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { createCompletionHandler, MAX_BODY_BYTES, MAX_OUTPUT_TOKENS, type CompletionHandlerDeps } from '../completionHandler'
+import { RateLimiter } from '../rateLimiter'
+import { createSupabaseCompletionDeps } from '../supabaseDeps'
+import { createMockProvider } from '../../src/services/llmService'
+import { DEFAULT_PROJECT_PROMPT_SETTINGS } from '../../services/promptTemplates'
+
+const { rpc } = vi.hoisted(() => ({
+  rpc: vi.fn(async (_name: string, _params: Record<string, unknown>) => ({ data: [] as unknown[], error: null }))
+}))
+
+// 工作区设置中填写了自定义接口地址和提示词设置
+vi.mock('@supabase/supabase-js', () => ({
+  createClient: () => ({
+    auth: { getUser: async () => ({ data: { user: { id: 'u1' } }, error: null }) },
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({
+            data: {
+              metadata: {
+                llm: { provider: 'openai', embeddingProvider: 'openai', baseUrl: 'http://169.254.169.254/v1' },
+                prompt: { brandVoice: '专业克制', bannedWords: ['最', 42], templates: [{ id: 't1', name: '短句', body: '{{sentence}}' }] }
+              }
+            },
+            error: null
+          })
+        })
+      })
+    }),
+    rpc
+  })
+}))
+
+const TOKEN = 'valid-token'
+
+// 本地桩模型：回复固定内容，并记录收到的提示词
+const setup = (overrides: Partial<CompletionHandlerDeps> = {}) => {
+  const prompts: string[] = []
+  const provider = createMockProvider({
+    response: prompt => {
+      prompts.push(prompt)
+      return '轻盈透气，清凉一夏。'
+    },
+    chunkSize: 3
+  })
+  const deps: CompletionHandlerDeps = {
+    authenticate: vi.fn(async (token: string) => (token === TOKEN ? { id: 'u1' } : null)),
+    getProvider: vi.fn(async () => provider),
+    getPromptSettings: vi.fn(async () => DEFAULT_PROJECT_PROMPT_SETTINGS),
+    retrieve: vi.fn(async () => [
+      { id: 'c1', source: 'document' as const, content: '夏季系列采用轻质面料。', label: '夏季文案', score: 0.9 }
+    ]),
+    rateLimiter: new RateLimiter({ limit: 10, windowMs: 60_000 }),
+    ...overrides
+  }
+  return { handler: createCompletionHandler(deps), deps, prompts }
+}
+
+const post = (body: unknown, token: string | null = TOKEN) =>
+  new Request('http://localhost/api/completion', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+    },
+    body: JSON.stringify(body)
+  })
+
+describe('completionHandler', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    rpc.mockReset()
+    rpc.mockImplementation(async () => ({ data: [], error: null }))
+  })
+
+  it('缺少或无效的访问令牌应该返回 401', async () => {
+    const { handler, deps } = setup()
+
+    expect((await handler(post({ prompt: '夏天到了' }, null))).status).toBe(401)
+    expect((await handler(post({ prompt: '夏天到了' }, 'undefined'))).status).toBe(401)
+    expect((await handler(post({ prompt: '夏天到了' }, 'expired'))).status).toBe(401)
+    expect(deps.getProvider).not.toHaveBeenCalled()
+  })
+
+  it('应该校验请求体', async () => {
+    const { handler } = setup()
+
+    expect((await handler(post({ prompt: '  ' }))).status).toBe(400)
+    expect((await handler(post({ prompt: '字'.repeat(8001) }))).status).toBe(413)
+    expect((await handler(new Request('http://localhost/api/completion'))).status).toBe(405)
+  })
+
+  it('请求体超过上限时返回 413，不读完整个请求体', async () => {
+    const { handler, deps } = setup()
+    const oversized = post({ prompt: '夏天到了', context: 'a'.repeat(MAX_BODY_BYTES) })
+    expect((await handler(oversized)).status).toBe(413)
+
+    let pulled = 0
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++
+        controller.enqueue(new Uint8Array(16 * 1024))
+      }
+    })
+    const streamed = new Request('http://localhost/api/completion', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${TOKEN}` },
+      body: endless,
+      duplex: 'half'
+    } as RequestInit)
+    expect((await handler(streamed)).status).toBe(413)
+    expect(pulled).toBeLessThanOrEqual(MAX_BODY_BYTES / (16 * 1024) + 2)
+    expect(deps.getProvider).not.toHaveBeenCalled()
+  })
+
+  it('maxTokens 超出上限时截断，无效值按默认处理', async () => {
+    const provider = createMockProvider()
+    const generate = vi.spyOn(provider, 'generate')
+    const { handler } = setup({ getProvider: vi.fn(async () => provider) })
+
+    await handler(post({ prompt: '夏天到了', maxTokens: 1_000_000 }))
+    await handler(post({ prompt: '夏天到了', maxTokens: -5 }))
+    await handler(post({ prompt: '夏天到了', maxTokens: '100' }))
+    await handler(post({ prompt: '夏天到了', maxTokens: 200 }))
+
+    expect(generate.mock.calls.map(([, options]) => options?.maxTokens)).toEqual([MAX_OUTPUT_TOKENS, undefined, undefined, 200])
+  })
+
+  it('工作区设置的接口地址不会收到服务端的 API Key，服务端也不会请求该地址', async () => {
+    const fetchMock = vi.fn(async (url: string, _init: RequestInit) => url.endsWith('/embeddings')
+      ? Response.json({ data: [{ index: 0, embedding: [0.1, 0.2] }] })
+      : Response.json({ choices: [{ message: { content: '轻盈透气' } }] }))
+    vi.stubGlobal('fetch', fetchMock)
+    const handler = createCompletionHandler(createSupabaseCompletionDeps({
+      supabaseUrl: 'http://localhost:54321',
+      supabaseAnonKey: 'anon',
+      apiKeys: { openai: 'sk-server' },
+      rateLimit: { limit: 10, windowMs: 60_000 }
+    }))
+
+    const response = await handler(post({ prompt: '夏天到了', projectId: 'p1' }))
+
+    expect(response.status).toBe(200)
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      'https://api.openai.com/v1/embeddings',
+      'https://api.openai.com/v1/chat/completions'
+    ])
+    expect(fetchMock.mock.calls.every(([url]) => !url.includes('169.254.169.254'))).toBe(true)
+  })
+
+  it('服务端检索与前端一样多取候选并重排，去掉同一文档中重叠的分块', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json({ data: [{ index: 0, embedding: [0.1, 0.2] }] })))
+    const overlap = '面料采用 70% 羊毛与 30% 羊绒混纺，保暖轻盈。'
+    rpc.mockImplementation(async (name: string) => ({
+      data: name === 'search_similar_documents'
+        ? [
+            { id: 'a0', document_id: 'coat', content: `秋冬大衣系列全新上市。${overlap}`, document_title: '大衣', similarity: 0.86 },
+            { id: 'a1', document_id: 'coat', content: `${overlap}支持退换。`, document_title: '大衣', similarity: 0.85 }
+          ]
+        : [{ id: 's1', content: '<p>羊毛面料需<strong>干洗</strong>。</p>', category: '洗护', similarity: 0.8 }],
+      error: null
+    }))
+    const deps = createSupabaseCompletionDeps({
+      supabaseUrl: 'http://localhost:54321',
+      supabaseAnonKey: 'anon',
+      apiKeys: { openai: 'sk-server' },
+      rateLimit: { limit: 10, windowMs: 60_000 },
+      topK: 2
+    })
+
+    const chunks = await deps.retrieve('羊毛面料', { id: 'u1' }, { token: TOKEN, projectId: 'p1' })
+
+    expect(rpc).toHaveBeenCalledWith('search_similar_documents', expect.objectContaining({ match_limit: 6, query_embedding_model: 'openai:text-embedding-3-small' }))
+    expect(rpc).toHaveBeenCalledWith('search_similar_standard_info', expect.objectContaining({ match_limit: 6, query_embedding_model: 'openai:text-embedding-3-small' }))
+    // 只按相似度排序时会取到 a0 和与它重叠的 a1
+    expect(chunks.map(chunk => chunk.id).sort()).toEqual(['a0', 's1'])
+    // 富文本条目去掉标签后再放入提示词
+    expect(chunks.find(chunk => chunk.id === 's1')?.content).toBe('羊毛面料需干洗。')
+  })
+
+  it('非流式请求应该检索参考资料并返回文本和用量', async () => {
+    const { handler, deps, prompts } = setup()
+
+    const response = await handler(post({ prompt: '夏天到了', context: '新品发布', projectId: 'p1', userId: 'someone-else' }))
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(body.text).toBe('轻盈透气，清凉一夏。')
+    expect(body.usage.totalTokens).toBeGreaterThan(0)
+    expect(body.usage.context.documentChunks.included).toBe(2)
+    // 以令牌对应的用户为准，忽略请求体中的 userId
+    expect(deps.retrieve).toHaveBeenCalledWith('夏天到了', { id: 'u1' }, { token: TOKEN, projectId: 'p1' })
+    expect(deps.getProvider).toHaveBeenCalledWith({ id: 'u1' }, { token: TOKEN, projectId: 'p1' })
+    expect(prompts[0]).toContain('[1] （当前文档）新品发布\n[2] （夏季文案）夏季系列采用轻质面料。')
+    expect(prompts[0]).toContain('用户的句子: "夏天到了"')
+  })
+
+  it('流式请求应该按 OpenAI 格式输出 SSE 并以 [DONE] 结束', async () => {
+    const { handler } = setup()
+
+    const response = await handler(post({ prompt: '夏天到了', stream: true }))
+    const events = (await response.text()).split('\n\n').filter(Boolean).map(event => event.replace(/^data: /, ''))
+
+    expect(response.headers.get('Content-Type')).toContain('text/event-stream')
+    expect(events.at(-1)).toBe('[DONE]')
+    expect(events.slice(0, -1).map(event => JSON.parse(event).choices[0].delta.content).join('')).toBe('轻盈透气，清凉一夏。')
+  })
+
+  it('按工作区的提示词设置生成，输出在禁用词之前结束', async () => {
+    const settings = {
+      brandVoice: '轻松活泼',
+      bannedWords: ['清凉'],
+      templates: [{ id: 't1', name: '短标题', body: '为「{{title}}」写一句短标题：{{sentence}}' }]
+    }
+    const { handler, deps, prompts } = setup({ getPromptSettings: vi.fn(async () => settings) })
+
+    const response = await handler(post({ prompt: '夏天到了', projectId: 'p1', templateId: 't1' }))
+    const streamed = await handler(post({ prompt: '夏天到了', projectId: 'p1', templateId: 't1', stream: true }))
+    const events = (await streamed.text()).split('\n\n').filter(Boolean).map(event => event.replace(/^data: /, ''))
+
+    expect(deps.getPromptSettings).toHaveBeenCalledWith({ id: 'u1' }, { token: TOKEN, projectId: 'p1' })
+    expect(prompts[0]).toBe('品牌语气: 轻松活泼\n禁止使用以下词语: 清凉\n\n为「未命名文档」写一句短标题：夏天到了')
+    expect((await response.json()).text).toBe('轻盈透气，')
+    expect(events.at(-1)).toBe('[DONE]')
+    expect(events.slice(0, -1).map(event => JSON.parse(event).choices[0].delta.content).join('')).toBe('轻盈透气，')
+  })
+
+  it('服务端从 projects.metadata.prompt 读取提示词设置，没有项目时使用默认设置', async () => {
+    const deps = createSupabaseCompletionDeps({
+      supabaseUrl: 'http://localhost:54321',
+      supabaseAnonKey: 'anon',
+      apiKeys: { openai: 'sk-server' },
+      rateLimit: { limit: 10, windowMs: 60_000 }
+    })
+
+    expect(await deps.getPromptSettings({ id: 'u1' }, { token: TOKEN, projectId: 'p1' })).toEqual({
+      brandVoice: '专业克制',
+      bannedWords: ['最'],
+      templates: [{ id: 't1', name: '短句', body: '{{sentence}}' }]
+    })
+    expect(await deps.getPromptSettings({ id: 'u1' }, { token: TOKEN, projectId: null })).toEqual(DEFAULT_PROJECT_PROMPT_SETTINGS)
+  })
+
+  it('检索失败时应该继续生成', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { handler } = setup({ retrieve: vi.fn(async () => { throw new Error('rpc failed') }) })
+
+    const response = await handler(post({ prompt: '夏天到了' }))
+
+    expect(response.status).toBe(200)
+  })
+
+  it('超过每个用户的请求限制后应该返回 429 和 Retry-After', async () => {
+    let now = 0
+    const { handler } = setup({ rateLimiter: new RateLimiter({ limit: 2, windowMs: 60_000, now: () => now }) })
+
+    expect((await handler(post({ prompt: '夏天到了' }))).status).toBe(200)
+    now = 20_000
+    expect((await handler(post({ prompt: '夏天到了' }))).status).toBe(200)
+    now = 30_000
+    const limited = await handler(post({ prompt: '夏天到了' }))
+    expect(limited.status).toBe(429)
+    expect(limited.headers.get('Retry-After')).toBe('30')
+
+    now = 60_001
+    expect((await handler(post({ prompt: '夏天到了' }))).status).toBe(200)
+  })
+})
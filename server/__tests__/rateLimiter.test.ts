@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest'
+import { RateLimiter } from '../rateLimiter'
+
+describe('RateLimiter', () => {
+  it('窗口过去后清理不再请求的用户', () => {
+    let now = 0
+    const limiter = new RateLimiter({ limit: 2, windowMs: 60_000, now: () => now })
+
+    limiter.check('u1')
+    limiter.check('u2')
+    now = 30_000
+    limiter.check('u2')
+    expect(limiter.size).toBe(2)
+
+    // u1 的最后一次请求已在窗口之外，u2 还在窗口内
+    now = 70_000
+    limiter.check('u3')
+    expect(limiter.size).toBe(2)
+    expect(limiter.check('u2')).toMatchObject({ allowed: true, remaining: 0 })
+
+    now = 200_000
+    limiter.check('u3')
+    expect(limiter.size).toBe(1)
+  })
+})
@@ -0,0 +1,88 @@
+import type { ServerResponse } from 'node:http'
+import type { Connect, Plugin } from 'vite'
+import { createCompletionHandler, MAX_BODY_BYTES, type CompletionHandlerDeps } from './completionHandler'
+
+// Node 请求 → Fetch Request；客户端断开时中止模型调用
+const toRequest = async (req: Connect.IncomingMessage, res: ServerResponse) => {
+  const controller = new AbortController()
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort()
+  })
+
+  // 超过上限的部分读出后直接丢弃，处理函数看到超长的请求体会返回 413
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of req) {
+    if (size > MAX_BODY_BYTES) continue
+    chunks.push(chunk as Buffer)
+    size += (chunk as Buffer).length
+  }
+
+  const headers = new Headers()
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (Array.isArray(value)) value.forEach(item => headers.append(name, item))
+    else if (value !== undefined) headers.set(name, value)
+  })
+
+  const hasBody = req.method !== 'GET' && req.method !== 'HEAD'
+  return new Request(`http://${req.headers.host ?? 'localhost'}${req.originalUrl ?? req.url ?? '/'}`, {
+    method: req.method,
+    headers,
+    body: hasBody ? Buffer.concat(chunks) : undefined,
+    signal: controller.signal
+  })
+}
+
+// Fetch Response → Node 响应，逐块写出以保持 SSE 的流式效果
+const sendResponse = async (response: Response, res: ServerResponse) => {
+  res.statusCode = response.status
+  response.headers.forEach((value, name) => res.setHeader(name, value))
+
+  if (!response.body) {
+    res.end()
+    return
+  }
+
+  const reader = response.body.getReader()
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      res.write(value)
+    }
+  } finally {
+    res.end()
+  }
+}
+
+// 在 Vite 开发服务器和 preview 服务器上提供 /api/completion
+// 依赖在第一次请求时创建，缺少环境变量不影响前端页面的启动
+export const completionApiPlugin = (createDeps: () => CompletionHandlerDeps): Plugin => {
+  let handler: ReturnType<typeof createCompletionHandler> | null = null
+
+  const middleware = async (req: Connect.IncomingMessage, res: ServerResponse) => {
+    try {
+      handler ??= createCompletionHandler(createDeps())
+      await sendResponse(await handler(await toRequest(req, res)), res)
+    } catch (error) {
+      console.error('/api/completion 处理失败:', error)
+      if (!res.headersSent) {
+        res.statusCode = 500
+        res.setHeader('Content-Type', 'application/json; charset=utf-8')
+        res.end(JSON.stringify({ error: '服务端未正确配置' }))
+      } else {
+        res.end()
+      }
+    }
+  }
+
+  return {
+    name: 'completion-api',
+    configureServer(server) {
+      server.middlewares.use('/api/completion', middleware)
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use('/api/completion', middleware)
+    }
+  }
+}
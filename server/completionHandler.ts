@@ -0,0 +1,219 @@
+import type { LLMProvider } from '../src/services/llmService'
+import type { RetrievedChunk } from '../src/services/retrievalService'
+import type { CompletionRequest, CompletionResponse } from '../src/services/completionService'
+import { COMPLETION_CONTEXT_LIMIT, packPrompt } from '../services/contextPacker'
+import {
+  cutAtBannedWord,
+  findTemplate,
+  getAvailableTemplates,
+  withoutBannedWords,
+  type ProjectPromptSettings
+} from '../services/promptTemplates'
+import type { RateLimiter } from './rateLimiter'
+
+export interface AuthenticatedUser {
+  id: string
+}
+
+// 请求所在的工作区：模型设置和检索范围都按它确定
+export interface RequestScope {
+  token: string
+  projectId: string | null
+}
+
+// 处理函数依赖的外部服务，生产环境由 Supabase 实现，测试中替换为本地桩
+export interface CompletionHandlerDeps {
+  // 校验访问令牌，无效时返回 null
+  authenticate(token: string): Promise<AuthenticatedUser | null>
+  // 工作区在设置中选择的生成模型
+  getProvider(user: AuthenticatedUser, scope: RequestScope): Promise<LLMProvider>
+  // 工作区的提示词设置：自定义模板、品牌语气和禁用词
+  getPromptSettings(user: AuthenticatedUser, scope: RequestScope): Promise<ProjectPromptSettings>
+  // 检索参考资料，失败时按没有参考资料处理
+  retrieve(query: string, user: AuthenticatedUser, scope: RequestScope): Promise<RetrievedChunk[]>
+  rateLimiter: RateLimiter
+}
+
+export const MAX_PROMPT_LENGTH = 8000
+// 请求体的字节上限，prompt 和 context 合计远小于此
+export const MAX_BODY_BYTES = 64 * 1024
+// 单次补全最多生成的 token 数，请求中的 maxTokens 超出时按此截断
+export const MAX_OUTPUT_TOKENS = 1024
+
+const json = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json; charset=utf-8', ...headers }
+  })
+
+const readToken = (request: Request) => {
+  const match = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)
+  // 客户端没有会话时会发送字面量 "undefined"
+  return match && match[1] !== 'undefined' ? match[1] : null
+}
+
+const BODY_TOO_LARGE = Symbol('body too large')
+
+// 边读边计数，超过上限立即停止读取，过大的请求体不会整个读进内存
+const readBody = async (request: Request): Promise<string | typeof BODY_TOO_LARGE> => {
+  if (Number(request.headers.get('content-length')) > MAX_BODY_BYTES) return BODY_TOO_LARGE
+  if (!request.body) return ''
+
+  const reader = request.body.getReader()
+  const decoder = new TextDecoder()
+  let size = 0
+  let text = ''
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.byteLength
+    if (size > MAX_BODY_BYTES) {
+      await reader.cancel()
+      return BODY_TOO_LARGE
+    }
+    text += decoder.decode(value, { stream: true })
+  }
+  return text + decoder.decode()
+}
+
+const parseBody = async (request: Request): Promise<CompletionRequest | null | typeof BODY_TOO_LARGE> => {
+  try {
+    const text = await readBody(request)
+    if (text === BODY_TOO_LARGE) return text
+    const body = JSON.parse(text)
+    return body && typeof body === 'object' ? body : null
+  } catch {
+    return null
+  }
+}
+
+// 非正数或非数字时使用默认值，超过上限时截断
+const clampMaxTokens = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 1
+    ? Math.min(Math.floor(value), MAX_OUTPUT_TOKENS)
+    : undefined
+
+// 与 completionService 约定的 SSE 格式：每个分片是 OpenAI 风格的 choices[0].delta.content，最后发送 [DONE]
+const streamCompletion = (provider: LLMProvider, prompt: string, request: CompletionRequest, bannedWords: string[], signal: AbortSignal) => {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (data: string) => controller.enqueue(encoder.encode(`data: ${data}\n\n`))
+
+      try {
+        const stream = provider.stream(prompt, { maxTokens: request.maxTokens, temperature: request.temperature, signal })
+        // 与编辑器一样，输出遇到禁用词时在它之前结束
+        for await (const content of withoutBannedWords(stream, bannedWords)) {
+          send(JSON.stringify({ choices: [{ delta: { content } }] }))
+        }
+        send('[DONE]')
+      } catch (error) {
+        if (!signal.aborted) {
+          console.error('AI 生成失败:', error)
+          controller.enqueue(encoder.encode(`event: error\ndata: ${JSON.stringify({ error: 'AI 生成失败' })}\n\n`))
+        }
+      } finally {
+        controller.close()
+      }
+    }
+  })
+}
+
+// /api/completion：校验令牌 → 限流 → 检索 → 调用模型，按请求返回 JSON 或 SSE
+export const createCompletionHandler = (deps: CompletionHandlerDeps) => async (request: Request): Promise<Response> => {
+  if (request.method !== 'POST') {
+    return json(405, { error: '只支持 POST 请求' }, { 'Allow': 'POST' })
+  }
+
+  const token = readToken(request)
+  if (!token) {
+    return json(401, { error: '缺少访问令牌' })
+  }
+
+  const user = await deps.authenticate(token).catch(error => {
+    console.error('校验访问令牌失败:', error)
+    return null
+  })
+  if (!user) {
+    return json(401, { error: '访问令牌无效或已过期' })
+  }
+
+  const limit = deps.rateLimiter.check(user.id)
+  if (!limit.allowed) {
+    return json(429, { error: '请求过于频繁，请稍后再试' }, { 'Retry-After': String(Math.ceil(limit.retryAfterMs / 1000)) })
+  }
+
+  const body = await parseBody(request)
+  if (body === BODY_TOO_LARGE) {
+    return json(413, { error: `请求体不能超过 ${MAX_BODY_BYTES / 1024} KB` })
+  }
+  const prompt = typeof body?.prompt === 'string' ? body.prompt.trim() : ''
+  if (!body || !prompt) {
+    return json(400, { error: '缺少 prompt' })
+  }
+  if (prompt.length > MAX_PROMPT_LENGTH) {
+    return json(413, { error: `prompt 不能超过 ${MAX_PROMPT_LENGTH} 字` })
+  }
+
+  const scope: RequestScope = { token, projectId: body.projectId ?? null }
+  const chunks = await deps.retrieve(prompt, user, scope).catch(error => {
+    console.error('检索参考资料失败:', error)
+    return [] as RetrievedChunk[]
+  })
+
+  const provider = await deps.getProvider(user, scope)
+  if (!provider.available) {
+    return json(503, { error: 'AI 服务未配置' })
+  }
+  const settings = await deps.getPromptSettings(user, scope)
+
+  const maxTokens = clampMaxTokens(body.maxTokens)
+
+  // 客户端传来的 context 是当前文档的内容，放在检索结果之前
+  const context = typeof body.context === 'string' ? body.context.trim() : ''
+  const packed = packPrompt({
+    template: findTemplate(getAvailableTemplates(settings), body.templateId),
+    sentence: prompt,
+    suffix: '',
+    title: '',
+    chunks: context
+      ? [{ id: 'request-context', source: 'document', content: context, label: '当前文档', score: 1 }, ...chunks]
+      : chunks,
+    settings
+  }, {
+    contextWindow: Math.min(provider.contextWindow, COMPLETION_CONTEXT_LIMIT),
+    maxOutputTokens: maxTokens,
+    countTokens: provider.countTokens
+  })
+
+  if (body.stream) {
+    return new Response(streamCompletion(provider, packed.prompt, { ...body, maxTokens }, settings.bannedWords, request.signal), {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive'
+      }
+    })
+  }
+
+  try {
+    const result = await provider.generate(packed.prompt, {
+      maxTokens,
+      temperature: body.temperature,
+      signal: request.signal
+    })
+    const text = cutAtBannedWord(result.text, settings.bannedWords)
+    // 模型没有返回用量时按本地估算
+    const promptTokens = result.usage?.promptTokens ?? packed.usage.promptTokens
+    const completionTokens = result.usage?.completionTokens ?? provider.countTokens(result.text)
+    const response: CompletionResponse = {
+      text,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens, context: packed.usage }
+    }
+    return json(200, response)
+  } catch (error) {
+    console.error('AI 生成失败:', error)
+    return json(502, { error: 'AI 生成失败' })
+  }
+}
@@ -0,0 +1,55 @@
+export interface RateLimiterOptions {
+  // 每个窗口内允许的请求数
+  limit: number
+  windowMs: number
+  now?: () => number
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  remaining: number
+  // 被拒绝时距离下一次可以请求的时间
+  retryAfterMs: number
+}
+
+// 按用户的滑动窗口限流，只保存在当前进程的内存中
+export class RateLimiter {
+  private readonly hits = new Map<string, number[]>()
+  private readonly now: () => number
+  private lastPrunedAt = 0
+
+  constructor(private readonly options: RateLimiterOptions) {
+    this.now = options.now ?? Date.now
+  }
+
+  // 当前保存了请求记录的用户数
+  get size() {
+    return this.hits.size
+  }
+
+  // 每个窗口最多清理一次：最近一次请求已在窗口之外的用户不再占用内存
+  private prune(now: number) {
+    const { windowMs } = this.options
+    if (now - this.lastPrunedAt < windowMs) return
+    this.lastPrunedAt = now
+    this.hits.forEach((times, key) => {
+      if (!times.length || times[times.length - 1] <= now - windowMs) this.hits.delete(key)
+    })
+  }
+
+  check(key: string): RateLimitResult {
+    const now = this.now()
+    const { limit, windowMs } = this.options
+    this.prune(now)
+    const recent = (this.hits.get(key) ?? []).filter(time => time > now - windowMs)
+
+    if (recent.length >= limit) {
+      this.hits.set(key, recent)
+      return { allowed: false, remaining: 0, retryAfterMs: recent[0] + windowMs - now }
+    }
+
+    recent.push(now)
+    this.hits.set(key, recent)
+    return { allowed: true, remaining: limit - recent.length, retryAfterMs: 0 }
+  }
+}
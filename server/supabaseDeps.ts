@@ -0,0 +1,163 @@
+import { createClient } from '@supabase/supabase-js'
+import {
+  createLLMProvider,
+  createOpenAICompatibleProvider,
+  normalizeLLMSettings,
+  DEFAULT_LLM_SETTINGS,
+  DEFAULT_OPENAI_BASE_URL,
+  type LLMApiKeys,
+  type LLMProviderId,
+  type LLMSettings
+} from '../src/services/llmService'
+import { rerank, RERANK_CANDIDATE_FACTOR, type RerankCandidate } from '../src/services/reranker'
+import { toModelText } from '../src/services/documentChunker'
+import { DEFAULT_PROJECT_PROMPT_SETTINGS, normalizeProjectPromptSettings } from '../services/promptTemplates'
+import type { CompletionHandlerDeps, RequestScope } from './completionHandler'
+import { RateLimiter, type RateLimiterOptions } from './rateLimiter'
+
+export interface CompletionServerConfig {
+  supabaseUrl?: string
+  supabaseAnonKey?: string
+  apiKeys: LLMApiKeys
+  // 服务端调用 OpenAI 兼容接口的地址，默认为官方接口；工作区设置中填写的地址在服务端不生效
+  openaiBaseUrl?: string
+  rateLimit: RateLimiterOptions
+  // 每次检索返回的参考资料条数
+  topK?: number
+}
+
+// projects.metadata 中服务端用到的设置，结构由前端写入，读取时再校验
+interface ProjectMetadata {
+  llm?: unknown
+  prompt?: unknown
+}
+
+// 工作区设置的缓存时间，避免每次补全都查询 projects
+const SETTINGS_TTL = 60 * 1000
+
+// 基于 Supabase 的依赖实现：以用户的令牌访问数据库，行级安全策略照常生效
+export const createSupabaseCompletionDeps = ({
+  supabaseUrl,
+  supabaseAnonKey,
+  apiKeys,
+  openaiBaseUrl = DEFAULT_OPENAI_BASE_URL,
+  rateLimit,
+  topK = 5
+}: CompletionServerConfig): CompletionHandlerDeps => {
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Missing Supabase environment variables')
+  }
+
+  const clientFor = (token: string) => createClient(supabaseUrl, supabaseAnonKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    global: { headers: { 'Authorization': `Bearer ${token}` } }
+  })
+
+  const metadataCache = new Map<string, { metadata: ProjectMetadata | null; expiresAt: number }>()
+
+  // 工作区的设置保存在 projects.metadata 中；没有指定项目或无权访问时为 null，使用默认设置
+  const loadMetadata = async (userId: string, { token, projectId }: RequestScope) => {
+    if (!projectId) return null
+    // 按用户区分缓存，行级安全策略对每个用户分别生效
+    const key = `${userId}:${projectId}`
+    const cached = metadataCache.get(key)
+    if (cached && cached.expiresAt > Date.now()) return cached.metadata
+
+    const { data, error } = await clientFor(token)
+      .from('projects')
+      .select('metadata')
+      .eq('id', projectId)
+      .maybeSingle()
+    if (error) throw error
+
+    const metadata: ProjectMetadata | null = data?.metadata ?? null
+    metadataCache.set(key, { metadata, expiresAt: Date.now() + SETTINGS_TTL })
+    return metadata
+  }
+
+  // 工作区的模型设置（projects.metadata.llm）
+  const loadSettings = async (userId: string, scope: RequestScope) => {
+    const metadata = await loadMetadata(userId, scope)
+    return metadata ? normalizeLLMSettings(metadata.llm) : DEFAULT_LLM_SETTINGS
+  }
+
+  // 服务端的 API Key 只发给服务端配置的地址，也不替用户请求设置中填写的任意地址（SSRF）
+  const providerFor = (id: LLMProviderId, settings: LLMSettings) => id === 'openai'
+    ? createOpenAICompatibleProvider({
+        apiKey: apiKeys.openai,
+        baseUrl: openaiBaseUrl,
+        model: settings.model || undefined,
+        embeddingModel: settings.embeddingModel || undefined
+      })
+    : createLLMProvider(id, settings, apiKeys)
+
+  return {
+    async authenticate(token) {
+      const { data, error } = await clientFor(token).auth.getUser(token)
+      if (error || !data.user) return null
+      return { id: data.user.id }
+    },
+
+    async getProvider(user, scope) {
+      const settings = await loadSettings(user.id, scope)
+      return providerFor(settings.provider, settings)
+    },
+
+    // 工作区的提示词设置（projects.metadata.prompt），与编辑器中使用的相同
+    async getPromptSettings(user, scope) {
+      const metadata = await loadMetadata(user.id, scope)
+      return metadata ? normalizeProjectPromptSettings(metadata.prompt) : DEFAULT_PROJECT_PROMPT_SETTINGS
+    },
+
+    // 与前端 retrievalService.retrieveOnline 相同：文档分块和标准信息各取若干候选，合并后重排取前 topK 条
+    async retrieve(query, user, scope) {
+      const { token, projectId } = scope
+      const settings = await loadSettings(user.id, scope)
+      const embeddingProvider = providerFor(settings.embeddingProvider, settings)
+      const [embedding] = await embeddingProvider.embed([query])
+      const client = clientFor(token)
+      const candidateCount = topK * RERANK_CANDIDATE_FACTOR
+
+      const [documents, standardInfo] = await Promise.all([
+        client.rpc('search_similar_documents', {
+          query_embedding: embedding,
+          query_user_id: user.id,
+          match_limit: candidateCount,
+          query_project_id: projectId,
+          query_embedding_model: embeddingProvider.embeddingModel
+        }),
+        client.rpc('search_similar_standard_info', {
+          query_embedding: embedding,
+          query_user_id: user.id,
+          match_limit: candidateCount,
+          query_embedding_model: embeddingProvider.embeddingModel
+        })
+      ])
+      if (documents.error) throw documents.error
+      if (standardInfo.error) throw standardInfo.error
+
+      const chunks: RerankCandidate[] = [
+        ...(documents.data ?? []).map((chunk: { id: string; document_id: string; content: string; document_title: string; similarity: number }) => ({
+          id: chunk.id,
+          source: 'document' as const,
+          content: chunk.content,
+          label: chunk.document_title,
+          score: chunk.similarity,
+          documentId: chunk.document_id
+        })),
+        ...(standardInfo.data ?? []).map((info: { id: string; content: string; category: string; similarity: number }) => ({
+          id: info.id,
+          source: 'standard_info' as const,
+          // 条目可能是富文本，与前端一样去掉标签后再放入提示词
+          content: toModelText(info.content),
+          label: info.category,
+          score: info.similarity
+        }))
+      ]
+
+      return rerank(query, chunks, { topK })
+    },
+
+    rateLimiter: new RateLimiter(rateLimit)
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { packPrompt, splitSentences, truncateToHead, truncateToTail } from '../contextPacker';
+import { DEFAULT_PROJECT_PROMPT_SETTINGS, PRESET_TEMPLATES } from '../promptTemplates';
+import type { RetrievedChunk } from '../../src/services/retrievalService';
+
+const input = (sentence: string, chunks: RetrievedChunk[]) => ({
+  template: PRESET_TEMPLATES[0],
+  sentence,
+  suffix: '',
+  title: '',
+  chunks,
+  settings: DEFAULT_PROJECT_PROMPT_SETTINGS,
+});
+
+describe('contextPacker', () => {
+  it('应该按中英文句末标点拆分句子', () => {
+    expect(splitSentences('夏天到了。新品上市！售价 5.5 元? Yes. 还有')).toEqual(['夏天到了。', '新品上市！', '售价 5.5 元? ', 'Yes. ', '还有']);
+    expect(splitSentences('他说：“好。”然后')).toEqual(['他说：“好。”', '然后']);
+  });
+
+  it('截断时应该停在句子边界', () => {
+    const text = '第一句话。第二句话。第三句话。';
+
+    expect(truncateToTail(text, 12)).toBe('第二句话。第三句话。');
+    expect(truncateToHead(text, 12)).toBe('第一句话。第二句话。');
+    // 单句放不下时保留结尾
+    expect(truncateToTail('一二三四五六七八九十', 3)).toBe('八九十');
+  });
+
+  it('窗口足够时应该完整保留全部内容', () => {
+    const chunks: RetrievedChunk[] = [
+      { id: 'c1', source: 'document', content: '采用轻质面料。', label: '夏季文案', score: 0.9 },
+      { id: 's1', source: 'standard_info', content: '简约，不简单。', label: '品牌', score: 0.8 },
+    ];
+
+    const { prompt, usage } = packPrompt(input('夏天到了', chunks), { contextWindow: 4096 });
+
+    expect(prompt).toContain('[1] （夏季文案）采用轻质面料。\n[2] （品牌）简约，不简单。');
+    expect(usage.prefix.truncated).toBe(false);
+    expect(usage.documentChunks).toMatchObject({ included: 1, dropped: 0, truncated: false });
+    expect(usage.promptTokens).toBeLessThanOrEqual(4096 - usage.reservedForOutput);
+  });
+
+  it('超出窗口时应该按预算截断前文和参考资料', () => {
+    const sentence = '这是前文的一句话。'.repeat(100);
+    const chunks: RetrievedChunk[] = Array.from({ length: 10 }, (_, i) => ({
+      id: `c${i}`,
+      source: i % 2 ? 'standard_info' as const : 'document' as const,
+      content: '参考资料里的一句话。'.repeat(20),
+      label: '资料',
+      score: 1 - i / 10,
+    }));
+
+    const { prompt, usage } = packPrompt(input(sentence, chunks), { contextWindow: 1000, maxOutputTokens: 200 });
+
+    expect(usage.promptTokens).toBeLessThanOrEqual(800);
+    expect(usage.prefix.truncated).toBe(true);
+    expect(usage.prefix.tokens).toBeLessThanOrEqual(usage.prefix.budget);
+    expect(usage.documentChunks.dropped + usage.standardInfo.dropped).toBeGreaterThan(0);
+    // 前文保留结尾的完整句子
+    expect(prompt).toContain('这是前文的一句话。"');
+    expect(prompt).not.toMatch(/"[^这]*前文的一句话/);
+  });
+});
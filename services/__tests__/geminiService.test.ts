@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Editor } from '@tiptap/core';
+import StarterKit from '@tiptap/starter-kit';
+import { CompletionPlugin, completionPluginKey } from '../../tiptap/completion';
+import { DEFAULT_COMPLETION_POLICY } from '../../tiptap/completionPolicy';
+import { getCompletionStream } from '../geminiService';
+import { DEFAULT_PROJECT_PROMPT_SETTINGS } from '../promptTemplates';
+import { aiCircuitBreaker } from '../../src/services/resilience';
+
+const { stream } = vi.hoisted(() => ({
+  stream: vi.fn(async function* (_prompt: string): AsyncGenerator<string> {
+    yield '全新上市';
+  }),
+}));
+
+// 不模拟 getCompletionStream，只替换它背后的模型和检索
+vi.mock('../../src/services/llmService', () => ({
+  llmService: {
+    getProvider: () => ({ available: true, contextWindow: 8000, countTokens: (text: string) => text.length, stream }),
+  },
+}));
+vi.mock('../../src/services/offlineService', () => ({ offlineService: { isOnline: () => true } }));
+vi.mock('../../src/services/offlineModelService', () => ({ offlineModelService: {} }));
+vi.mock('../../src/services/retrievalService', () => ({ retrievalService: { retrieve: vi.fn(async () => []) } }));
+
+const collect = async (generator: AsyncGenerator<string>) => {
+  let text = '';
+  for await (const chunk of generator) text += chunk;
+  return text;
+};
+
+describe('getCompletionStream', () => {
+  let editor: Editor | undefined;
+
+  beforeEach(() => {
+    stream.mockClear();
+  });
+
+  afterEach(() => {
+    aiCircuitBreaker.reset();
+    editor?.destroy();
+    document.body.innerHTML = '';
+  });
+
+  it('不再限制最少字数，由触发策略决定是否请求', async () => {
+    expect(await collect(getCompletionStream('新品', true))).toBe('全新上市');
+    expect(await collect(getCompletionStream('  ', true))).toBe('');
+    expect(stream).toHaveBeenCalledTimes(1);
+  });
+
+  it('调用方读到第一段就停止时也记为成功，之前的失败不再累计', async () => {
+    stream.mockImplementationOnce(async function* () {
+      yield '夏季新品';
+      yield '全网首发';
+    });
+    aiCircuitBreaker.recordFailure();
+    aiCircuitBreaker.recordFailure();
+
+    for await (const chunk of getCompletionStream('新品', true)) {
+      expect(chunk).toBe('夏季新品');
+      break;
+    }
+    aiCircuitBreaker.recordFailure();
+
+    expect(aiCircuitBreaker.state).toBe('closed');
+  });
+
+  it('模型输出禁用词时在禁用词之前截断，被拆开的禁用词也不会输出一部分', async () => {
+    stream.mockImplementationOnce(async function* () {
+      yield '夏季新品';
+      yield '全网第';
+      yield '一，欢迎选购';
+    });
+    const settings = { ...DEFAULT_PROJECT_PROMPT_SETTINGS, bannedWords: ['第一'] };
+    const chunks: string[] = [];
+    for await (const chunk of getCompletionStream('新品', true, '', undefined, { settings })) chunks.push(chunk);
+
+    expect(chunks.join('')).toBe('夏季新品全网');
+    expect(chunks.some(chunk => chunk.includes('第'))).toBe(false);
+  });
+
+  it('禁用词不区分大小写，没有禁用词时完整输出', async () => {
+    stream.mockImplementationOnce(async function* () {
+      yield 'The Best 面料';
+    });
+    const settings = { ...DEFAULT_PROJECT_PROMPT_SETTINGS, bannedWords: ['best'] };
+    expect(await collect(getCompletionStream('新品', true, '', undefined, { settings }))).toBe('The ');
+
+    stream.mockImplementationOnce(async function* () {
+      yield '轻薄';
+      yield '透气';
+    });
+    expect(await collect(getCompletionStream('新品', true, '', undefined, { settings }))).toBe('轻薄透气');
+  });
+
+  it('最少字数设为 2 时，输入两个字就显示 AI 建议', async () => {
+    const element = document.createElement('div');
+    document.body.append(element);
+    editor = new Editor({
+      element,
+      extensions: [
+        StarterKit,
+        CompletionPlugin.configure({
+          getRewriteMode: () => true,
+          getPolicy: () => ({ ...DEFAULT_COMPLETION_POLICY, debounceMs: 0, minChars: 2 }),
+        }),
+      ],
+      content: '<p></p>',
+    });
+
+    editor.chain().focus('end').insertContent('新品').run();
+
+    await vi.waitFor(() => expect(completionPluginKey.getState(editor!.state)?.suggestion).toBe('全新上市'));
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildTemplatePrompt,
+  findBannedWords,
+  findTemplate,
+  getAvailableTemplates,
+  normalizeProjectPromptSettings,
+  parseBannedWords,
+  renderTemplate,
+  DEFAULT_PROJECT_PROMPT_SETTINGS,
+  PRESET_TEMPLATES,
+} from '../promptTemplates';
+import type { RetrievedChunk } from '../../src/services/retrievalService';
+
+const chunks: RetrievedChunk[] = [
+  { id: 'c1', source: 'document', content: '采用轻质面料。', label: '夏季文案', score: 0.9 },
+  { id: 's1', source: 'standard_info', content: '简约，不简单。', label: '品牌', score: 0.8 },
+];
+
+describe('promptTemplates', () => {
+  it('应该替换模板变量并保留未知变量', () => {
+    expect(renderTemplate('「{{ title }}」{{sentence}}{{unknown}}', { title: '夏季新品', sentence: '清凉一夏' }))
+      .toBe('「夏季新品」清凉一夏{{unknown}}');
+  });
+
+  it('应该把参考资料、品牌语气、禁用词和光标后的内容写入提示词', () => {
+    const weibo = PRESET_TEMPLATES.find(template => template.id === 'weibo-140')!;
+    const prompt = buildTemplatePrompt({
+      template: weibo,
+      sentence: '夏天到了',
+      suffix: '快来选购吧',
+      title: '夏季新品',
+      chunks,
+      settings: { brandVoice: '轻松活泼', bannedWords: ['最便宜', '第一'], templates: [] },
+    });
+
+    expect(prompt).toContain('品牌语气: 轻松活泼');
+    expect(prompt).toContain('禁止使用以下词语: 最便宜、第一');
+    expect(prompt).toContain('光标后已有内容: "快来选购吧"');
+    expect(prompt).toContain('为「夏季新品」撰写一条微博');
+    expect(prompt).toContain('[1] （夏季文案）采用轻质面料。\n[2] （品牌）简约，不简单。');
+    expect(prompt).not.toMatch(/\{\{\w+\}\}/);
+  });
+
+  it('没有项目设置时默认模板只包含任务本身', () => {
+    const prompt = buildTemplatePrompt({
+      template: PRESET_TEMPLATES[0],
+      sentence: '夏天到了',
+      suffix: '',
+      title: '',
+      chunks: [],
+      settings: DEFAULT_PROJECT_PROMPT_SETTINGS,
+    });
+
+    expect(prompt.startsWith('根据以下参考资料，续写用户的句子。')).toBe(true);
+    expect(prompt).toContain('参考资料:\n（无）');
+  });
+
+  it('应该补齐项目设置、拆分禁用词并在找不到模板时使用默认模板', () => {
+    const settings = normalizeProjectPromptSettings({
+      brandVoice: '专业',
+      bannedWords: ['最好', ' 第一 ', '最好'],
+      templates: [{ id: 'custom-1', name: '新品公告', body: '{{sentence}}' }, { id: 'broken' }],
+    });
+
+    expect(settings.bannedWords).toEqual(['最好', '第一']);
+    expect(getAvailableTemplates(settings).map(template => template.id)).toEqual([...PRESET_TEMPLATES.map(template => template.id), 'custom-1']);
+    expect(findTemplate(getAvailableTemplates(settings), 'missing')).toBe(PRESET_TEMPLATES[0]);
+    expect(parseBannedWords('绝对，第一、\n国家级')).toEqual(['绝对', '第一', '国家级']);
+    expect(findBannedWords('全网第一的面料', settings.bannedWords)).toEqual(['第一']);
+  });
+});
@@ -0,0 +1,191 @@
+import { estimateTokens } from '../src/services/llmService';
+import { splitSentences } from '../src/services/documentChunker';
+import type { RetrievedChunk } from '../src/services/retrievalService';
+import { buildTemplatePrompt, type TemplatePromptInput } from './promptTemplates';
+
+// 按模型的上下文窗口分配提示词各部分的 token 预算：
+//   模板说明（模板正文、品牌语气、禁用词、光标后内容）必须完整保留；
+//   剩余部分按比例分给光标前的文档内容、检索到的文档分块和标准信息，某一部分用不完的预算再分给其他部分。
+// 超出预算时在句子边界截断：文档内容保留结尾，参考资料保留开头。
+
+export interface ContextBudgetOptions {
+  // 模型的上下文窗口，调用方可以传入更小的值以控制成本
+  contextWindow: number;
+  // 为模型输出预留的 token
+  maxOutputTokens?: number;
+  countTokens?: (text: string) => number;
+}
+
+export interface ContextSectionUsage {
+  tokens: number;
+  budget: number;
+  truncated: boolean;
+}
+
+export interface ChunkSectionUsage extends ContextSectionUsage {
+  included: number;
+  dropped: number;
+}
+
+// 提示词中各部分实际占用的 token，随 CompletionResponse.usage 返回
+export interface ContextUsage {
+  contextWindow: number;
+  reservedForOutput: number;
+  instructions: number;
+  prefix: ContextSectionUsage;
+  documentChunks: ChunkSectionUsage;
+  standardInfo: ChunkSectionUsage;
+  promptTokens: number;
+}
+
+export interface PackedPrompt {
+  prompt: string;
+  usage: ContextUsage;
+}
+
+export const DEFAULT_MAX_OUTPUT_TOKENS = 512;
+
+// 补全对延迟敏感，模型窗口更大时也只使用这么多
+export const COMPLETION_CONTEXT_LIMIT = 4096;
+
+// 可用预算的分配比例
+export const CONTEXT_SHARES = {
+  prefix: 0.5,
+  documentChunks: 0.3,
+  standardInfo: 0.2,
+};
+
+// 参考资料截断后剩余太短时直接丢弃，半句话的参考资料没有意义
+const MIN_CHUNK_TOKENS = 16;
+
+export { splitSentences };
+
+// 保留结尾的若干整句；最后一句也放不下时保留它的结尾部分
+export const truncateToTail = (text: string, budget: number, countTokens = estimateTokens) => {
+  if (countTokens(text) <= budget) return text;
+
+  let result = '';
+  const sentences = splitSentences(text);
+  for (let i = sentences.length - 1; i >= 0; i--) {
+    const next = sentences[i] + result;
+    if (countTokens(next) > budget) break;
+    result = next;
+  }
+  if (result) return result;
+
+  let chars = text;
+  while (chars && countTokens(chars) > budget) {
+    chars = chars.slice(Math.max(1, Math.floor(chars.length * 0.1)));
+  }
+  return chars;
+};
+
+// 保留开头的若干整句，放不下第一句时返回空字符串
+export const truncateToHead = (text: string, budget: number, countTokens = estimateTokens) => {
+  if (countTokens(text) <= budget) return text;
+
+  let result = '';
+  for (const sentence of splitSentences(text)) {
+    const next = result + sentence;
+    if (countTokens(next) > budget) break;
+    result = next;
+  }
+  return result;
+};
+
+const chunkPrefix = (index: number, chunk: RetrievedChunk) => `[${index}] ${chunk.label ? `（${chunk.label}）` : ''}`;
+
+// 按相关度顺序放入参考资料，放不下的截断或丢弃；编号和标签的开销也计入预算
+const packChunks = (chunks: RetrievedChunk[], budget: number, countTokens: (text: string) => number) => {
+  const packed: RetrievedChunk[] = [];
+  let tokens = 0;
+  let truncated = false;
+
+  for (const chunk of chunks) {
+    const line = (content: string) => countTokens(`${chunkPrefix(packed.length + 1, chunk)}${content}\n`);
+    const remaining = budget - tokens;
+    if (line(chunk.content) <= remaining) {
+      tokens += line(chunk.content);
+      packed.push(chunk);
+      continue;
+    }
+
+    truncated = true;
+    // 分开计算编号和正文时取整会有误差，多留 1 个 token
+    const contentBudget = remaining - line('') - 1;
+    if (contentBudget < MIN_CHUNK_TOKENS) continue;
+    const content = truncateToHead(chunk.content, contentBudget, countTokens);
+    if (!content.trim()) continue;
+
+    tokens += line(content);
+    packed.push({ ...chunk, content });
+  }
+
+  return { chunks: packed, tokens, truncated };
+};
+
+export const packPrompt = (
+  input: TemplatePromptInput,
+  { contextWindow, maxOutputTokens = DEFAULT_MAX_OUTPUT_TOKENS, countTokens = estimateTokens }: ContextBudgetOptions
+): PackedPrompt => {
+  const documentChunks = input.chunks.filter(chunk => chunk.source === 'document');
+  const standardInfo = input.chunks.filter(chunk => chunk.source === 'standard_info');
+
+  const instructions = countTokens(buildTemplatePrompt({ ...input, sentence: '', chunks: [] }));
+  const available = Math.max(0, contextWindow - maxOutputTokens - instructions);
+
+  // 先按比例分配，再把用不完的预算依次补给文档内容、文档分块和标准信息
+  const chunksCost = (chunks: RetrievedChunk[]) =>
+    chunks.reduce((sum, chunk, index) => sum + countTokens(`${chunkPrefix(index + 1, chunk)}${chunk.content}\n`), 0);
+  const needs = {
+    prefix: countTokens(input.sentence),
+    documentChunks: chunksCost(documentChunks),
+    standardInfo: chunksCost(standardInfo),
+  };
+  const sections = ['prefix', 'documentChunks', 'standardInfo'] as const;
+  const budgets = { prefix: 0, documentChunks: 0, standardInfo: 0 };
+  for (const section of sections) {
+    budgets[section] = Math.min(needs[section], Math.floor(available * CONTEXT_SHARES[section]));
+  }
+  let leftover = available - sections.reduce((sum, section) => sum + budgets[section], 0);
+  for (const section of sections) {
+    const extra = Math.min(leftover, needs[section] - budgets[section]);
+    budgets[section] += extra;
+    leftover -= extra;
+  }
+
+  const sentence = truncateToTail(input.sentence, budgets.prefix, countTokens);
+  const packedDocuments = packChunks(documentChunks, budgets.documentChunks, countTokens);
+  const packedStandardInfo = packChunks(standardInfo, budgets.standardInfo, countTokens);
+
+  // 保持检索结果原来的相关度顺序
+  const packedById = new Map([...packedDocuments.chunks, ...packedStandardInfo.chunks].map(chunk => [chunk.id, chunk]));
+  const chunks = input.chunks.flatMap(chunk => packedById.get(chunk.id) ?? []);
+
+  const prompt = buildTemplatePrompt({ ...input, sentence, chunks });
+
+  return {
+    prompt,
+    usage: {
+      contextWindow,
+      reservedForOutput: maxOutputTokens,
+      instructions,
+      prefix: { tokens: countTokens(sentence), budget: budgets.prefix, truncated: sentence !== input.sentence },
+      documentChunks: {
+        tokens: packedDocuments.tokens,
+        budget: budgets.documentChunks,
+        truncated: packedDocuments.truncated,
+        included: packedDocuments.chunks.length,
+        dropped: documentChunks.length - packedDocuments.chunks.length,
+      },
+      standardInfo: {
+        tokens: packedStandardInfo.tokens,
+        budget: budgets.standardInfo,
+        truncated: packedStandardInfo.truncated,
+        included: packedStandardInfo.chunks.length,
+        dropped: standardInfo.length - packedStandardInfo.chunks.length,
+      },
+      promptTokens: countTokens(prompt),
+    },
+  };
+};
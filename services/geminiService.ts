@@ -1,80 +1,116 @@
+import { llmService } from "../src/services/llmService";
+import { aiCircuitBreaker, AIUnavailableError, isRetryableError, withStreamRetry } from "../src/services/resilience";
+import { offlineService } from "../src/services/offlineService";
+import { offlineModelService } from "../src/services/offlineModelService";
+import { retrievalService, type RetrievalScope } from "../src/services/retrievalService";
+import { COMPLETION_CONTEXT_LIMIT, packPrompt } from "./contextPacker";
+import {
+    cutAtBannedWord,
+    findBannedWords,
+    withoutBannedWords,
+    DEFAULT_PROJECT_PROMPT_SETTINGS,
+    PRESET_TEMPLATES,
+    type ProjectPromptSettings,
+    type PromptTemplate,
+} from "./promptTemplates";
 
-import { GoogleGenAI } from "@google/genai";
+export interface CompletionPromptOptions {
+    // 检索参考资料的范围，为空时不检索
+    scope?: RetrievalScope | null;
+    // 改写模式使用的模板，默认为自由续写
+    template?: PromptTemplate;
+    // 当前文档标题，对应模板中的 {{title}}
+    title?: string;
+    // 项目的品牌语气和禁用词
+    settings?: ProjectPromptSettings;
+}
 
-let ai: GoogleGenAI | null = null;
+// 熔断记录：收到第一段输出即记为成功，调用方可能在截断或达到长度上限后提前结束读取，不能等流读完再记录。
+// 服务不可用类的错误记为失败；被中止、其他错误或未收到输出就提前结束时不记录结果，只让出 half-open 的试探名额
+async function* withCircuitBreaker(stream: AsyncGenerator<string>, signal?: AbortSignal): AsyncGenerator<string> {
+    if (!aiCircuitBreaker.tryRequest()) throw new AIUnavailableError();
 
-try {
-  // Always use process.env.API_KEY as per guidelines.
-  // The app should handle cases where this might not be set.
-  if (process.env.API_KEY) {
-    ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  } else {
-    console.warn("Gemini API key not found in process.env.API_KEY. AI features will be disabled.");
-  }
-} catch (e) {
-  console.error("Failed to initialize GoogleGenAI:", e);
+    let recorded = false;
+    try {
+        for await (const chunk of stream) {
+            if (!recorded) {
+                recorded = true;
+                aiCircuitBreaker.recordSuccess();
+            }
+            yield chunk;
+        }
+        if (!recorded) {
+            recorded = true;
+            aiCircuitBreaker.recordSuccess();
+        }
+    } catch (e) {
+        if (!signal?.aborted && isRetryableError(e)) {
+            recorded = true;
+            aiCircuitBreaker.recordFailure();
+        }
+        throw e;
+    } finally {
+        if (!recorded) aiCircuitBreaker.release();
+    }
 }
 
+// 此函数在前端完成检索和生成。
+// 在实际应用中，这将是一个无服务器函数。
+async function* getSemanticSuggestion(prompt: string, rewrite: boolean, suffix = '', signal?: AbortSignal, options: CompletionPromptOptions = {}): AsyncGenerator<string> {
+    const { scope, template = PRESET_TEMPLATES[0], title = '', settings = DEFAULT_PROJECT_PROMPT_SETTINGS } = options;
 
-// 模拟用于语义搜索的RAG数据
-const MOCK_DOCUMENT_CHUNKS = [
-    "我们的夏季系列旨在挣脱束缚，拥抱阳光。",
-    "采用轻质面料和透气设计，让您在炎炎夏日保持凉爽与时尚。",
-    "GadgetPro X 专为追求极致的专业人士打造。",
-    "其直观的界面和强大的处理器可简化您的工作流程。",
-    "简约，不简单，是我们的核心设计理念。",
-];
+    // 阶段1: 检索当前项目的文档分块和用户的标准信息
+    // 在线时是 pgvector 查询，离线时使用本地索引；没有登录用户时不检索。
+    const chunks = scope ? await retrievalService.retrieve(prompt, scope) : [];
+    if (signal?.aborted) return;
 
-// 此函数模拟整个后端流程以进行性能优化。
-// 在实际应用中，这将是一个无服务器函数。
-async function* getSemanticSuggestion(prompt: string, rewrite: boolean): AsyncGenerator<string> {
-    // 阶段1: 快速向量搜索 (模拟)
-    // 从模拟知识库中找到最相关的文本块。
-    // 这部分在后端会是一个 pgvector 查询，速度非常快。
-    const relevantChunk = MOCK_DOCUMENT_CHUNKS.find(chunk =>
-        prompt.toLowerCase().includes(chunk.slice(0, 5).toLowerCase()) 
-    ) || MOCK_DOCUMENT_CHUNKS[0];
-    
     if (!rewrite) {
-        // 如果关闭了改写模式，直接返回找到的原始文本块。
-        yield relevantChunk;
+        // 如果关闭了改写模式，直接返回最相关且不含禁用词的原始文本块。
+        const relevantChunk = chunks.find(chunk => findBannedWords(chunk.content, settings.bannedWords).length === 0);
+        if (relevantChunk) yield relevantChunk.content;
         return;
     }
 
-    if (!ai) {
-        yield " (AI 服务未配置)";
+    // 模型按用户的模型设置选择（Gemini、OpenAI 兼容接口或本地模拟）
+    // 离线或模型服务连续失败时，改用以用户自己的文档训练的本地 n-gram 模型续写
+    if (!offlineService.isOnline() || !aiCircuitBreaker.canRequest()) {
+        const continuation = scope ? await offlineModelService.complete(prompt, scope) : '';
+        if (signal?.aborted) return;
+        if (!continuation) throw new AIUnavailableError();
+        const allowed = cutAtBannedWord(continuation, settings.bannedWords);
+        if (allowed) yield allowed;
         return;
     }
 
+    const provider = llmService.getProvider();
+    if (!provider.available) {
+        throw new AIUnavailableError('AI 服务未配置');
+    }
+
     // 阶段 2: 使用 LLM 异步生成
     // 这部分可能较慢, 因此我们使用流式响应。
-    const fullPrompt = `根据以下上下文，续写用户的句子。请直接续写，不要重复用户已输入的内容。
-    上下文: "${relevantChunk}"
-    用户的句子: "${prompt}"
-    
-    续写:`;
-    
-    try {
-        const responseStream = await ai.models.generateContentStream({
-            model: "gemini-2.5-flash",
-            contents: fullPrompt,
-        });
+    // 按模型窗口裁剪前文和参考资料，避免长文档超出上下文或拖慢响应
+    const { prompt: fullPrompt } = packPrompt(
+        { template, sentence: prompt, suffix, title, chunks, settings },
+        { contextWindow: Math.min(provider.contextWindow, COMPLETION_CONTEXT_LIMIT), countTokens: provider.countTokens },
+    );
 
-        for await (const chunk of responseStream) {
-            yield chunk.text;
-        }
+    // 出错时抛出，由调用方处理，不能把错误信息当作建议插入文档
+    try {
+        const stream = withCircuitBreaker(withStreamRetry(() => provider.stream(fullPrompt, { signal }), { signal }), signal);
+        yield* withoutBannedWords(stream, settings.bannedWords);
     } catch (e) {
-        console.error(e);
-        yield " [AI 生成时出错]";
+        if (signal?.aborted) return;
+        throw e;
     }
 }
 
 
-export async function* getCompletionStream(currentText: string, rewriteMode: boolean): AsyncGenerator<string> {
+export async function* getCompletionStream(currentText: string, rewriteMode: boolean, suffix = '', signal?: AbortSignal, options: CompletionPromptOptions = {}): AsyncGenerator<string> {
     // 在这个简化的前端版本中, 我们只调用语义建议。
-    // 逐字补全建议在 Editor 组件中同步处理。
+    // 逐字补全建议在 Editor 组件中同步处理；是否触发由补全插件按用户的触发策略（最少字数等）判断。
     const lastSentence = currentText.trim();
-    if (lastSentence.length < 5) return;
+    if (!lastSentence && !suffix.trim()) return;
 
-    yield* getSemanticSuggestion(lastSentence, rewriteMode);
-}
\ No newline at end of file
+    yield* getSemanticSuggestion(lastSentence, rewriteMode, suffix, signal, options);
+}
@@ -0,0 +1,186 @@
+import type { RetrievedChunk } from '../src/services/retrievalService';
+
+// 改写模式的提示词模板。body 中可以使用以下变量：
+//   {{context}}  检索到的参考资料，按相关度编号
+//   {{sentence}} 光标前用户已输入的内容
+//   {{title}}    当前文档标题
+// 品牌语气、禁用词和光标后的内容由 buildTemplatePrompt 统一附加，模板里不需要重复
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'continue';
+
+export const PRESET_TEMPLATES: PromptTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: '自由续写',
+    body: `根据以下参考资料，续写用户的句子。请直接续写，不要重复用户已输入的内容。
+参考资料:
+{{context}}
+用户的句子: "{{sentence}}"
+
+续写:`,
+  },
+  {
+    id: 'weibo-140',
+    name: '微博 140字',
+    body: `你在为「{{title}}」撰写一条微博。参考以下资料，接着用户已写的内容继续写，整条微博（含已写部分）不超过 140 字，语气轻松、有话题感，可以在结尾加一个话题标签。
+参考资料:
+{{context}}
+已写内容: "{{sentence}}"
+
+续写:`,
+  },
+  {
+    id: 'email-subject',
+    name: '邮件标题',
+    body: `你在为「{{title}}」撰写营销邮件的标题。参考以下资料，补全用户正在写的标题，标题总长度不超过 25 字，突出核心卖点或优惠，不要使用感叹号堆砌。
+参考资料:
+{{context}}
+已写内容: "{{sentence}}"
+
+补全:`,
+  },
+  {
+    id: 'xiaohongshu',
+    name: '小红书种草',
+    body: `你在为「{{title}}」撰写小红书种草笔记。参考以下资料，以真实使用者的口吻接着用户已写的内容继续写，分享具体的使用感受和场景，语气亲切，适当使用 emoji。
+参考资料:
+{{context}}
+已写内容: "{{sentence}}"
+
+续写:`,
+  },
+];
+
+// 项目级的文案风格，保存在 projects.metadata.prompt 中
+export interface ProjectPromptSettings {
+  // 品牌语气说明，例如“专业克制，不使用网络流行语”
+  brandVoice: string;
+  // 生成内容中不允许出现的词语
+  bannedWords: string[];
+  // 项目自定义的模板，显示在预设模板之后
+  templates: PromptTemplate[];
+}
+
+export const DEFAULT_PROJECT_PROMPT_SETTINGS: ProjectPromptSettings = {
+  brandVoice: '',
+  bannedWords: [],
+  templates: [],
+};
+
+const isTemplate = (value: unknown): value is PromptTemplate => {
+  const template = value as Partial<PromptTemplate> | null;
+  return !!template && typeof template.id === 'string' && typeof template.name === 'string' && typeof template.body === 'string';
+};
+
+// 拆分用户输入的禁用词，支持逗号、顿号和换行分隔
+export const parseBannedWords = (text: string) =>
+  Array.from(new Set(text.split(/[,，、\n]/).map(word => word.trim()).filter(Boolean)));
+
+export const normalizeProjectPromptSettings = (value: unknown): ProjectPromptSettings => {
+  const settings = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof ProjectPromptSettings, unknown>>;
+
+  return {
+    brandVoice: typeof settings.brandVoice === 'string' ? settings.brandVoice : DEFAULT_PROJECT_PROMPT_SETTINGS.brandVoice,
+    bannedWords: Array.isArray(settings.bannedWords)
+      ? parseBannedWords(settings.bannedWords.filter(word => typeof word === 'string').join('\n'))
+      : DEFAULT_PROJECT_PROMPT_SETTINGS.bannedWords,
+    templates: Array.isArray(settings.templates) ? settings.templates.filter(isTemplate) : DEFAULT_PROJECT_PROMPT_SETTINGS.templates,
+  };
+};
+
+// 预设模板在前，项目模板在后
+export const getAvailableTemplates = (settings: ProjectPromptSettings) => [...PRESET_TEMPLATES, ...settings.templates];
+
+export const findTemplate = (templates: PromptTemplate[], id: string | undefined) =>
+  templates.find(template => template.id === id) ?? PRESET_TEMPLATES[0];
+
+export const formatContext = (chunks: RetrievedChunk[]) =>
+  chunks.length
+    ? chunks.map((chunk, index) => `[${index + 1}] ${chunk.label ? `（${chunk.label}）` : ''}${chunk.content}`).join('\n')
+    : '（无）';
+
+// 替换模板变量，未知变量保持原样
+export const renderTemplate = (body: string, variables: Record<string, string>) =>
+  body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) => (name in variables ? variables[name] : match));
+
+export interface TemplatePromptInput {
+  template: PromptTemplate;
+  sentence: string;
+  suffix: string;
+  title: string;
+  chunks: RetrievedChunk[];
+  settings: ProjectPromptSettings;
+}
+
+export const buildTemplatePrompt = ({ template, sentence, suffix, title, chunks, settings }: TemplatePromptInput) => {
+  const requirements: string[] = [];
+  if (settings.brandVoice.trim()) {
+    requirements.push(`品牌语气: ${settings.brandVoice.trim()}`);
+  }
+  if (settings.bannedWords.length) {
+    requirements.push(`禁止使用以下词语: ${settings.bannedWords.join('、')}`);
+  }
+  // 光标后还有内容时改为中间补全：让模型只生成插入到光标处的文字，并与后文自然衔接。
+  if (suffix.trim()) {
+    requirements.push(`光标后已有内容: "${suffix}"。只输出插入到光标处的文字，使其与前后文自然衔接，不要重复前文或后文。`);
+  }
+
+  const prompt = renderTemplate(template.body, {
+    context: formatContext(chunks),
+    sentence,
+    title: title || '未命名文档',
+  });
+
+  return requirements.length ? `${requirements.join('\n')}\n\n${prompt}` : prompt;
+};
+
+// 返回文本中出现的禁用词
+export const findBannedWords = (text: string, bannedWords: string[]) =>
+  bannedWords.filter(word => text.toLowerCase().includes(word.toLowerCase()));
+
+// 第一个禁用词在文本中的位置，没有时返回 -1
+export const indexOfBannedWord = (text: string, bannedWords: string[]) => {
+  const lower = text.toLowerCase();
+  return bannedWords.reduce((first, word) => {
+    const index = word ? lower.indexOf(word.toLowerCase()) : -1;
+    return index !== -1 && (first === -1 || index < first) ? index : first;
+  }, -1);
+};
+
+// 提示词只是要求模型避开禁用词，模型仍可能输出：在禁用词之前截断，并结束本次建议。
+// 前端和服务端的 /api/completion 都经过这里过滤
+export const cutAtBannedWord = (text: string, bannedWords: string[]) => {
+  const index = indexOfBannedWord(text, bannedWords);
+  return index === -1 ? text : text.slice(0, index);
+};
+
+// 流式输出时暂留末尾可能是禁用词开头的几个字，确认不构成禁用词后再输出
+export async function* withoutBannedWords(stream: AsyncIterable<string>, bannedWords: string[]): AsyncGenerator<string> {
+  const holdBack = Math.max(0, ...bannedWords.map(word => word.length)) - 1;
+  if (holdBack < 0) {
+    yield* stream;
+    return;
+  }
+
+  let text = '';
+  let emitted = 0;
+  for await (const chunk of stream) {
+    text += chunk;
+    const index = indexOfBannedWord(text, bannedWords);
+    if (index !== -1) {
+      if (index > emitted) yield text.slice(emitted, index);
+      return;
+    }
+    const safe = text.length - holdBack;
+    if (safe > emitted) {
+      yield text.slice(emitted, safe);
+      emitted = safe;
+    }
+  }
+  if (text.length > emitted) yield text.slice(emitted);
+}
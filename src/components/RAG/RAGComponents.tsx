@@ -1,10 +1,12 @@
-import React, { useState } from 'react'
+import React, { useEffect, useState } from 'react'
 import { Button } from '../ui/button'
 import { Input } from '../ui/input'
 import { Card } from '../ui/card'
 import { Alert } from '../ui/alert'
 import { Upload, Search, FileText, Loader2 } from 'lucide-react'
-import { ragService, standardInfoRagService } from '../../services/ragService'
+import { DEFAULT_HYBRID_WEIGHTS, ragService, standardInfoRagService } from '../../services/ragService'
+import { projectService } from '../../services/databaseService'
+import { highlightSnippet } from '../../services/snippetHighlighter'
 import { useAuth } from '../../hooks/useAuth'
 import { supabase } from '../../services/supabaseClient'
 
@@ -20,8 +22,24 @@ interface SearchResult {
   document_title?: string
   project_name?: string
   category?: string
+  // 混合检索时的分项得分，similarity 为加权后的综合得分
+  vector_score?: number
+  text_score?: number
 }
 
+type SearchType = 'documents' | 'hybrid' | 'standard_info'
+
+// 匹配查询词的部分加粗显示
+const HighlightedSnippet: React.FC<{ content: string; query: string }> = ({ content, query }) => (
+  <p className="text-sm text-gray-700">
+    {highlightSnippet(content, query).map((segment, index) =>
+      segment.highlighted
+        ? <mark key={index} className="bg-yellow-100 text-inherit rounded-sm px-0.5">{segment.text}</mark>
+        : <React.Fragment key={index}>{segment.text}</React.Fragment>
+    )}
+  </p>
+)
+
 export const DocumentUpload: React.FC<DocumentUploadProps> = ({ projectId, onUploadComplete }) => {
   const { user } = useAuth()
   const [file, setFile] = useState<File | null>(null)
@@ -150,7 +168,20 @@ export const DocumentSearch: React.FC<DocumentSearchProps> = ({ onSearchResults
   const [searching, setSearching] = useState(false)
   const [results, setResults] = useState<SearchResult[]>([])
   const [error, setError] = useState<string | null>(null)
-  const [searchType, setSearchType] = useState<'documents' | 'standard_info'>('documents')
+  const [searchType, setSearchType] = useState<SearchType>('documents')
+  // 混合检索中向量相似度的权重，全文检索的权重为 1 - vectorWeight
+  const [vectorWeight, setVectorWeight] = useState(DEFAULT_HYBRID_WEIGHTS.vectorWeight)
+  const [projectId, setProjectId] = useState<string>('')
+  const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([])
+  // 高亮使用发起搜索时的查询词，而不是输入框中正在编辑的内容
+  const [searchedQuery, setSearchedQuery] = useState('')
+
+  useEffect(() => {
+    if (!user) return
+    projectService.getUserProjects(user.id)
+      .then(data => setProjects(data || []))
+      .catch(err => console.error('加载项目失败:', err))
+  }, [user])
 
   const handleSearch = async () => {
     if (!query.trim() || !user) return
@@ -163,7 +194,7 @@ export const DocumentSearch: React.FC<DocumentSearchProps> = ({ onSearchResults
 
       if (searchType === 'documents') {
         // 搜索文档
-        const docResults = await ragService.searchSimilarDocuments(query, user.id)
+        const docResults = await ragService.searchSimilarDocuments(query, user.id, 5, 0.7, projectId || null)
         searchResults = docResults.map((result: any) => ({
           id: result.id,
           content: result.content,
@@ -171,6 +202,22 @@ export const DocumentSearch: React.FC<DocumentSearchProps> = ({ onSearchResults
           document_title: result.document_title,
           project_name: result.project_name
         }))
+      } else if (searchType === 'hybrid') {
+        // 混合检索文档
+        const hybridResults = await ragService.hybridSearch(query, user.id, {
+          vectorWeight,
+          textWeight: 1 - vectorWeight,
+          projectId: projectId || null
+        })
+        searchResults = hybridResults.map(result => ({
+          id: result.id,
+          content: result.content,
+          similarity: result.combined_score,
+          vector_score: result.vector_score,
+          text_score: result.text_score,
+          document_title: result.document_title,
+          project_name: result.project_name
+        }))
       } else {
         // 搜索标准信息
         const standardResults = await standardInfoRagService.searchSimilarStandardInfo(query, user.id)
@@ -184,6 +231,7 @@ export const DocumentSearch: React.FC<DocumentSearchProps> = ({ onSearchResults
       }
 
       setResults(searchResults)
+      setSearchedQuery(query)
       onSearchResults?.(searchResults)
     } catch (err) {
       setError(err instanceof Error ? err.message : '搜索失败')
@@ -203,7 +251,7 @@ export const DocumentSearch: React.FC<DocumentSearchProps> = ({ onSearchResults
       <div className="flex space-x-2">
         <Input
           type="text"
-          placeholder={searchType === 'documents' ? '搜索文档内容...' : '搜索标准信息...'}
+          placeholder={searchType === 'standard_info' ? '搜索标准信息...' : '搜索文档内容...'}
           value={query}
           onChange={(e) => setQuery(e.target.value)}
           onKeyPress={handleKeyPress}
@@ -211,10 +259,11 @@ export const DocumentSearch: React.FC<DocumentSearchProps> = ({ onSearchResults
         />
         <select
           value={searchType}
-          onChange={(e) => setSearchType(e.target.value as 'documents' | 'standard_info')}
+          onChange={(e) => setSearchType(e.target.value as SearchType)}
           className="px-3 py-2 border rounded-md"
         >
           <option value="documents">文档</option>
+          <option value="hybrid">文档（混合检索）</option>
           <option value="standard_info">标准信息</option>
         </select>
         <Button
@@ -231,6 +280,35 @@ export const DocumentSearch: React.FC<DocumentSearchProps> = ({ onSearchResults
         </Button>
       </div>
 
+      {searchType !== 'standard_info' && (
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-3 py-1.5 border rounded-md"
+          >
+            <option value="">全部项目</option>
+            {projects.map(project => (
+              <option key={project.id} value={project.id}>{project.name}</option>
+            ))}
+          </select>
+          {searchType === 'hybrid' && (
+            <label className="flex items-center gap-2">
+              <span>语义 {Math.round(vectorWeight * 100)}%</span>
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={vectorWeight}
+                onChange={(e) => setVectorWeight(Number(e.target.value))}
+              />
+              <span>关键词 {Math.round((1 - vectorWeight) * 100)}%</span>
+            </label>
+          )}
+        </div>
+      )}
+
       {error && (
         <Alert className="border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950">
           <div className="text-sm">{error}</div>
@@ -250,7 +328,9 @@ export const DocumentSearch: React.FC<DocumentSearchProps> = ({ onSearchResults
                     {result.document_title || '未命名文档'}
                   </h4>
                   <span className="text-xs text-gray-500">
-                    相似度: {(result.similarity * 100).toFixed(1)}%
+                    {result.vector_score !== undefined
+                      ? `综合得分: ${(result.similarity * 100).toFixed(1)}%（语义 ${(result.vector_score * 100).toFixed(1)}%，关键词 ${((result.text_score ?? 0) * 100).toFixed(1)}%）`
+                      : `相似度: ${(result.similarity * 100).toFixed(1)}%`}
                   </span>
                 </div>
                 {result.project_name && (
@@ -259,9 +339,7 @@ export const DocumentSearch: React.FC<DocumentSearchProps> = ({ onSearchResults
                 {result.category && (
                   <p className="text-xs text-gray-600">分类: {result.category}</p>
                 )}
-                <p className="text-sm text-gray-700 line-clamp-3">
-                  {result.content}
-                </p>
+                <HighlightedSnippet content={result.content} query={searchedQuery} />
               </div>
             </Card>
           ))}
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react'
+import { aiCircuitBreaker } from '../services/resilience'
+import { llmService } from '../services/llmService'
+
+export type AIStatus = 'available' | 'unavailable' | 'unconfigured'
+
+const subscribe = (listener: () => void) => aiCircuitBreaker.subscribe(listener)
+// open 和 half-open 对界面来说都是不可用
+const getSnapshot = () => aiCircuitBreaker.state === 'closed'
+
+// 模型服务的状态：当前模型缺少 API Key 时为 unconfigured，连续失败熔断后为 unavailable，直到试探请求成功
+export function useAIStatus(): AIStatus {
+  const closed = useSyncExternalStore(subscribe, getSnapshot)
+  if (!llmService.getProvider().available) return 'unconfigured'
+  return closed ? 'available' : 'unavailable'
+}
@@ -55,10 +55,10 @@ export function useCompletion(options: UseCompletionOptions = {}) {
     }
   }, [requestKey])
 
-  // 组件卸载时清理
-  useEffect(() => {
-    return cleanup
-  }, [cleanup])
+  // 组件卸载时清理。只在卸载时执行：requestKey 变化时运行旧的 cleanup 会中止刚发出的请求
+  const cleanupRef = useRef(cleanup)
+  cleanupRef.current = cleanup
+  useEffect(() => () => cleanupRef.current(), [])
 
   const generateCompletion = useCallback(async (
     prompt: string,
@@ -67,6 +67,8 @@ export function useCompletion(options: UseCompletionOptions = {}) {
   ) => {
     // 清理之前的请求
     cleanup()
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
 
     const request: CompletionRequest = {
       prompt,
@@ -109,7 +111,7 @@ export function useCompletion(options: UseCompletionOptions = {}) {
                 fullText += chunk
                 setState(prev => ({ ...prev, text: fullText }))
                 onStream(chunk)
-              })
+              }, abortController.signal)
               
               const result: CompletionResponse = { text: fullText }
               setState(prev => ({ ...prev, loading: false }))
@@ -144,7 +146,7 @@ export function useCompletion(options: UseCompletionOptions = {}) {
             fullText += chunk
             setState(prev => ({ ...prev, text: fullText }))
             onStream(chunk)
-          })
+          }, abortController.signal)
           
           const result: CompletionResponse = { text: fullText }
           setState(prev => ({ ...prev, loading: false }))
@@ -0,0 +1,9 @@
+import { usePreference } from './usePreference'
+import { normalizeCompletionPolicy } from '../../tiptap/completionPolicy'
+
+// 读取并保存用户的补全触发策略（user_configs.preferences.completion）
+// 修改会立即返回给调用方，由编辑器在下一次触发时读取
+export function useCompletionPolicy(userId: string | undefined) {
+  const { value, update, reset, saveStatus } = usePreference(userId, 'completion', normalizeCompletionPolicy)
+  return { policy: value, setPolicy: update, resetPolicy: reset, saveStatus }
+}
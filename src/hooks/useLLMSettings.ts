@@ -0,0 +1,66 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { projectService } from '../services/databaseService'
+import { llmService, normalizeLLMSettings, type LLMSettings } from '../services/llmService'
+import type { PreferenceSaveStatus } from './usePreference'
+import type { Project } from '../types'
+
+// 保存前等待的时间，与 usePreference 一致
+const SAVE_DELAY = 500
+
+// 读取并保存工作区（项目）的模型设置（projects.metadata.llm），切换项目或修改设置后立即切换当前使用的模型
+// 保存成功后通过 onSaved 返回更新后的项目，调用方据此更新项目列表
+export function useLLMSettings(project: Project | undefined, onSaved: (project: Project) => void) {
+  const projectId: string | undefined = project?.id
+  const [value, setValueState] = useState<LLMSettings>(() => normalizeLLMSettings(project?.metadata?.llm))
+  const [saveStatus, setSaveStatus] = useState<PreferenceSaveStatus>('idle')
+  const valueRef = useRef(value)
+  const projectRef = useRef(project)
+  projectRef.current = project
+  const onSavedRef = useRef(onSaved)
+  onSavedRef.current = onSaved
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // 切换项目时读取该项目的设置；同一项目保存后列表刷新不会覆盖正在编辑的值
+  useEffect(() => {
+    valueRef.current = normalizeLLMSettings(projectRef.current?.metadata?.llm)
+    setValueState(valueRef.current)
+    setSaveStatus('idle')
+  }, [projectId])
+
+  useEffect(() => {
+    llmService.configure(value)
+  }, [value])
+
+  useEffect(() => () => {
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+  }, [])
+
+  const update = useCallback((changes: Partial<LLMSettings>) => {
+    const next = normalizeLLMSettings({ ...valueRef.current, ...changes })
+    valueRef.current = next
+    setValueState(next)
+
+    const target = projectRef.current
+    if (!target) return
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+    setSaveStatus('saving')
+    saveTimer.current = setTimeout(async () => {
+      // 等待期间项目可能已被其他设置更新，尽量基于最新的 metadata 合并
+      const latest = projectRef.current?.id === target.id ? projectRef.current : target
+      try {
+        const data = await projectService.updateProject(target.id, {
+          metadata: { ...(latest.metadata ?? {}), llm: next }
+        })
+        onSavedRef.current(data)
+        setSaveStatus('saved')
+      } catch (error) {
+        console.error('保存模型设置失败:', error)
+        setSaveStatus('error')
+      }
+    }, SAVE_DELAY)
+  }, [])
+
+  const reset = useCallback(() => update(normalizeLLMSettings(undefined)), [update])
+
+  return { settings: value, setSettings: update, resetSettings: reset, saveStatus }
+}
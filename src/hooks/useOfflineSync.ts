@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react'
 import { offlineService, offlineDB } from '../services/offlineService'
 import { projectService } from '../services/projectService'
 import { projectService as databaseProjectService, documentService, standardInfoService } from '../services/databaseService'
+import { indexingQueue } from '../services/indexingQueue'
 import { useAuth } from './useAuth'
 
 export interface SyncState {
@@ -42,6 +43,21 @@ export function useOfflineSync() {
     return unsubscribe
   }, [])
 
+  // 文档向量索引队列：登录后继续处理上次未完成的任务，恢复联网时立即处理
+  useEffect(() => {
+    if (!user) return
+
+    void indexingQueue.start()
+    const unsubscribe = offlineService.onNetworkChange((online) => {
+      if (online) void indexingQueue.process()
+    })
+
+    return () => {
+      unsubscribe()
+      indexingQueue.stop()
+    }
+  }, [user])
+
   // 监听用户变化，更新同步状态
   useEffect(() => {
     if (user) {
@@ -157,6 +173,7 @@ export function useOfflineSync() {
               id: newDocument.id,
               sync_status: 'synced'
             })
+            await indexingQueue.enqueue(newDocument.id, document.content)
           }
           
           // 标记为已同步
@@ -0,0 +1,65 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { userConfigService } from '../services/databaseService'
+
+export type PreferenceSaveStatus = 'idle' | 'saving' | 'saved' | 'error'
+
+// 保存前等待的时间，避免在输入框里每敲一个字就写一次数据库
+const SAVE_DELAY = 500
+
+// 读取并保存 user_configs.preferences 中的一项设置
+// normalize 负责补齐缺失字段，传入 undefined 时返回默认值；修改会立即返回给调用方，稍后写入数据库
+export function usePreference<T extends object>(userId: string | undefined, key: string, normalize: (value: unknown) => T) {
+  const normalizeRef = useRef(normalize)
+  normalizeRef.current = normalize
+  const [value, setValueState] = useState<T>(() => normalize(undefined))
+  const [saveStatus, setSaveStatus] = useState<PreferenceSaveStatus>('idle')
+  const valueRef = useRef(value)
+  const saveTimer = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // 加载用户配置
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    userConfigService.getPreferences(userId)
+      .then(preferences => {
+        if (cancelled) return
+        valueRef.current = normalizeRef.current(preferences[key])
+        setValueState(valueRef.current)
+      })
+      .catch(error => {
+        console.error(`加载设置 ${key} 失败:`, error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId, key])
+
+  useEffect(() => () => {
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+  }, [])
+
+  const update = useCallback((changes: Partial<T>) => {
+    const next = normalizeRef.current({ ...valueRef.current, ...changes })
+    valueRef.current = next
+    setValueState(next)
+
+    if (!userId) return
+    if (saveTimer.current) clearTimeout(saveTimer.current)
+    setSaveStatus('saving')
+    saveTimer.current = setTimeout(async () => {
+      try {
+        await userConfigService.updatePreferences(userId, { [key]: next })
+        setSaveStatus('saved')
+      } catch (error) {
+        console.error(`保存设置 ${key} 失败:`, error)
+        setSaveStatus('error')
+      }
+    }, SAVE_DELAY)
+  }, [userId, key])
+
+  const reset = useCallback(() => update(normalizeRef.current(undefined)), [update])
+
+  return { value, update, reset, saveStatus }
+}
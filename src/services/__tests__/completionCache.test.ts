@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest'
+import { LRUCompletionCache, reviveCacheEntry, type CompletionCache } from '../completionCache'
+
+const entry = (id: string, overrides: Partial<CompletionCache> = {}): CompletionCache => ({
+  id,
+  namespace: 'p1',
+  prompt: id,
+  response: '补全',
+  createdAt: new Date(0),
+  expiresAt: new Date(60_000),
+  lastAccessedAt: new Date(0),
+  ...overrides
+})
+
+describe('LRUCompletionCache', () => {
+  it('超过条目上限时应该淘汰最久未使用的条目', () => {
+    const cache = new LRUCompletionCache({ maxEntries: 2 }, () => 1000)
+    cache.set(entry('a'))
+    cache.set(entry('b'))
+    cache.get('a')
+
+    expect(cache.set(entry('c'))).toEqual(['b'])
+    expect(cache.has('a')).toBe(true)
+    expect(cache.stats()).toMatchObject({ total: 2, hits: 1, evictions: 1 })
+  })
+
+  it('超过字节上限时应该淘汰条目', () => {
+    const cache = new LRUCompletionCache({ maxBytes: 96 })
+    cache.set(entry('a', { response: '短' }))
+
+    const evicted = cache.set(entry('b', { response: '长'.repeat(45) }))
+
+    expect(evicted).toEqual(['a'])
+    expect(cache.stats().bytes).toBe(94)
+  })
+
+  it('过期条目应该按未命中处理', () => {
+    let now = 0
+    const cache = new LRUCompletionCache({}, () => now)
+    cache.set(entry('a'))
+
+    now = 60_000
+    expect(cache.get('a')).toBeNull()
+    expect(cache.stats()).toMatchObject({ total: 0, hits: 0, misses: 1 })
+  })
+
+  it('应该把存储中的字符串日期恢复为 Date，并按最近使用时间重建顺序', () => {
+    const stored = [
+      { ...entry('new'), createdAt: '1970-01-01T00:00:00.000Z', expiresAt: '1970-01-01T00:01:00.000Z', lastAccessedAt: '1970-01-01T00:00:02.000Z' },
+      { ...entry('old'), createdAt: '1970-01-01T00:00:00.000Z', expiresAt: '1970-01-01T00:01:00.000Z', lastAccessedAt: '1970-01-01T00:00:01.000Z' },
+      { ...entry('expired'), expiresAt: '1970-01-01T00:00:00.500Z' }
+    ].map(reviveCacheEntry)
+
+    expect(stored[0]?.expiresAt).toBeInstanceOf(Date)
+    const cache = new LRUCompletionCache({ maxEntries: 1 }, () => 1000)
+    expect(cache.hydrate(stored.filter((item): item is CompletionCache => item !== null))).toEqual(['expired', 'old'])
+    expect(cache.has('new')).toBe(true)
+  })
+
+  it('应该只清空指定命名空间', () => {
+    const cache = new LRUCompletionCache()
+    cache.set(entry('a'))
+    cache.set(entry('b', { namespace: 'p2' }))
+
+    expect(cache.invalidateNamespace('p1')).toEqual(['a'])
+    expect(cache.stats().namespaces).toEqual({ p2: 1 })
+  })
+})
@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach, beforeAll } from 'vitest'
 import { completionService } from '../completionService'
 import { offlineService } from '../offlineService'
 import { supabase } from '../supabaseClient'
+import { aiCircuitBreaker } from '../resilience'
+import { offlineModelService } from '../offlineModelService'
 
 vi.mock('../supabaseClient', () => ({
   supabase: {
@@ -22,6 +24,18 @@ vi.mock('../offlineService', () => ({
     getCachedCompletions: vi.fn(() => Promise.resolve([])),
     saveCachedCompletion: vi.fn(),
     clearCachedCompletions: vi.fn(),
+    deleteCachedCompletions: vi.fn(() => Promise.resolve()),
+    getCompletionVectors: vi.fn(() => Promise.resolve([])),
+    saveCompletionVectors: vi.fn(() => Promise.resolve()),
+    deleteCompletionVectors: vi.fn(() => Promise.resolve()),
+    clearCompletionVectors: vi.fn(() => Promise.resolve()),
+    isOnline: vi.fn(() => true),
+  },
+}))
+
+vi.mock('../offlineModelService', () => ({
+  offlineModelService: {
+    complete: vi.fn(() => Promise.resolve('')),
   },
 }))
 
@@ -141,6 +155,83 @@ describe('completionService', () => {
     })
   })
 
+  describe('generateStreamCompletion 的读取与取消', () => {
+    it('应该拼接被拆到两次读取中的事件', async () => {
+      const encoder = new TextEncoder()
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"轻盈'))
+          controller.enqueue(encoder.encode('透气"}}]}\n\ndata: [DONE]\n\n'))
+          controller.close()
+        }
+      })
+      vi.mocked(fetch).mockResolvedValue({ ok: true, body } as any)
+
+      const onChunk = vi.fn()
+      await completionService.generateStreamCompletion({ prompt: '拆分测试' }, onChunk)
+
+      expect(onChunk).toHaveBeenCalledTimes(1)
+      expect(onChunk).toHaveBeenCalledWith('轻盈透气')
+    })
+
+    it('应该支持通过 signal 取消，且不缓存不完整的结果', async () => {
+      const encoder = new TextEncoder()
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"部分"}}]}\n\n'))
+        }
+      })
+      vi.mocked(fetch).mockResolvedValue({ ok: true, body } as any)
+      const abortController = new AbortController()
+
+      const onChunk = vi.fn(() => abortController.abort())
+      await completionService.generateStreamCompletion({ prompt: '取消测试' }, onChunk, abortController.signal)
+
+      expect(onChunk).toHaveBeenCalledWith('部分')
+      expect(vi.mocked(fetch).mock.calls[0][1]?.signal?.aborted).toBe(true)
+      expect(offlineService.saveCachedCompletion).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('熔断', () => {
+    it('熔断期间应该只使用缓存，没有缓存时抛出 AI 暂不可用', async () => {
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: vi.fn(() => Promise.resolve({ text: '熔断前的结果' }))
+      } as any)
+      await completionService.generateCompletion({ prompt: '熔断测试' })
+
+      for (let i = 0; i < 3; i++) aiCircuitBreaker.recordFailure()
+      vi.mocked(fetch).mockClear()
+
+      expect(completionService.getStatus()).toBe('open')
+      expect((await completionService.generateCompletion({ prompt: '熔断测试' })).text).toBe('熔断前的结果')
+      await expect(completionService.generateCompletion({ prompt: '没有缓存' })).rejects.toThrow('AI 暂不可用')
+      const onChunk = vi.fn()
+      await completionService.generateStreamCompletion({ prompt: '熔断测试' }, onChunk)
+      expect(onChunk).toHaveBeenCalledWith('熔断前的结果')
+      expect(fetch).not.toHaveBeenCalled()
+
+      aiCircuitBreaker.reset()
+    })
+  })
+
+  describe('离线续写', () => {
+    it('离线时应该改用本地模型，且不写入缓存', async () => {
+      vi.mocked(offlineService.isOnline).mockReturnValue(false)
+      vi.mocked(supabase.auth.getSession).mockResolvedValueOnce({ data: { session: { user: { id: 'test-user' } } } } as any)
+      vi.mocked(offlineModelService.complete).mockResolvedValueOnce('，清凉一夏。')
+
+      const result = await completionService.generateCompletion({ prompt: '离线测试', projectId: 'p1' })
+      vi.mocked(offlineService.isOnline).mockReturnValue(true)
+
+      expect(result.text).toBe('，清凉一夏。')
+      expect(offlineModelService.complete).toHaveBeenCalledWith('离线测试', { userId: 'test-user', projectId: 'p1' }, { maxLength: undefined })
+      expect(fetch).not.toHaveBeenCalled()
+      expect(offlineService.saveCachedCompletion).not.toHaveBeenCalled()
+    })
+  })
+
   describe('cancelCompletion', () => {
     it('应该支持取消操作', () => {
       expect(() => completionService.cancelCompletion()).not.toThrow()
@@ -162,5 +253,48 @@ describe('completionService', () => {
       expect(typeof stats.total).toBe('number')
       expect(typeof stats.expired).toBe('number')
     })
+
+    it('应该按项目隔离缓存并统计命中率', async () => {
+      completionService.clearCache()
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: vi.fn(() => Promise.resolve({ text: '项目A的补全' }))
+      } as any)
+
+      await completionService.generateCompletion({ prompt: '命中测试', projectId: 'project-a' })
+      await completionService.generateCompletion({ prompt: '命中测试', projectId: 'project-a' })
+      await completionService.generateCompletion({ prompt: '命中测试', projectId: 'project-b' })
+
+      expect(fetch).toHaveBeenCalledTimes(2)
+      const stats = completionService.getCacheStats()
+      expect(stats.namespaces).toEqual({ 'project-a': 1, 'project-b': 1 })
+      expect(stats.hits).toBeGreaterThanOrEqual(1)
+
+      completionService.invalidateProject('project-a')
+      expect(completionService.getCacheStats().namespaces).toEqual({ 'project-b': 1 })
+    })
+
+    it('开启语义缓存后应该复用相似提示词的结果', async () => {
+      completionService.clearCache()
+      await completionService.configureSemanticCache({ enabled: true })
+      vi.mocked(fetch).mockResolvedValue({
+        ok: true,
+        json: vi.fn(() => Promise.resolve({ text: '，清凉一夏' }))
+      } as any)
+
+      const before = completionService.getCacheStats()
+      await completionService.generateCompletion({ prompt: '迎接全新夏季系列' })
+      const similar = await completionService.generateCompletion({ prompt: '迎接全新的夏季系列' })
+      await completionService.generateCompletion({ prompt: '迎接全新冬季系列' })
+      await completionService.configureSemanticCache({ enabled: false })
+
+      expect(similar.text).toBe('，清凉一夏')
+      expect(fetch).toHaveBeenCalledTimes(2)
+      const stats = completionService.getCacheStats()
+      expect(stats.semanticHits).toBe(1)
+      // 三次精确匹配都未命中，语义命中不计入精确匹配的命中数
+      expect(stats.hits - before.hits).toBe(0)
+      expect(stats.misses - before.misses).toBe(3)
+    })
   })
 })
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest'
+import { chunkText, htmlToBlocks, toStructuredText } from '../documentChunker'
+
+describe('documentChunker', () => {
+  it('应该把编辑器 HTML 转换为标题、段落和列表项', () => {
+    const html = '<h2>夏季系列</h2><p>轻质面料&nbsp;透气&amp;清凉。</p><ul><li><p>亚麻</p></li><li>棉麻<br>混纺</li></ul>'
+    expect(htmlToBlocks(html)).toEqual([
+      { type: 'heading', text: '夏季系列', level: 2 },
+      { type: 'paragraph', text: '轻质面料 透气&清凉。', level: 0 },
+      { type: 'list_item', text: '亚麻', level: 1 },
+      { type: 'list_item', text: '棉麻 混纺', level: 1 }
+    ])
+    expect(toStructuredText(html).text).toBe('夏季系列\n轻质面料 透气&清凉。\n- 亚麻\n- 棉麻 混纺')
+  })
+
+  it('应该在中文句末标点处分块，并按 chunkOverlap 重叠整句', () => {
+    const text = '第一句话在这里。第二句话在这里！第三句话在这里？第四句话在这里。'
+    const chunks = chunkText(text, { chunkSize: 20, chunkOverlap: 8 })
+
+    expect(chunks.map(chunk => chunk.content)).toEqual([
+      '第一句话在这里。第二句话在这里！',
+      '第二句话在这里！第三句话在这里？',
+      '第三句话在这里？第四句话在这里。'
+    ])
+    for (const chunk of chunks) {
+      expect(text.slice(chunk.start_index, chunk.end_index)).toBe(chunk.content)
+    }
+  })
+
+  it('分块不应跨越标题，并记录标题路径', () => {
+    const html = '<h1>新品</h1><p>秋季新品上市。</p><h2>面料</h2><p>采用羊毛混纺。</p><h2>配色</h2><p>驼色与灰色。</p><h1>售后</h1><p>七天无理由退换。</p>'
+    const chunks = chunkText(html)
+    const { text } = toStructuredText(html)
+
+    expect(chunks.map(chunk => [chunk.content, chunk.heading_path])).toEqual([
+      ['秋季新品上市。', ['新品']],
+      ['采用羊毛混纺。', ['新品', '面料']],
+      ['驼色与灰色。', ['新品', '配色']],
+      ['七天无理由退换。', ['售后']]
+    ])
+    expect(text.slice(chunks[1].start_index, chunks[1].end_index)).toBe('采用羊毛混纺。')
+  })
+
+  it('没有句末标点的超长文本应该按 chunkSize 硬切', () => {
+    const chunks = chunkText('字'.repeat(25), { chunkSize: 10, chunkOverlap: 0 })
+    expect(chunks.map(chunk => chunk.content.length)).toEqual([10, 10, 5])
+  })
+})
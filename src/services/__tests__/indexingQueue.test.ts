@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { IndexingQueue, type IndexingTask, type IndexingQueueStorage } from '../indexingQueue'
+
+vi.mock('../ragService', () => ({ ragService: {} }))
+vi.mock('../offlineService', () => ({ offlineService: {} }))
+
+const memoryStorage = (initial: IndexingTask[] = []): IndexingQueueStorage & { tasks: Map<string, IndexingTask> } => {
+  const tasks = new Map(initial.map(task => [task.document_id, task]))
+  return {
+    tasks,
+    list: async () => [...tasks.values()].sort((a, b) => a.due_at - b.due_at),
+    get: async documentId => tasks.get(documentId),
+    put: async task => {
+      tasks.set(task.document_id, task)
+    },
+    delete: async documentId => {
+      tasks.delete(documentId)
+    }
+  }
+}
+
+describe('IndexingQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('连续修改时应该只按最后一次的内容建立索引', async () => {
+    const storage = memoryStorage()
+    const index = vi.fn(async () => {})
+    const queue = new IndexingQueue(storage, index, { debounceMs: 1000 })
+    await queue.start()
+
+    await queue.enqueue('doc-1', '夏')
+    await vi.advanceTimersByTimeAsync(600)
+    await queue.enqueue('doc-1', '夏季')
+    await vi.advanceTimersByTimeAsync(600)
+    expect(index).not.toHaveBeenCalled()
+
+    await vi.advanceTimersByTimeAsync(500)
+    expect(index).toHaveBeenCalledTimes(1)
+    expect(index).toHaveBeenCalledWith('doc-1', '夏季')
+    expect(storage.tasks.size).toBe(0)
+    queue.stop()
+  })
+
+  it('启动时应该继续处理上次未完成的任务，失败后推迟重试', async () => {
+    const storage = memoryStorage([
+      { document_id: 'doc-1', content: '秋季新品', due_at: Date.now() - 1, attempts: 0, last_error: null, revision: 1 }
+    ])
+    const index = vi.fn()
+      .mockRejectedValueOnce(new Error('向量服务不可用'))
+      .mockResolvedValueOnce(undefined)
+    const queue = new IndexingQueue(storage, index, { retryDelayMs: 2000 })
+
+    await queue.start()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(index).toHaveBeenCalledTimes(1)
+    expect(storage.tasks.get('doc-1')).toMatchObject({ attempts: 1, last_error: '向量服务不可用' })
+
+    await vi.advanceTimersByTimeAsync(2000)
+    expect(index).toHaveBeenCalledTimes(2)
+    expect(storage.tasks.size).toBe(0)
+    queue.stop()
+  })
+
+  it('定时处理时读取队列失败应该记录错误，而不是留下未处理的 Promise 拒绝', async () => {
+    const storage = memoryStorage()
+    const index = vi.fn(async () => {})
+    const queue = new IndexingQueue(storage, index, { debounceMs: 100 })
+    await queue.start()
+    await queue.enqueue('doc-1', '夏季')
+
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+    vi.spyOn(storage, 'list').mockRejectedValueOnce(new Error('IndexedDB 不可用'))
+    await vi.advanceTimersByTimeAsync(100)
+
+    expect(error).toHaveBeenCalledWith('处理索引队列失败:', expect.objectContaining({ message: 'IndexedDB 不可用' }))
+    expect(index).not.toHaveBeenCalled()
+    error.mockRestore()
+    queue.stop()
+  })
+
+  it('离线时不处理任务，也不应该入队未同步的文档', async () => {
+    let online = false
+    const storage = memoryStorage()
+    const index = vi.fn(async () => {})
+    const queue = new IndexingQueue(storage, index, { debounceMs: 100, isOnline: () => online })
+    await queue.start()
+
+    await queue.enqueue('temp_1', '草稿')
+    await queue.enqueue('doc-1', '正文')
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(index).not.toHaveBeenCalled()
+    expect([...storage.tasks.keys()]).toEqual(['doc-1'])
+
+    online = true
+    await queue.process()
+    expect(index).toHaveBeenCalledWith('doc-1', '正文')
+    queue.stop()
+  })
+
+  it('网络错误不计入重试次数，离线期间的失败不会让任务被放弃', async () => {
+    const storage = memoryStorage([
+      { document_id: 'doc-1', content: '秋季新品', due_at: Date.now() - 1, attempts: 0, last_error: null, revision: 1 }
+    ])
+    const index = vi.fn()
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      // Supabase 客户端把网络错误作为错误对象返回
+      .mockRejectedValueOnce({ message: 'TypeError: Failed to fetch' })
+      .mockRejectedValueOnce(new Error('向量服务不可用'))
+    const queue = new IndexingQueue(storage, index, { retryDelayMs: 1000, maxAttempts: 2 })
+
+    await queue.start()
+    await vi.advanceTimersByTimeAsync(0)
+    expect(storage.tasks.get('doc-1')).toMatchObject({ attempts: 0, last_error: 'Failed to fetch' })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(index).toHaveBeenCalledTimes(2)
+    expect(storage.tasks.get('doc-1')).toMatchObject({ attempts: 0, last_error: 'TypeError: Failed to fetch' })
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(index).toHaveBeenCalledTimes(3)
+    expect(storage.tasks.get('doc-1')).toMatchObject({ attempts: 1, last_error: '向量服务不可用' })
+    queue.stop()
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import {
+  createLLMProvider,
+  createMockProvider,
+  createOpenAICompatibleProvider,
+  estimateTokens,
+  normalizeLLMSettings,
+  DEFAULT_LLM_SETTINGS,
+  EMBEDDING_DIMENSIONS
+} from '../llmService'
+
+const collect = async (stream: AsyncGenerator<string>) => {
+  const chunks: string[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, i) => sum + value * b[i], 0)
+
+// 按给定的分段返回响应体，模拟网络把一个事件拆成多次读取
+const streamResponse = (parts: string[]) => {
+  const encoder = new TextEncoder()
+  return new Response(new ReadableStream({
+    start(controller) {
+      parts.forEach(part => controller.enqueue(encoder.encode(part)))
+      controller.close()
+    }
+  }))
+}
+
+describe('llmService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('模拟模型对同一提示词应该返回相同结果，并按块流式输出', async () => {
+    const provider = createMockProvider({ chunkSize: 3 })
+
+    const first = await provider.generate('夏季新品')
+    const second = await provider.generate('夏季新品')
+    expect(first.text).toBe(second.text)
+    expect(first.text).not.toBe((await provider.generate('办公用品')).text)
+    expect(first.usage?.totalTokens).toBe(estimateTokens('夏季新品') + estimateTokens(first.text))
+
+    const chunks = await collect(provider.stream('夏季新品'))
+    expect(chunks.join('')).toBe(first.text)
+    expect(chunks[0]).toHaveLength(3)
+  })
+
+  it('模拟模型的向量应该归一化，字面相近的文本更相似', async () => {
+    const provider = createMockProvider()
+    const [summer, summerAgain, office] = await provider.embed(['夏季系列轻质面料', '夏季系列的轻质面料', 'GadgetPro X 处理器'])
+
+    expect(summer).toHaveLength(EMBEDDING_DIMENSIONS)
+    expect(cosine(summer, summer)).toBeCloseTo(1)
+    expect(cosine(summer, summerAgain)).toBeGreaterThan(cosine(summer, office))
+  })
+
+  it('OpenAI 兼容接口应该拼接被拆开的 SSE 事件', async () => {
+    const fetchMock = vi.fn(async () => streamResponse([
+      'data: {"choices":[{"delta":{"content":"轻盈"}}]}\n\ndata: {"choices":[{"del',
+      'ta":{"content":"透气"}}]}\n\n',
+      'data: [DONE]\n\n'
+    ]))
+    vi.stubGlobal('fetch', fetchMock)
+
+    const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:11434/v1/', model: 'qwen2.5' })
+    const chunks = await collect(provider.stream('夏季新品'))
+
+    expect(chunks).toEqual(['轻盈', '透气'])
+    expect(provider.available).toBe(true)
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/v1/chat/completions', expect.objectContaining({ method: 'POST' }))
+  })
+
+  it('内置的 OpenAI Key 只发给官方接口，自定义地址不附带', async () => {
+    const fetchMock = vi.fn(async (_url: string, _init: RequestInit) => Response.json({ choices: [{ message: { content: '轻盈' } }] }))
+    vi.stubGlobal('fetch', fetchMock)
+    const apiKeys = { openai: 'sk-build-time' }
+    const authorizationOf = (call: number) => fetchMock.mock.calls[call][1].headers
+
+    await createLLMProvider('openai', { ...DEFAULT_LLM_SETTINGS, baseUrl: 'https://api.openai.com/v1/' }, apiKeys).generate('夏季新品')
+    const custom = createLLMProvider('openai', { ...DEFAULT_LLM_SETTINGS, baseUrl: 'https://attacker.example.com/v1' }, apiKeys)
+    await custom.generate('夏季新品')
+
+    expect(authorizationOf(0)).toMatchObject({ Authorization: 'Bearer sk-build-time' })
+    expect(fetchMock.mock.calls[1][0]).toBe('https://attacker.example.com/v1/chat/completions')
+    expect(authorizationOf(1)).not.toHaveProperty('Authorization')
+    // 自建服务通常不需要 Key，仍然可用
+    expect(custom.available).toBe(true)
+  })
+
+  it('应该补齐模型设置并忽略未知的模型', () => {
+    expect(normalizeLLMSettings(undefined)).toEqual(DEFAULT_LLM_SETTINGS)
+    expect(normalizeLLMSettings({ provider: 'mock', embeddingProvider: 'unknown', model: ' qwen2.5 ' })).toEqual({
+      ...DEFAULT_LLM_SETTINGS,
+      provider: 'mock',
+      model: 'qwen2.5'
+    })
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { createNgramProvider, NgramModel } from '../ngramModel'
+
+const corpus = [
+  '夏季新品采用轻质面料，透气舒适。',
+  '秋季新品采用羊毛混纺面料，柔软保暖。',
+  '夏季新品采用轻质面料，清凉一夏。',
+].join('\n')
+
+describe('NgramModel', () => {
+  it('应该按训练文本的风格续写到句末', () => {
+    const model = new NgramModel()
+    model.train(corpus)
+
+    expect(model.continue('这次的夏季新品')).toBe('采用轻质面料，透气舒适。')
+    expect(model.continue('秋季新品采用羊毛')).toBe('混纺面料，柔软保暖。')
+  })
+
+  it('没见过的上下文不应该给出建议，并且不会陷入循环', () => {
+    const model = new NgramModel()
+    model.train('哈哈哈哈哈哈')
+
+    expect(model.continue('完全陌生的内容')).toBe('')
+    expect(model.continue('哈哈', { maxLength: 100 }).length).toBeLessThan(10)
+  })
+
+  it('权重更高的文本应该优先', () => {
+    const model = new NgramModel()
+    model.train('品牌理念是简约。')
+    model.train('品牌理念是自然。', 3)
+
+    expect(model.continue('我们的品牌理念')).toBe('是自然。')
+  })
+
+  it('包装成模型接口后应该流式输出续写内容', async () => {
+    const model = new NgramModel()
+    model.train(corpus)
+    const provider = createNgramProvider(model, { chunkSize: 3 })
+
+    const chunks: string[] = []
+    for await (const chunk of provider.stream('秋季新品采用羊毛')) chunks.push(chunk)
+
+    expect(chunks.join('')).toBe('混纺面料，柔软保暖。')
+    expect((await provider.generate('秋季新品采用')).usage?.completionTokens).toBeGreaterThan(0)
+  })
+})
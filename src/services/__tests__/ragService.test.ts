@@ -0,0 +1,311 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { ragService, standardInfoRagService } from '../ragService'
+import { isReferenceOutdated } from '../../../tiptap/standardInfoReference'
+
+type Row = Record<string, unknown> & { id: string }
+type Filter = (row: Row) => boolean
+
+const { tables, embed, rpc } = vi.hoisted(() => {
+  const tables = {
+    document_chunks: [] as Row[],
+    standard_info: [] as Row[]
+  }
+  let nextId = 0
+  // 与 rag_functions.sql 中的 apply_document_chunk_diff 相同：删除、更新位置、插入
+  const applyChunkDiff = ({ added_chunks, moved_chunks, stale_chunk_ids }: { added_chunks: Row[]; moved_chunks: Row[]; stale_chunk_ids: string[] }) => {
+    const rows = tables.document_chunks
+    rows.splice(0, rows.length, ...rows.filter(row => !stale_chunk_ids.includes(row.id)))
+    for (const { id, chunk_index, metadata } of moved_chunks) {
+      const index = rows.findIndex(row => row.id === id)
+      rows[index] = { ...rows[index], chunk_index, metadata }
+    }
+    added_chunks.forEach(chunk => rows.push({ ...chunk, id: `row-${++nextId}` }))
+  }
+
+  return {
+    tables,
+    rpc: vi.fn(async (name: string, params: Record<string, unknown>): Promise<{ data: unknown[] | null; error: { message: string } | null }> => {
+      if (name === 'apply_document_chunk_diff') applyChunkDiff(params as Parameters<typeof applyChunkDiff>[0])
+      return { data: [], error: null }
+    }),
+    embed: vi.fn(async (texts: string[]) => texts.map(() => [1, 0]))
+  }
+})
+
+// 只实现分块和标准信息向量用到的查询：select 后的 eq/is/neq 过滤，以及 update（eq 过滤，可接 select）；分块的写入经由 rpc
+// standard_info 的 update 按 rag_functions.sql 中的触发器处理 updated_at：只有标题、内容或分类变化时才更新
+vi.mock('../supabaseClient', () => {
+  let clock = Date.parse('2026-02-01T00:00:00Z')
+  const touchesStandardInfo = (row: Row, values: Record<string, unknown>) =>
+    ['title', 'content', 'category'].some(field => field in values && values[field] !== row[field])
+  const select = (rows: Row[], filters: Filter[] = []) => ({
+    eq: (field: string, value: unknown) => select(rows, [...filters, row => row[field] === value]),
+    is: (field: string, value: unknown) => select(rows, [...filters, row => (row[field] ?? null) === value]),
+    neq: (field: string, value: unknown) => select(rows, [...filters, row => row[field] !== value]),
+    then: (resolve: (result: { data: Row[]; error: null }) => void) =>
+      resolve({ data: rows.filter(row => filters.every(filter => filter(row))), error: null })
+  })
+  const update = (rows: Row[], values: Record<string, unknown>, filters: Filter[] = []) => {
+    const apply = () => {
+      const updated: Row[] = []
+      rows.forEach((row, index) => {
+        if (!filters.every(filter => filter(row))) return
+        rows[index] = { ...row, ...values }
+        if (rows === tables.standard_info) {
+          rows[index].updated_at = touchesStandardInfo(row, values) ? new Date(clock += 1000).toISOString() : row.updated_at
+        }
+        updated.push(rows[index])
+      })
+      return updated
+    }
+    return {
+      eq: (field: string, value: unknown) => update(rows, values, [...filters, row => row[field] === value]),
+      select: () => ({
+        then: (resolve: (result: { data: Row[]; error: null }) => void) => resolve({ data: apply(), error: null })
+      }),
+      then: (resolve: (result: { error: null }) => void) => {
+        apply()
+        resolve({ error: null })
+      }
+    }
+  }
+  return {
+    supabase: {
+      rpc,
+      from: (table: keyof typeof tables) => {
+        const rows = tables[table]
+        return {
+          select: () => select(rows),
+          update: (values: Record<string, unknown>) => update(rows, values)
+        }
+      }
+    }
+  }
+})
+
+vi.mock('../llmService', () => ({
+  llmService: {
+    getEmbeddingProvider: () => ({ embed, embeddingModel: 'openai:text-embedding-3-small' })
+  }
+}))
+
+const paragraphs = (...texts: string[]) => texts.map(text => `<p>${text}</p>`).join('')
+
+describe('ragService.storeDocumentChunks', () => {
+  const rows = tables.document_chunks
+
+  beforeEach(() => {
+    rows.length = 0
+    embed.mockClear()
+    rpc.mockClear()
+  })
+
+  it('应该只为内容变化的分块重新生成向量', async () => {
+    const sections = ['夏季系列采用轻质面料。', '透气清凉，适合通勤。', '全场满三百减五十。']
+    const html = (third: string) => `<h2>面料</h2>${paragraphs(sections[0])}<h2>场景</h2>${paragraphs(sections[1])}<h2>活动</h2>${paragraphs(third)}`
+
+    const first = await ragService.storeDocumentChunks('doc-1', html(sections[2]))
+    expect(first).toMatchObject({ chunksProcessed: 3, chunksEmbedded: 3, chunksDeleted: 0 })
+    const unchangedIds = rows.slice(0, 2).map(row => row.id)
+
+    embed.mockClear()
+    const second = await ragService.storeDocumentChunks('doc-1', html('全场满五百减一百。'))
+
+    expect(second).toMatchObject({ chunksProcessed: 3, chunksEmbedded: 1, chunksDeleted: 1 })
+    expect(embed).toHaveBeenCalledWith(['全场满五百减一百。'])
+    expect(rows.map(row => row.content)).toEqual([sections[0], sections[1], '全场满五百减一百。'])
+    expect(rows.slice(0, 2).map(row => row.id)).toEqual(unchangedIds)
+  })
+
+  it('内容不变但位置变化的分块应该保留向量并更新序号', async () => {
+    await ragService.storeDocumentChunks('doc-1', paragraphs('第一段。'))
+    const [original] = rows
+
+    embed.mockClear()
+    await ragService.storeDocumentChunks('doc-1', `<h2>新增标题</h2>${paragraphs('新增的开头。')}<h2>原文</h2>${paragraphs('第一段。')}`)
+
+    expect(embed).toHaveBeenCalledTimes(1)
+    expect(embed).toHaveBeenCalledWith(['新增的开头。'])
+    const moved = rows.find(row => row.id === original.id)
+    expect(moved).toMatchObject({ chunk_index: 1, embedding: [1, 0], metadata: expect.objectContaining({ heading_path: ['原文'] }) })
+  })
+
+  it('数据库返回的 metadata 键顺序不同时不应该当作位置变化', async () => {
+    const html = `<h2>面料</h2>${paragraphs('夏季系列采用轻质面料。')}`
+    await ragService.storeDocumentChunks('doc-1', html)
+    // jsonb 按自己的规则重新排列键
+    const reordered = Object.fromEntries(Object.entries(rows[0].metadata as Record<string, unknown>).reverse())
+    rows[0] = { ...rows[0], metadata: reordered }
+
+    embed.mockClear()
+    await ragService.storeDocumentChunks('doc-1', html)
+
+    expect(embed).not.toHaveBeenCalled()
+    // 没有被重新写入
+    expect(rows[0].metadata).toBe(reordered)
+  })
+
+  it('新增、更新和删除应该在一次请求中提交，失败时不修改已有的分块', async () => {
+    await ragService.storeDocumentChunks('doc-1', `<h2>面料</h2>${paragraphs('轻质面料。')}<h2>活动</h2>${paragraphs('满三百减五十。')}`)
+    const before = [...rows]
+    rpc.mockClear()
+    rpc.mockResolvedValueOnce({ data: null, error: { message: '连接中断' } })
+
+    const changed = `<h2>新品</h2>${paragraphs('新增的开头。')}<h2>面料</h2>${paragraphs('轻质面料。')}`
+    await expect(ragService.storeDocumentChunks('doc-1', changed)).rejects.toMatchObject({ message: '连接中断' })
+
+    expect(rpc).toHaveBeenCalledTimes(1)
+    expect(rpc).toHaveBeenCalledWith('apply_document_chunk_diff', expect.objectContaining({
+      target_document_id: 'doc-1',
+      stale_chunk_ids: [before[1].id],
+      moved_chunks: [expect.objectContaining({ id: before[0].id, chunk_index: 1 })]
+    }))
+    expect(rows).toEqual(before)
+  })
+
+  it('其他向量模型生成的分块应该重新生成向量', async () => {
+    await ragService.storeDocumentChunks('doc-1', paragraphs('第一段。'))
+    expect(rows[0]).toMatchObject({ embedding_model: 'openai:text-embedding-3-small' })
+    // 在使用其他向量模型的工作区中保存过
+    rows[0] = { ...rows[0], embedding_model: 'gemini:gemini-embedding-001' }
+
+    embed.mockClear()
+    const result = await ragService.storeDocumentChunks('doc-1', paragraphs('第一段。'))
+
+    expect(result).toMatchObject({ chunksEmbedded: 1, chunksDeleted: 1 })
+    expect(rows).toHaveLength(1)
+    expect(rows[0]).toMatchObject({ content: '第一段。', embedding_model: 'openai:text-embedding-3-small' })
+  })
+
+  it('应该分批请求向量', async () => {
+    const texts = Array.from({ length: 20 }, (_, index) => `第${index + 1}段内容。`)
+    await ragService.storeDocumentChunks('doc-2', texts.map(text => `<h2>${text}</h2>${paragraphs(text)}`).join(''))
+
+    expect(embed.mock.calls.map(([batch]) => batch.length)).toEqual([16, 4])
+  })
+})
+
+describe('standardInfoRagService.backfillEmbeddings', () => {
+  const rows = tables.standard_info
+
+  beforeEach(() => {
+    rows.length = 0
+    embed.mockReset()
+    embed.mockImplementation(async (texts: string[]) => texts.map(() => [1, 0]))
+  })
+
+  it('应该只为未生成或生成失败的条目生成向量，并记录状态', async () => {
+    rows.push(
+      { id: 's1', user_id: 'u1', title: '口号', content: '简约，不简单。', deleted_at: null, embedding_status: 'pending' },
+      { id: 's2', user_id: 'u1', title: '', content: '上海市徐汇区。', deleted_at: null, embedding_status: 'failed' },
+      { id: 's3', user_id: 'u1', title: '', content: '已生成。', deleted_at: null, embedding_status: 'ready', embedding_model: 'openai:text-embedding-3-small' },
+      { id: 's4', user_id: 'u1', title: '', content: '已删除。', deleted_at: '2026-01-01', embedding_status: 'pending' },
+      { id: 's5', user_id: 'u2', title: '', content: '其他用户。', deleted_at: null, embedding_status: 'pending' }
+    )
+
+    const result = await standardInfoRagService.backfillEmbeddings('u1')
+
+    expect(result).toEqual({ total: 2, ready: 2, failed: 0 })
+    expect(embed).toHaveBeenCalledWith(['口号\n简约，不简单。', '上海市徐汇区。'])
+    expect(rows.map(row => row.embedding_status)).toEqual(['ready', 'ready', 'ready', 'pending', 'pending'])
+    expect(rows[0]).toMatchObject({ embedding: [1, 0], embedding_error: null, embedding_model: 'openai:text-embedding-3-small' })
+  })
+
+  it('由其他向量模型生成的条目应该重新生成', async () => {
+    rows.push(
+      { id: 's1', user_id: 'u1', title: '', content: '简约，不简单。', deleted_at: null, embedding_status: 'ready', embedding_model: 'gemini:gemini-embedding-001' },
+      { id: 's2', user_id: 'u1', title: '', content: '上海市徐汇区。', deleted_at: null, embedding_status: 'ready', embedding_model: 'openai:text-embedding-3-small' }
+    )
+
+    const result = await standardInfoRagService.backfillEmbeddings('u1')
+
+    expect(result).toEqual({ total: 1, ready: 1, failed: 0 })
+    expect(embed).toHaveBeenCalledWith(['简约，不简单。'])
+    expect(rows[0]).toMatchObject({ embedding_status: 'ready', embedding_model: 'openai:text-embedding-3-small' })
+  })
+
+  it('向量生成失败时应该标记为 failed 并记录原因', async () => {
+    rows.push({ id: 's1', user_id: 'u1', title: '', content: '简约，不简单。', deleted_at: null, embedding_status: 'pending' })
+    embed.mockRejectedValueOnce(new Error('向量服务不可用'))
+
+    const result = await standardInfoRagService.embedStandardInfo([{ id: 's1', content: '简约，不简单。' }])
+
+    expect(result).toEqual({ ready: 0, failed: 1 })
+    expect(rows[0]).toMatchObject({ embedding_status: 'failed', embedding_error: '向量服务不可用' })
+  })
+})
+
+describe('standardInfoRagService.embedStandardInfo', () => {
+  const rows = tables.standard_info
+
+  beforeEach(() => {
+    rows.length = 0
+    embed.mockReset()
+    embed.mockImplementation(async (texts: string[]) => texts.map(() => [1, 0]))
+  })
+
+  it('富文本条目去掉标签后生成向量', async () => {
+    rows.push({ id: 's1', title: '口号', content: '<p><strong>简约</strong>，不简单。</p><p>第二段&amp;结尾</p>', embedding_status: 'pending' })
+
+    await standardInfoRagService.embedStandardInfo([rows[0] as { id: string; title: string; content: string }])
+
+    expect(embed).toHaveBeenCalledWith(['口号\n简约，不简单。\n第二段&结尾'])
+  })
+
+  it('生成期间条目又被修改时不覆盖新版本的状态', async () => {
+    rows.push({ id: 's1', content: '旧内容', updated_at: '2026-01-01T00:00:00Z', embedding_status: 'pending' })
+    let finish: () => void = () => {}
+    embed.mockImplementationOnce(texts => new Promise(resolve => {
+      finish = () => resolve(texts.map(() => [0, 1]))
+    }))
+
+    const stale = standardInfoRagService.embedStandardInfo([{ id: 's1', content: '旧内容', updated_at: '2026-01-01T00:00:00Z' }])
+    // 用户再次保存，新版本的向量先生成完
+    rows[0] = { ...rows[0], content: '新内容', updated_at: '2026-01-01T00:00:05Z' }
+    await standardInfoRagService.embedStandardInfo([{ id: 's1', content: '新内容', updated_at: '2026-01-01T00:00:05Z' }])
+    finish()
+
+    expect(await stale).toEqual({ ready: 0, failed: 0 })
+    expect(rows[0]).toMatchObject({ embedding: [1, 0], embedding_status: 'ready' })
+  })
+
+  it('写入向量不改变 updated_at，引用该条目的文档不会显示为过期', async () => {
+    const syncedAt = '2026-01-01T00:00:00Z'
+    rows.push({ id: 's1', title: '口号', content: '简约，不简单。', updated_at: syncedAt, embedding_status: 'pending' })
+
+    const result = await standardInfoRagService.embedStandardInfo([{ id: 's1', title: '口号', content: '简约，不简单。', updated_at: syncedAt }])
+
+    expect(result).toEqual({ ready: 1, failed: 0 })
+    expect(rows[0]).toMatchObject({ embedding_status: 'ready', updated_at: syncedAt })
+    const info = { id: 's1', projectId: 'p1', category: '口号', content: '简约，不简单。', updatedAt: rows[0].updated_at as string }
+    expect(isReferenceOutdated(syncedAt, info)).toBe(false)
+  })
+})
+
+describe('ragService.hybridSearch', () => {
+  beforeEach(() => {
+    rpc.mockClear()
+    embed.mockReset()
+    embed.mockImplementation(async (texts: string[]) => texts.map(() => [1, 0]))
+  })
+
+  it('应该按比例归一化权重并传入项目过滤条件', async () => {
+    await ragService.hybridSearch('夏季新品', 'u1', { vectorWeight: 3, textWeight: 1, projectId: 'p1' })
+
+    expect(rpc).toHaveBeenCalledWith('hybrid_search_documents', expect.objectContaining({
+      query_text: '夏季新品',
+      query_embedding: [1, 0],
+      query_user_id: 'u1',
+      vector_weight: 0.75,
+      text_weight: 0.25,
+      query_project_id: 'p1',
+      query_embedding_model: 'openai:text-embedding-3-small'
+    }))
+  })
+
+  it('权重为负数或同时为 0 时应该拒绝检索', async () => {
+    await expect(ragService.hybridSearch('夏季', 'u1', { vectorWeight: 0, textWeight: 0 })).rejects.toThrow('检索权重')
+    await expect(ragService.hybridSearch('夏季', 'u1', { vectorWeight: -1, textWeight: 1 })).rejects.toThrow('检索权重')
+    expect(rpc).not.toHaveBeenCalled()
+  })
+})
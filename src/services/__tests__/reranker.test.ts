@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest'
+import { rerank, type RerankCandidate } from '../reranker'
+import evalSet from './fixtures/rerankEval.json'
+
+const candidates = (evalSet.cases as Array<{ candidates: RerankCandidate[] }>).map(item => item.candidates)
+
+// 二元相关性的 nDCG@k
+const ndcg = (ranked: string[], relevant: string[], k: number) => {
+  const dcg = ranked.slice(0, k).reduce((sum, id, index) => sum + (relevant.includes(id) ? 1 / Math.log2(index + 2) : 0), 0)
+  const ideal = relevant.slice(0, k).reduce((sum, _id, index) => sum + 1 / Math.log2(index + 2), 0)
+  return dcg / ideal
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+describe('reranker', () => {
+  it('应该去掉与更相关的分块重叠的内容，剩余太短时丢弃', () => {
+    const overlap = '面料采用 70% 羊毛与 30% 羊绒混纺，保暖轻盈。'
+    const result = rerank('羊毛面料', [
+      { id: 'a0', source: 'document', documentId: 'coat', label: '', score: 0.86, content: `秋冬大衣系列全新上市。${overlap}` },
+      { id: 'a1', source: 'document', documentId: 'coat', label: '', score: 0.85, content: `${overlap}内衬使用铜氨丝面料，顺滑透气，久坐也不易起皱。` },
+      { id: 'a2', source: 'document', documentId: 'coat', label: '', score: 0.84, content: `${overlap}支持退换。` }
+    ], { topK: 3 })
+
+    expect(result.map(chunk => chunk.id)).toEqual(['a0', 'a1'])
+    expect(result[1].content).toBe('内衬使用铜氨丝面料，顺滑透气，久坐也不易起皱。')
+  })
+
+  it('应该优先选择其他文档的结果，而不是同一文档的相似分块', () => {
+    const result = rerank('夏季新品', [
+      { id: 'p0', source: 'document', documentId: 'summer', label: '', score: 0.9, content: '夏季新品主打轻薄透气。' },
+      { id: 'p1', source: 'document', documentId: 'summer', label: '', score: 0.89, content: '夏季新品主打轻薄透气，手感清凉。' },
+      { id: 'q0', source: 'document', documentId: 'live', label: '', score: 0.8, content: '直播间讲解夏季新品时突出防晒。' }
+    ], { topK: 2 })
+
+    expect(result.map(chunk => chunk.id)).toEqual(['p0', 'q0'])
+  })
+
+  it('在评测集上应该优于按余弦相似度排序，且结果中没有重叠的内容', () => {
+    const { k } = evalSet
+    const baseline = evalSet.cases.map((item, index) => {
+      const ranked = [...candidates[index]].sort((a, b) => b.score - a.score).map(chunk => chunk.id)
+      return ndcg(ranked, item.relevant, k)
+    })
+    const reranked = evalSet.cases.map((item, index) => {
+      const result = rerank(item.query, candidates[index], { topK: k })
+      for (const [i, a] of result.entries()) {
+        for (const b of result.slice(i + 1)) {
+          expect(a.content.includes(b.content) || b.content.includes(a.content)).toBe(false)
+        }
+      }
+      return ndcg(result.map(chunk => chunk.id), item.relevant, k)
+    })
+
+    expect(mean(reranked)).toBeGreaterThan(mean(baseline))
+    expect(mean(reranked)).toBeGreaterThanOrEqual(0.9)
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi } from 'vitest'
+import { CircuitBreaker, HTTPStatusError, parseRetryAfter, withRetry, withStreamRetry } from '../resilience'
+
+describe('resilience', () => {
+  it('应该解析秒数和日期格式的 Retry-After', () => {
+    expect(parseRetryAfter('3')).toBe(3000)
+    expect(parseRetryAfter('Thu, 01 Jan 1970 00:00:10 GMT', 4000)).toBe(6000)
+    expect(parseRetryAfter('soon')).toBeUndefined()
+  })
+
+  it('429 和 5xx 应该按退避时间重试，优先使用 Retry-After', async () => {
+    const sleep = vi.fn(async (_ms: number) => {})
+    const fn = vi.fn()
+      .mockRejectedValueOnce(new HTTPStatusError('限流', 429, 2000))
+      .mockRejectedValueOnce(new HTTPStatusError('服务错误', 503))
+      .mockResolvedValueOnce('成功')
+
+    await expect(withRetry(fn, { sleep, random: () => 0.5, baseDelayMs: 100 })).resolves.toBe('成功')
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([2000, 100])
+  })
+
+  it('不可重试的错误或 Retry-After 过长时应该直接抛出', async () => {
+    const sleep = vi.fn(async () => {})
+
+    await expect(withRetry(vi.fn().mockRejectedValue(new HTTPStatusError('未授权', 401)), { sleep })).rejects.toThrow('未授权')
+    await expect(withRetry(vi.fn().mockRejectedValue(new HTTPStatusError('限流', 429, 60_000)), { sleep })).rejects.toThrow('限流')
+    expect(sleep).not.toHaveBeenCalled()
+  })
+
+  it('流式请求只在输出第一个分片之前重试', async () => {
+    const sleep = vi.fn(async () => {})
+    let calls = 0
+    async function* flaky() {
+      calls++
+      if (calls === 1) throw new HTTPStatusError('服务错误', 500)
+      yield '夏天'
+      throw new HTTPStatusError('服务错误', 500)
+    }
+
+    const chunks: string[] = []
+    await expect((async () => {
+      for await (const chunk of withStreamRetry(flaky, { sleep })) chunks.push(chunk)
+    })()).rejects.toThrow('服务错误')
+    expect(calls).toBe(2)
+    expect(chunks).toEqual(['夏天'])
+  })
+
+  it('连续失败后应该熔断，冷却后试探成功则恢复', () => {
+    let now = 0
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 1000, now: () => now })
+    const listener = vi.fn()
+    breaker.subscribe(listener)
+
+    breaker.recordFailure()
+    expect(breaker.canRequest()).toBe(true)
+    breaker.recordFailure()
+    expect(breaker.state).toBe('open')
+    expect(breaker.canRequest()).toBe(false)
+
+    now = 1000
+    expect(breaker.state).toBe('half-open')
+    breaker.recordFailure()
+    expect(breaker.state).toBe('open')
+
+    now = 2000
+    breaker.recordSuccess()
+    expect(breaker.state).toBe('closed')
+    expect(listener.mock.calls).toEqual([['open'], ['closed']])
+  })
+
+  it('half-open 时只放行一个试探请求，记录结果或让出名额后才放行下一个', () => {
+    let now = 0
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 1000, now: () => now })
+    breaker.recordFailure()
+    now = 1000
+
+    expect(breaker.tryRequest()).toBe(true)
+    expect(breaker.canRequest()).toBe(false)
+    expect(breaker.tryRequest()).toBe(false)
+
+    breaker.release()
+    expect(breaker.tryRequest()).toBe(true)
+    breaker.recordSuccess()
+    expect(breaker.state).toBe('closed')
+    expect(breaker.tryRequest()).toBe(true)
+    expect(breaker.tryRequest()).toBe(true)
+  })
+})
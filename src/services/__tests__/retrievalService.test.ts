@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { retrievalService } from '../retrievalService'
+import { ragService, standardInfoRagService } from '../ragService'
+import { offlineService } from '../offlineService'
+
+const { tables, table } = vi.hoisted(() => {
+  const tables = {
+    documents: [] as Array<Record<string, unknown>>,
+    standard_info: [] as Array<Record<string, unknown>>
+  }
+  // 只实现检索用到的 where().equals().toArray()
+  const table = (name: keyof typeof tables) => ({
+    where: (field: string) => ({
+      equals: (value: string) => ({
+        toArray: async () => tables[name].filter(row => row[field] === value)
+      })
+    })
+  })
+  return { tables, table }
+})
+
+vi.mock('../offlineService', () => ({
+  offlineDB: {
+    documents: table('documents'),
+    standard_info: table('standard_info')
+  },
+  offlineService: {
+    isOnline: vi.fn(() => true)
+  }
+}))
+
+vi.mock('../ragService', async () => {
+  const { chunkText } = await import('../documentChunker')
+  return {
+    ragService: {
+      searchSimilarDocuments: vi.fn(),
+      chunkDocument: vi.fn(async (documentId: string, content: string) =>
+        chunkText(content).map((chunk, index) => ({ document_id: documentId, content: chunk.content, chunk_index: index }))
+      )
+    },
+    standardInfoRagService: {
+      searchSimilarStandardInfo: vi.fn()
+    }
+  }
+})
+
+const scope = { userId: 'u1', projectId: 'p1' }
+
+describe('retrievalService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(offlineService.isOnline).mockReturnValue(true)
+    tables.documents = [
+      { id: 'd1', project_id: 'p1', title: '夏季文案', content: '<p>夏季系列采用轻质面料，透气清凉。</p>', local_updated_at: '1' },
+      { id: 'd2', project_id: 'p1', title: '办公文案', content: '<p>GadgetPro X 专为专业人士打造。</p>', local_updated_at: '1' },
+      { id: 'd3', project_id: 'p2', title: '其他项目', content: '<p>夏季系列全新上市，轻质面料。</p>', local_updated_at: '1' }
+    ]
+    tables.standard_info = [
+      { id: 's1', user_id: 'u1', category: '品牌', content: '简约，不简单。', local_updated_at: '1' }
+    ]
+  })
+
+  it('在线时应该合并文档分块和标准信息，重排后取前 topK 条', async () => {
+    vi.mocked(ragService.searchSimilarDocuments).mockResolvedValue([
+      { id: 'c1', content: '文档片段一', document_title: '夏季文案', similarity: 0.8 },
+      { id: 'c2', content: '文档片段二', document_title: '夏季文案', similarity: 0.72 }
+    ])
+    vi.mocked(standardInfoRagService.searchSimilarStandardInfo).mockResolvedValue([
+      { id: 's1', content: '简约，不简单。', category: '品牌', similarity: 0.9 }
+    ])
+
+    const chunks = await retrievalService.retrieve('夏季系列', scope, 2)
+
+    expect(ragService.searchSimilarDocuments).toHaveBeenCalledWith('夏季系列', 'u1', 6, undefined, 'p1')
+    expect(chunks.map(chunk => [chunk.id, chunk.source, chunk.label])).toEqual([
+      ['s1', 'standard_info', '品牌'],
+      ['c1', 'document', '夏季文案']
+    ])
+  })
+
+  it('在线检索到的富文本条目也转为纯文本', async () => {
+    vi.mocked(ragService.searchSimilarDocuments).mockResolvedValue([])
+    vi.mocked(standardInfoRagService.searchSimilarStandardInfo).mockResolvedValue([
+      { id: 's2', content: '<p><strong>简约</strong>，不简单。</p><ul><li>轻&amp;薄</li></ul>', category: '品牌', similarity: 0.9 }
+    ])
+
+    const [brand] = await retrievalService.retrieve('简约', scope)
+
+    expect(brand).toMatchObject({ id: 's2', content: '简约，不简单。\n- 轻&薄' })
+  })
+
+  it('在线检索失败时应该改用本地索引', async () => {
+    vi.mocked(ragService.searchSimilarDocuments).mockRejectedValue(new Error('network'))
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const chunks = await retrievalService.retrieve('轻质面料', scope)
+
+    expect(chunks[0]).toMatchObject({ id: 'd1:0', source: 'document', label: '夏季文案' })
+  })
+
+  it('离线时应该只检索当前项目的文档和用户的标准信息', async () => {
+    vi.mocked(offlineService.isOnline).mockReturnValue(false)
+
+    const chunks = await retrievalService.retrieve('夏季系列的面料', scope)
+
+    expect(ragService.searchSimilarDocuments).not.toHaveBeenCalled()
+    expect(chunks.map(chunk => chunk.id)).toEqual(['d1:0'])
+    expect(chunks[0].content).toBe('夏季系列采用轻质面料，透气清凉。')
+
+    const brand = await retrievalService.retrieve('简约设计', scope)
+    expect(brand.map(chunk => chunk.id)).toEqual(['s1'])
+  })
+
+  it('离线索引中的富文本条目按纯文本检索和返回', async () => {
+    vi.mocked(offlineService.isOnline).mockReturnValue(false)
+    tables.standard_info = [
+      { id: 's2', user_id: 'u1', category: '品牌', content: '<p><strong>简约</strong>，不简单。</p>', local_updated_at: '2' }
+    ]
+
+    expect(await retrievalService.retrieve('strong', scope)).toEqual([])
+    const [brand] = await retrievalService.retrieve('简约设计', scope)
+    // 行内标签不拆开文字，与分块和生成向量时的纯文本一致
+    expect(brand).toMatchObject({ id: 's2', content: '简约，不简单。' })
+  })
+})
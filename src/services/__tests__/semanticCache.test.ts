@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest'
+import { SemanticCompletionCache } from '../semanticCache'
+import { LocalVectorStore, type VectorRecord, type VectorStorage } from '../vectorStore'
+
+const memoryStorage = (initial: VectorRecord[] = []): VectorStorage & { records: Map<string, VectorRecord> } => {
+  const records = new Map(initial.map(record => [record.id, record]))
+  return {
+    records,
+    load: async () => [...records.values()],
+    put: async items => { items.forEach(item => records.set(item.id, item)) },
+    delete: async ids => { ids.forEach(id => records.delete(id)) },
+    clear: async () => { records.clear() }
+  }
+}
+
+describe('SemanticCompletionCache', () => {
+  it('应该只命中足够相似且同一命名空间的提示词', async () => {
+    const cache = new SemanticCompletionCache(new LocalVectorStore(memoryStorage()), { enabled: true })
+    await cache.remember('c1', 'p1', '迎接全新夏季系列')
+
+    expect(await cache.lookup('p1', '迎接全新的夏季系列')).toMatchObject({ id: 'c1' })
+    expect(await cache.lookup('p1', '迎接全新冬季系列')).toBeNull()
+    expect(await cache.lookup('p2', '迎接全新夏季系列')).toBeNull()
+  })
+
+  it('关闭时不应该计算向量', async () => {
+    const embed = vi.fn(async () => [1])
+    const cache = new SemanticCompletionCache(new LocalVectorStore(memoryStorage()), { embed })
+
+    await cache.remember('c1', 'p1', '迎接全新夏季系列')
+
+    expect(await cache.lookup('p1', '迎接全新夏季系列')).toBeNull()
+    expect(embed).not.toHaveBeenCalled()
+  })
+
+  it('应该从持久化存储恢复向量，更换向量模型后清空', async () => {
+    const storage = memoryStorage([{ id: 'c1', namespace: 'p1', vector: [1, 0], created_at: '2024-01-01T00:00:00.000Z' }])
+    const cache = new SemanticCompletionCache(new LocalVectorStore(storage), { enabled: true, embed: async () => [1, 0] })
+
+    expect(await cache.lookup('p1', '任意')).toMatchObject({ id: 'c1', score: 1 })
+
+    await cache.configure({ embed: async () => [0, 1] })
+    expect(storage.records.size).toBe(0)
+    expect(await cache.lookup('p1', '任意')).toBeNull()
+  })
+})
@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest'
+import { highlightSnippet, queryTerms } from '../snippetHighlighter'
+
+const render = (segments: ReturnType<typeof highlightSnippet>) =>
+  segments.map(segment => (segment.highlighted ? `[${segment.text}]` : segment.text)).join('')
+
+describe('snippetHighlighter', () => {
+  it('应该把连续中文拆成相邻两字，英文按空白拆分', () => {
+    expect(queryTerms('夏季新品 GadgetPro')).toEqual(['gadgetpro', '夏季', '季新', '新品'])
+    expect(queryTerms('羊毛, a')).toEqual(['羊毛'])
+  })
+
+  it('应该高亮匹配的部分并合并相邻的匹配', () => {
+    expect(render(highlightSnippet('全新夏季新品上市，GadgetPro 同步发售。', '夏季新品 gadgetpro'))).toBe(
+      '全新[夏季新品]上市，[GadgetPro] 同步发售。'
+    )
+  })
+
+  it('内容过长时应该截取匹配最密集的一段', () => {
+    const content = `${'开头的介绍文字。'.repeat(10)}秋季新品采用羊毛混纺，羊毛含量高。${'结尾的说明文字。'.repeat(10)}`
+    const snippet = render(highlightSnippet(content, '羊毛', 40))
+
+    expect(snippet.startsWith('…')).toBe(true)
+    expect(snippet.endsWith('…')).toBe(true)
+    expect(snippet).toContain('采用[羊毛]混纺，[羊毛]含量高')
+    expect(snippet.replace(/[[\]…]/g, '')).toHaveLength(40)
+  })
+})
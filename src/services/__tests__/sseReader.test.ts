@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { SSEParser, readChatCompletionStream, readServerSentEvents } from '../sseReader'
+
+// 按给定的分段返回响应体，模拟网络把事件拆到多次读取中
+const bodyOf = (parts: string[]) => {
+  const encoder = new TextEncoder()
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      parts.forEach(part => controller.enqueue(encoder.encode(part)))
+      controller.close()
+    }
+  })
+}
+
+const collect = async <T>(stream: AsyncGenerator<T>) => {
+  const items: T[] = []
+  for await (const item of stream) items.push(item)
+  return items
+}
+
+describe('sseReader', () => {
+  it('应该拼接跨两次读取的行，并支持多行 data 和 event、id、retry 字段', () => {
+    const parser = new SSEParser()
+
+    expect(parser.push('event: update\nid: 7\nretry: 3000\nda')).toEqual([])
+    expect(parser.push('ta: 第一行\ndata:第二行\n\n')).toEqual([
+      { event: 'update', data: '第一行\n第二行', id: '7', retry: 3000 }
+    ])
+    // id 和 retry 会沿用到之后的事件，event 只对当前事件有效
+    expect(parser.push('data: 下一条\n\n')).toEqual([
+      { event: 'message', data: '下一条', id: '7', retry: 3000 }
+    ])
+  })
+
+  it('应该忽略心跳注释，并正确处理被拆开的 \\r\\n', () => {
+    const parser = new SSEParser()
+
+    expect(parser.push(': ping\r\n\r\ndata: a\r')).toEqual([])
+    expect(parser.push('\ndata: b\r\n\r\n')).toEqual([{ event: 'message', data: 'a\nb', id: undefined, retry: undefined }])
+  })
+
+  it('流结束时应该派发缺少结尾空行的事件', async () => {
+    const events = await collect(readServerSentEvents(bodyOf(['data: 1\n\n', 'data: 2'])))
+
+    expect(events.map(event => event.data)).toEqual(['1', '2'])
+  })
+
+  it('应该按 OpenAI 格式产出内容，拆开的多字节字符也能正确解码', async () => {
+    const bytes = new TextEncoder().encode('data: {"choices":[{"delta":{"content":"清凉一夏"}}]}\n\n')
+    const encoder = new TextEncoder()
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        // 在一个汉字的 UTF-8 编码中间拆开
+        controller.enqueue(bytes.slice(0, 40))
+        controller.enqueue(bytes.slice(40))
+        controller.enqueue(encoder.encode(': keep-alive\n\ndata: [DONE]\n\ndata: {"choices":[{"delta":{"content":"不应出现"}}]}\n\n'))
+        controller.close()
+      }
+    })
+
+    expect(await collect(readChatCompletionStream(body))).toEqual(['清凉一夏'])
+  })
+
+  it('error 事件应该转为异常', async () => {
+    const body = bodyOf(['data: {"choices":[{"delta":{"content":"轻盈"}}]}\n\n', 'event: error\ndata: {"error":"AI 生成失败"}\n\n'])
+    const chunks: string[] = []
+
+    await expect(async () => {
+      for await (const chunk of readChatCompletionStream(body)) chunks.push(chunk)
+    }).rejects.toThrow('流式响应出错: AI 生成失败')
+    expect(chunks).toEqual(['轻盈'])
+  })
+
+  it('signal 中止后应该停止读取并正常结束', async () => {
+    const controller = new AbortController()
+    const encoder = new TextEncoder()
+    const body = new ReadableStream<Uint8Array>({
+      start(stream) {
+        stream.enqueue(encoder.encode('data: {"choices":[{"delta":{"content":"轻盈"}}]}\n\n'))
+        // 之后不再发送数据，也不关闭
+      }
+    })
+    const chunks: string[] = []
+
+    for await (const chunk of readChatCompletionStream(body, controller.signal)) {
+      chunks.push(chunk)
+      controller.abort()
+    }
+    expect(chunks).toEqual(['轻盈'])
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest'
+import { percentile, summarizeCompletionEvents, telemetryService } from '../telemetryService'
+import type { CompletionEventRecord } from '../offlineService'
+
+const { events } = vi.hoisted(() => ({ events: [] as CompletionEventRecord[] }))
+
+// 只实现记录和按时间清除事件用到的 add 和 where('created_at').below().delete()
+vi.mock('../offlineService', () => ({
+  offlineDB: {
+    completion_events: {
+      add: async (record: CompletionEventRecord) => {
+        events.push(record)
+      },
+      where: () => ({
+        below: (before: string) => ({
+          delete: async () => {
+            events.splice(0, events.length, ...events.filter(record => record.created_at >= before))
+          }
+        })
+      })
+    }
+  }
+}))
+
+const event = (overrides: Partial<CompletionEventRecord>): CompletionEventRecord => ({
+  id: Math.random().toString(36),
+  project_id: 'p1',
+  document_id: 'd1',
+  source: 'ai',
+  outcome: 'ignored',
+  latency_ms: 0,
+  suggestion_length: 10,
+  accepted_length: 0,
+  created_at: '2025-06-01T00:00:00.000Z',
+  ...overrides
+})
+
+describe('telemetryService', () => {
+  it('应该按最近邻秩法计算百分位', () => {
+    const values = [100, 200, 300, 400, 500, 600, 700, 800, 900, 1000]
+
+    expect(percentile(values, 50)).toBe(500)
+    expect(percentile(values, 95)).toBe(1000)
+    expect(percentile([], 50)).toBe(0)
+  })
+
+  it('应该汇总接受率并按来源分别统计', () => {
+    const stats = summarizeCompletionEvents([
+      event({ source: 'exact', outcome: 'accepted', latency_ms: 1, accepted_length: 8 }),
+      event({ source: 'ai', outcome: 'accepted', latency_ms: 400, accepted_length: 3 }),
+      event({ source: 'ai', outcome: 'dismissed', latency_ms: 600 }),
+      event({ source: 'ai', outcome: 'ignored', latency_ms: 900 })
+    ])
+
+    expect(stats).toMatchObject({ total: 4, accepted: 2, dismissed: 1, ignored: 1, acceptanceRate: 0.5, acceptedChars: 11 })
+    expect(stats.bySource.exact).toMatchObject({ total: 1, acceptanceRate: 1 })
+    expect(stats.bySource.ai?.latency).toEqual({ p50: 600, p95: 900 })
+    expect(stats.bySource.cache).toBeUndefined()
+  })
+
+  it('记录事件时清除 90 天前的事件，一天内只清除一次', async () => {
+    const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+    const input = { projectId: 'p1', documentId: 'd1', source: 'ai' as const, outcome: 'accepted' as const, latencyMs: 300, suggestionLength: 10, acceptedLength: 10 }
+    events.push(event({ id: 'old', created_at: daysAgo(100) }), event({ id: 'recent', created_at: daysAgo(10) }))
+
+    await telemetryService.recordCompletionEvent(input)
+    expect(events.map(record => record.id)).toEqual(['recent', expect.stringMatching(/^completion_/)])
+
+    events.push(event({ id: 'old-2', created_at: daysAgo(100) }))
+    await telemetryService.recordCompletionEvent(input)
+    expect(events.map(record => record.id)).toContain('old-2')
+  })
+})
@@ -0,0 +1,234 @@
+// 补全结果的内存缓存：按项目分命名空间，条目数和字节数超限时淘汰最久未使用的条目
+
+export interface CompletionCache {
+  id: string
+  // 项目 ID，没有项目时为 GLOBAL_NAMESPACE
+  namespace: string
+  prompt: string
+  context?: string
+  response: string
+  language?: string
+  createdAt: Date
+  expiresAt: Date
+  lastAccessedAt: Date
+}
+
+export interface CompletionCacheOptions {
+  maxEntries: number
+  // 按 UTF-16 字符串长度估算，每个字符 2 字节
+  maxBytes: number
+  ttlMs: number
+}
+
+export interface CompletionCacheStats {
+  total: number
+  expired: number
+  bytes: number
+  hits: number
+  misses: number
+  // 没有查询过时为 0
+  hitRate: number
+  evictions: number
+  // 每个命名空间的条目数
+  namespaces: Record<string, number>
+}
+
+export const GLOBAL_NAMESPACE = '__global__'
+
+export const DEFAULT_COMPLETION_CACHE_OPTIONS: CompletionCacheOptions = {
+  maxEntries: 500,
+  maxBytes: 2 * 1024 * 1024,
+  ttlMs: 24 * 60 * 60 * 1000
+}
+
+export const namespaceOf = (projectId?: string | null) => projectId || GLOBAL_NAMESPACE
+
+export const cacheEntryId = (namespace: string, key: string) => `${namespace}:${key}`
+
+const entrySize = (entry: CompletionCache) =>
+  (entry.id.length + entry.prompt.length + (entry.context?.length ?? 0) + entry.response.length) * 2
+
+// IndexedDB 中的旧数据可能把日期存成了字符串，无法解析时返回 null
+const toDate = (value: unknown): Date | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : date
+  }
+  return null
+}
+
+// 从存储中读出的数据恢复为缓存条目，缺少必要字段时返回 null
+export const reviveCacheEntry = (value: unknown): CompletionCache | null => {
+  if (!value || typeof value !== 'object') return null
+  const data = value as Record<string, unknown>
+  if (typeof data.id !== 'string' || typeof data.prompt !== 'string' || typeof data.response !== 'string') return null
+
+  const createdAt = toDate(data.createdAt)
+  const expiresAt = toDate(data.expiresAt)
+  if (!createdAt || !expiresAt) return null
+
+  return {
+    id: data.id,
+    namespace: typeof data.namespace === 'string' ? data.namespace : GLOBAL_NAMESPACE,
+    prompt: data.prompt,
+    context: typeof data.context === 'string' ? data.context : undefined,
+    response: data.response,
+    language: typeof data.language === 'string' ? data.language : undefined,
+    createdAt,
+    expiresAt,
+    lastAccessedAt: toDate(data.lastAccessedAt) ?? createdAt
+  }
+}
+
+export class LRUCompletionCache {
+  // Map 保持插入顺序，最久未使用的条目在最前面
+  private entries = new Map<string, CompletionCache>()
+  private bytes = 0
+  private hits = 0
+  private misses = 0
+  private evictions = 0
+  private options: CompletionCacheOptions
+
+  constructor(options: Partial<CompletionCacheOptions> = {}, private now: () => number = Date.now) {
+    this.options = { ...DEFAULT_COMPLETION_CACHE_OPTIONS, ...options }
+  }
+
+  get ttlMs() {
+    return this.options.ttlMs
+  }
+
+  get size() {
+    return this.entries.size
+  }
+
+  // 返回因新的限制被淘汰的条目 ID
+  configure(options: Partial<CompletionCacheOptions>): string[] {
+    this.options = { ...this.options, ...options }
+    return this.evict()
+  }
+
+  // 命中时把条目移到最近使用的位置；过期条目按未命中处理并删除
+  get(id: string): CompletionCache | null {
+    const entry = this.touch(id)
+    if (entry) this.hits++
+    else this.misses++
+    return entry
+  }
+
+  // 与 get 相同，但不计入命中统计；用于语义缓存找到的条目，它的精确匹配已经记为未命中
+  touch(id: string): CompletionCache | null {
+    const entry = this.entries.get(id)
+    if (!entry || entry.expiresAt.getTime() <= this.now()) {
+      if (entry) this.remove(id)
+      return null
+    }
+
+    this.entries.delete(id)
+    entry.lastAccessedAt = new Date(this.now())
+    this.entries.set(id, entry)
+    return entry
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id)
+  }
+
+  // 返回被淘汰的条目 ID，调用方据此清理持久化存储；单个条目超过 maxBytes 时自身也会被淘汰
+  set(entry: CompletionCache): string[] {
+    this.remove(entry.id)
+    this.entries.set(entry.id, entry)
+    this.bytes += entrySize(entry)
+    return this.evict()
+  }
+
+  // 恢复持久化的条目：跳过已过期的，按最近使用时间重建淘汰顺序
+  hydrate(entries: CompletionCache[]): string[] {
+    const now = this.now()
+    const stale: string[] = []
+    const sorted = [...entries].sort((a, b) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime())
+
+    for (const entry of sorted) {
+      if (entry.expiresAt.getTime() <= now) {
+        stale.push(entry.id)
+        continue
+      }
+      // 内存中已有更新的结果时以内存为准
+      if (this.entries.has(entry.id)) continue
+      this.entries.set(entry.id, entry)
+      this.bytes += entrySize(entry)
+    }
+
+    // 恢复的条目比内存中的旧，淘汰时优先考虑
+    const recent = [...this.entries.entries()].sort(([, a], [, b]) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime())
+    this.entries = new Map(recent)
+    return [...stale, ...this.evict()]
+  }
+
+  delete(id: string): boolean {
+    return this.remove(id)
+  }
+
+  // 删除命名空间中的全部条目，返回被删除的 ID
+  invalidateNamespace(namespace: string): string[] {
+    const ids = [...this.entries.values()].filter(entry => entry.namespace === namespace).map(entry => entry.id)
+    ids.forEach(id => this.remove(id))
+    return ids
+  }
+
+  pruneExpired(): string[] {
+    const now = this.now()
+    const ids = [...this.entries.values()].filter(entry => entry.expiresAt.getTime() <= now).map(entry => entry.id)
+    ids.forEach(id => this.remove(id))
+    return ids
+  }
+
+  clear() {
+    this.entries.clear()
+    this.bytes = 0
+  }
+
+  stats(): CompletionCacheStats {
+    const now = this.now()
+    const namespaces: Record<string, number> = {}
+    let expired = 0
+
+    for (const entry of this.entries.values()) {
+      if (entry.expiresAt.getTime() <= now) expired++
+      namespaces[entry.namespace] = (namespaces[entry.namespace] ?? 0) + 1
+    }
+
+    const lookups = this.hits + this.misses
+    return {
+      total: this.entries.size,
+      expired,
+      bytes: this.bytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups === 0 ? 0 : this.hits / lookups,
+      evictions: this.evictions,
+      namespaces
+    }
+  }
+
+  private remove(id: string): boolean {
+    const entry = this.entries.get(id)
+    if (!entry) return false
+    this.entries.delete(id)
+    this.bytes -= entrySize(entry)
+    return true
+  }
+
+  private evict(): string[] {
+    const evicted: string[] = []
+    const { maxEntries, maxBytes } = this.options
+
+    for (const id of this.entries.keys()) {
+      if (this.entries.size <= maxEntries && this.bytes <= maxBytes) break
+      this.remove(id)
+      evicted.push(id)
+      this.evictions++
+    }
+    return evicted
+  }
+}
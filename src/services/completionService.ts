@@ -1,9 +1,40 @@
 import { supabase } from './supabaseClient'
 import { offlineService } from './offlineService'
+import { readChatCompletionStream } from './sseReader'
+import {
+  cacheEntryId,
+  LRUCompletionCache,
+  namespaceOf,
+  reviveCacheEntry,
+  type CompletionCache,
+  type CompletionCacheOptions,
+  type CompletionCacheStats
+} from './completionCache'
+import { SemanticCompletionCache, type SemanticCacheOptions } from './semanticCache'
+import { LocalVectorStore } from './vectorStore'
+import { offlineModelService } from './offlineModelService'
+import { estimateTokens } from './llmService'
+import {
+  aiCircuitBreaker,
+  AIUnavailableError,
+  HTTPStatusError,
+  isRetryableError,
+  parseRetryAfter,
+  withRetry,
+  type CircuitState
+} from './resilience'
+import type { ContextUsage } from '../../services/contextPacker'
+
+export type { CompletionCache, CompletionCacheOptions, CompletionCacheStats } from './completionCache'
+export type { SemanticCacheOptions } from './semanticCache'
 
 export interface CompletionRequest {
   prompt: string
   context?: string
+  // 服务端只检索该项目的文档，不传时检索用户的全部项目
+  projectId?: string
+  // 提示词模板，可以是预设模板或项目的自定义模板；不传或找不到时使用默认模板
+  templateId?: string
   language?: string
   maxTokens?: number
   temperature?: number
@@ -16,21 +47,26 @@ export interface CompletionResponse {
     promptTokens: number
     completionTokens: number
     totalTokens: number
+    // 提示词中各部分占用的 token 和预算，由服务端打包上下文时统计
+    context?: ContextUsage
   }
 }
 
-export interface CompletionCache {
-  id: string
-  prompt: string
-  context?: string
-  response: string
-  language?: string
-  createdAt: Date
-  expiresAt: Date
+export interface CompletionServiceCacheStats extends CompletionCacheStats {
+  // 精确匹配未命中、由语义缓存命中的次数
+  semanticHits: number
 }
 
 class CompletionService {
-  private cache: Map<string, CompletionCache> = new Map()
+  private cache = new LRUCompletionCache()
+  // 默认关闭，通过 configureSemanticCache 开启
+  private semanticCache = new SemanticCompletionCache(new LocalVectorStore({
+    load: () => offlineService.getCompletionVectors(),
+    put: records => offlineService.saveCompletionVectors(records),
+    delete: ids => offlineService.deleteCompletionVectors(ids),
+    clear: () => offlineService.clearCompletionVectors()
+  }))
+  private semanticHits = 0
   private pendingRequests: Map<string, Promise<CompletionResponse>> = new Map()
   private abortControllers: Map<string, AbortController> = new Map()
 
@@ -41,10 +77,11 @@ class CompletionService {
 
   private async loadCacheFromStorage() {
     try {
-      const cachedCompletions = await offlineService.getCachedCompletions() as unknown as CompletionCache[]
-      cachedCompletions.forEach(item => {
-        this.cache.set(item.id, item)
-      })
+      const records = await offlineService.getCachedCompletions()
+      const entries = records
+        .map(record => reviveCacheEntry(record.data))
+        .filter((entry): entry is CompletionCache => entry !== null)
+      this.removeFromStorage(this.cache.hydrate(entries))
     } catch (error) {
       console.warn('Failed to load completion cache:', error)
     }
@@ -58,19 +95,35 @@ class CompletionService {
   }
 
   private cleanupExpiredCache() {
-    const now = new Date()
-    for (const [key, cache] of this.cache.entries()) {
-      if (cache.expiresAt <= now) {
-        this.cache.delete(key)
-      }
-    }
+    this.removeFromStorage(this.cache.pruneExpired())
+  }
+
+  private removeFromStorage(ids: string[]) {
+    if (ids.length === 0) return
+    offlineService.deleteCachedCompletions(ids).catch(error => {
+      console.warn('Failed to delete completion cache:', error)
+    })
+    this.semanticCache.forget(ids).catch(error => {
+      console.warn('Failed to delete completion vectors:', error)
+    })
   }
 
+  // 缓存键包含项目命名空间，不同项目的检索结果不同，不能共用补全结果
   private generateCacheKey(request: CompletionRequest): string {
+    return cacheEntryId(namespaceOf(request.projectId), this.hashRequest(request))
+  }
+
+  // 语义缓存只在上下文、语言和长度都相同的请求之间比较提示词
+  private semanticNamespace(request: CompletionRequest): string {
+    return cacheEntryId(namespaceOf(request.projectId), this.hashRequest({ ...request, prompt: '' }))
+  }
+
+  private hashRequest(request: CompletionRequest): string {
     const keyData = {
       prompt: request.prompt.trim(),
       context: request.context?.trim(),
       language: request.language,
+      templateId: request.templateId,
       maxTokens: request.maxTokens
     }
     try {
@@ -98,53 +151,130 @@ class CompletionService {
 
   private async getCachedCompletion(key: string): Promise<CompletionResponse | null> {
     const cache = this.cache.get(key)
-    if (cache && cache.expiresAt > new Date()) {
+    if (!cache) return null
+
+    // 持久化最近使用时间，刷新页面后仍按使用顺序淘汰
+    this.saveCacheToStorage(cache)
+    return {
+      text: cache.response,
+      usage: undefined
+    }
+  }
+
+  private async getSimilarCompletion(request: CompletionRequest): Promise<CompletionResponse | null> {
+    if (!this.semanticCache.enabled) return null
+    try {
+      const match = await this.semanticCache.lookup(this.semanticNamespace(request), request.prompt)
+      // 向量对应的条目可能已被淘汰；语义命中只计入 semanticHits，不再计入精确匹配的命中率
+      const cache = match ? this.cache.touch(match.id) : null
+      if (!cache) return null
+
+      this.semanticHits++
       return {
         text: cache.response,
         usage: undefined
       }
+    } catch (error) {
+      console.warn('Failed to search semantic cache:', error)
+      return null
     }
-    return null
   }
 
   private async saveCompletionCache(key: string, request: CompletionRequest, response: CompletionResponse) {
+    const now = new Date()
     const cache: CompletionCache = {
       id: key,
+      namespace: namespaceOf(request.projectId),
       prompt: request.prompt,
       context: request.context,
       response: response.text,
       language: request.language,
-      createdAt: new Date(),
-      expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000) // 24小时过期
+      createdAt: now,
+      expiresAt: new Date(now.getTime() + this.cache.ttlMs),
+      lastAccessedAt: now
     }
-    
-    this.cache.set(key, cache)
+
+    this.removeFromStorage(this.cache.set(cache))
+    if (!this.cache.has(key)) return
+
     await this.saveCacheToStorage(cache)
+    if (this.semanticCache.enabled) {
+      await this.semanticCache.remember(key, this.semanticNamespace(request), request.prompt).catch(error => {
+        console.warn('Failed to save completion vector:', error)
+      })
+    }
+  }
+
+  // 补全请求有意经由服务端 /api/completion，而不是直接调用 llmService：
+  // 服务端按请求的 projectId 读取工作区的模型设置，同样通过 createLLMProvider 调用模型，服务端的 API Key 不会下发到浏览器
+  // 429 和 5xx 自动重试；重试后仍失败计入熔断，熔断期间不再请求，只使用缓存
+  private async postCompletion(body: Record<string, unknown>, signal?: AbortSignal): Promise<Response> {
+    if (!aiCircuitBreaker.tryRequest()) {
+      throw new AIUnavailableError()
+    }
+
+    try {
+      const response = await withRetry(async () => {
+        const response = await fetch('/api/completion', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
+          },
+          body: JSON.stringify(body),
+          signal
+        })
+
+        if (!response.ok) {
+          const error = await response.text()
+          throw new HTTPStatusError(`API请求失败: ${error}`, response.status, parseRetryAfter(response.headers.get('Retry-After')))
+        }
+        return response
+      }, { signal })
+      aiCircuitBreaker.recordSuccess()
+      return response
+    } catch (error) {
+      if (!signal?.aborted && isRetryableError(error)) {
+        aiCircuitBreaker.recordFailure()
+      } else {
+        aiCircuitBreaker.release()
+      }
+      throw error
+    }
+  }
+
+  // 本地 n-gram 模型的续写，没有离线数据或没有把握时返回 null
+  private async generateOfflineCompletion(request: CompletionRequest): Promise<CompletionResponse | null> {
+    try {
+      // 离线时 getUser 需要联网，从本地会话读取用户
+      const userId = (await supabase.auth.getSession()).data.session?.user?.id
+      if (!userId) return null
+
+      const text = await offlineModelService.complete(request.prompt, { userId, projectId: request.projectId ?? null }, { maxLength: request.maxTokens })
+      if (!text) return null
+      const promptTokens = estimateTokens(request.prompt)
+      const completionTokens = estimateTokens(text)
+      return { text, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } }
+    } catch (error) {
+      console.warn('Failed to generate offline completion:', error)
+      return null
+    }
   }
 
   private async makeAPIRequest(request: CompletionRequest, signal?: AbortSignal): Promise<CompletionResponse> {
+    if (!offlineService.isOnline()) {
+      throw new AIUnavailableError('网络不可用')
+    }
+
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) {
       throw new Error('用户未登录')
     }
 
-    const response = await fetch('/api/completion', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
-      },
-      body: JSON.stringify({
-        ...request,
-        userId: user.id
-      }),
-      signal
-    })
-
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`API请求失败: ${error}`)
-    }
+    const response = await this.postCompletion({
+      ...request,
+      userId: user.id
+    }, signal)
 
     const result = await response.json()
     return result
@@ -159,8 +289,8 @@ class CompletionService {
       return pendingRequest
     }
 
-    // 检查缓存
-    const cachedResponse = await this.getCachedCompletion(cacheKey)
+    // 检查缓存，精确匹配未命中时再查找相似的提示词
+    const cachedResponse = await this.getCachedCompletion(cacheKey) ?? await this.getSimilarCompletion(request)
     if (cachedResponse) {
       return cachedResponse
     }
@@ -175,6 +305,13 @@ class CompletionService {
         this.saveCompletionCache(cacheKey, request, response)
         return response
       })
+      .catch(async error => {
+        // 离线或模型服务不可用时改用本地 n-gram 模型；它的结果质量较低，不写入缓存
+        if (abortController.signal.aborted || !(error instanceof AIUnavailableError || isRetryableError(error))) throw error
+        const offline = await this.generateOfflineCompletion(request)
+        if (!offline) throw error
+        return offline
+      })
       .finally(() => {
         // 清理请求状态
         this.pendingRequests.delete(cacheKey)
@@ -185,70 +322,56 @@ class CompletionService {
     return requestPromise
   }
 
-  async generateStreamCompletion(request: CompletionRequest, onChunk: (chunk: string) => void): Promise<void> {
+  // signal 中止或调用 cancelCompletion 后停止读取并正常返回，已收到的部分不写入缓存
+  async generateStreamCompletion(request: CompletionRequest, onChunk: (chunk: string) => void, signal?: AbortSignal): Promise<void> {
+    const cacheKey = this.generateCacheKey(request)
+    if (signal?.aborted) return
+
+    // 离线或熔断期间依次使用缓存和本地 n-gram 模型，都没有结果时由调用方显示“AI 暂不可用”
+    if (!offlineService.isOnline() || !aiCircuitBreaker.canRequest()) {
+      const fallback = await this.getCachedCompletion(cacheKey)
+        ?? await this.getSimilarCompletion(request)
+        ?? await this.generateOfflineCompletion(request)
+      if (!fallback) throw new AIUnavailableError()
+      if (!signal?.aborted) onChunk(fallback.text)
+      return
+    }
+
     const { data: { user } } = await supabase.auth.getUser()
     if (!user) {
       throw new Error('用户未登录')
     }
 
-    const response = await fetch('/api/completion', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${(await supabase.auth.getSession()).data.session?.access_token}`
-      },
-      body: JSON.stringify({
+    const abortController = new AbortController()
+    const onAbort = () => abortController.abort()
+    signal?.addEventListener('abort', onAbort)
+    this.abortControllers.set(cacheKey, abortController)
+
+    try {
+      const response = await this.postCompletion({
         ...request,
         stream: true,
         userId: user.id
-      })
-    })
+      }, abortController.signal)
 
-    if (!response.ok) {
-      const error = await response.text()
-      throw new Error(`API请求失败: ${error}`)
-    }
-
-    const reader = response.body?.getReader()
-    if (!reader) {
-      throw new Error('无法读取响应流')
-    }
-
-    const decoder = new TextDecoder()
-    let fullText = ''
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        const chunk = decoder.decode(value, { stream: true })
-        const lines = chunk.split('\n')
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6)
-            if (data === '[DONE]') continue
-            
-            try {
-              const parsed = JSON.parse(data)
-              if (parsed.choices?.[0]?.delta?.content) {
-                const content = parsed.choices[0].delta.content
-                fullText += content
-                onChunk(content)
-              }
-            } catch {
-              // 忽略解析错误
-            }
-          }
-        }
+      let fullText = ''
+      for await (const content of readChatCompletionStream(response.body, abortController.signal)) {
+        fullText += content
+        onChunk(content)
       }
 
       // 保存完整的流式响应到缓存
-      const cacheKey = this.generateCacheKey(request)
-      await this.saveCompletionCache(cacheKey, request, { text: fullText })
+      if (!abortController.signal.aborted) {
+        await this.saveCompletionCache(cacheKey, request, { text: fullText })
+      }
+    } catch (error) {
+      if (abortController.signal.aborted) return
+      throw error
     } finally {
-      reader.releaseLock()
+      signal?.removeEventListener('abort', onAbort)
+      if (this.abortControllers.get(cacheKey) === abortController) {
+        this.abortControllers.delete(cacheKey)
+      }
     }
   }
 
@@ -270,26 +393,46 @@ class CompletionService {
     }
   }
 
+  // 调整缓存上限，超出新上限的条目立即淘汰
+  configureCache(options: Partial<CompletionCacheOptions>): void {
+    this.removeFromStorage(this.cache.configure(options))
+  }
+
+  // closed 以外的状态表示模型服务暂不可用，补全只来自缓存
+  getStatus(): CircuitState {
+    return aiCircuitBreaker.state
+  }
+
+  onStatusChange(listener: (state: CircuitState) => void): () => void {
+    return aiCircuitBreaker.subscribe(listener)
+  }
+
+  // 开启或调整语义缓存，例如改用模型的向量接口：configureSemanticCache({ enabled: true, embed })
+  async configureSemanticCache(options: Partial<SemanticCacheOptions>): Promise<void> {
+    await this.semanticCache.configure(options)
+  }
+
+  // 项目的文档或设置变化后，丢弃该项目下的补全结果
+  invalidateProject(projectId?: string | null): void {
+    this.removeFromStorage(this.cache.invalidateNamespace(namespaceOf(projectId)))
+  }
+
+  // 标准信息属于用户而不是单个项目，每个项目的检索结果都可能引用它，因此清空全部命名空间
+  invalidateStandardInfo(): void {
+    this.clearCache()
+  }
+
   clearCache(): void {
     this.cache.clear()
     offlineService.clearCachedCompletions()
+    this.semanticCache.clear().catch(error => {
+      console.warn('Failed to clear completion vectors:', error)
+    })
   }
 
-  getCacheStats(): { total: number; expired: number } {
-    const now = new Date()
-    let expired = 0
-    
-    for (const cache of this.cache.values()) {
-      if (cache.expiresAt <= now) {
-        expired++
-      }
-    }
-
-    return {
-      total: this.cache.size,
-      expired
-    }
+  getCacheStats(): CompletionServiceCacheStats {
+    return { ...this.cache.stats(), semanticHits: this.semanticHits }
   }
 }
 
-export const completionService = new CompletionService()
\ No newline at end of file
+export const completionService = new CompletionService()
@@ -1,6 +1,17 @@
 import { supabase } from './supabaseClient'
+import { completionService } from './completionService'
+import { standardInfoRagService } from './ragService'
 import type { Insert, Update } from '../types'
 
+// 后台生成标准信息向量结束后通知订阅者，例如刷新知识库列表中的向量状态
+const embeddingListeners = new Set<(id: string) => void>()
+
+const embedInBackground = (info: { id: string; title?: string | null; content: string; updated_at?: string | null }) => {
+  standardInfoRagService.embedStandardInfo([info])
+    .catch(error => console.error('生成标准信息向量失败:', error))
+    .finally(() => embeddingListeners.forEach(listener => listener(info.id)))
+}
+
 // 项目相关的数据访问
 export const projectService = {
   // 获取用户的所有项目
@@ -182,27 +193,43 @@ export const standardInfoService = {
   async createStandardInfo(info: Insert<'standard_info'>) {
     const { data, error } = await supabase
       .from('standard_info')
-      .insert(info)
+      .insert({ ...info, embedding_status: 'pending' })
       .select()
       .single()
     
     if (error) throw error
+    completionService.invalidateStandardInfo()
+    // 向量在后台生成，不阻塞保存；进度见 embedding_status
+    embedInBackground(data)
     return data
   },
 
   // 更新标准信息
   async updateStandardInfo(id: string, updates: Update<'standard_info'>) {
+    // 标题或正文变化后原有向量失效，重新生成
+    const needsEmbedding = updates.title !== undefined || updates.content !== undefined
     const { data, error } = await supabase
       .from('standard_info')
-      .update(updates)
+      .update(needsEmbedding ? { ...updates, embedding_status: 'pending' } : updates)
       .eq('id', id)
       .select()
       .single()
     
     if (error) throw error
+    completionService.invalidateStandardInfo()
+    // 按本次保存的 updated_at 写入向量，之后又有修改时由新的任务更新
+    if (needsEmbedding) embedInBackground(data)
     return data
   },
 
+  // 订阅后台向量生成的结束（成功、失败或因条目已被修改而放弃），返回取消订阅的函数
+  subscribeEmbedding(listener: (id: string) => void) {
+    embeddingListeners.add(listener)
+    return () => {
+      embeddingListeners.delete(listener)
+    }
+  },
+
   // 删除标准信息（软删除）
   async deleteStandardInfo(id: string) {
     const { error } = await supabase
@@ -211,6 +238,7 @@ export const standardInfoService = {
       .eq('id', id)
     
     if (error) throw error
+    completionService.invalidateStandardInfo()
     return true
   }
 }
@@ -237,6 +265,25 @@ export const userConfigService = {
       .select()
       .single()
     
+    if (error) throw error
+    return data
+  },
+
+  // 获取用户偏好设置（user_configs.preferences）
+  async getPreferences(userId: string): Promise<Record<string, unknown>> {
+    const config = await this.getUserConfig(userId)
+    return config?.preferences ?? {}
+  },
+
+  // 按顶层键合并更新用户偏好设置，未提及的键保持不变
+  async updatePreferences(userId: string, preferences: Record<string, unknown>) {
+    const current = await this.getPreferences(userId)
+    const { data, error } = await supabase
+      .from('user_configs')
+      .upsert({ user_id: userId, preferences: { ...current, ...preferences } }, { onConflict: 'user_id' })
+      .select()
+      .single()
+
     if (error) throw error
     return data
   }
@@ -0,0 +1,227 @@
+// 文档分块：先把编辑器的 HTML（或上传的纯文本、Markdown）转换为由标题、段落、列表项组成的结构化文本，
+// 再按中英文句子边界组合成分块。标题是章节边界，分块不会跨越标题，并记录所在的标题路径。
+// 分块中的偏移量都是相对于结构化文本（每个块一行）的字符位置
+
+export type TextBlockType = 'heading' | 'paragraph' | 'list_item'
+
+export interface TextBlock {
+  type: TextBlockType
+  text: string
+  // 标题为 1-6 级，列表项为嵌套深度，段落为 0
+  level: number
+}
+
+export interface StructuredText {
+  text: string
+  blocks: Array<TextBlock & { start: number; end: number }>
+}
+
+export interface TextChunk {
+  content: string
+  start_index: number
+  end_index: number
+  heading_path: string[]
+}
+
+export interface ChunkOptions {
+  chunkSize?: number
+  chunkOverlap?: number
+}
+
+// 中文句末标点总是分句；英文句末标点只有后面跟空白时才算，避免切断 5.5 或网址
+const SENTENCE_END = /[。！？…\n]+[”’"')）】」』》]*|[.!?]+[”’"')）]*(?=\s)\s*/g
+
+// 按句子拆分，每句保留句末标点和其后的引号、括号，拼接后与原文相同
+export const splitSentences = (text: string): string[] => {
+  const sentences: string[] = []
+  let start = 0
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length
+    sentences.push(text.slice(start, end))
+    start = end
+  }
+  if (start < text.length) sentences.push(text.slice(start))
+  return sentences
+}
+
+const ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' }
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+  if (name[0] === '#') {
+    const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+    return isNaN(code) ? entity : String.fromCodePoint(code)
+  }
+  return ENTITIES[name.toLowerCase()] ?? entity
+})
+
+// 这些标签的开始和结束都意味着换块
+const BLOCK_TAGS = new Set(['p', 'div', 'li', 'blockquote', 'pre', 'tr', 'br', 'hr', 'section', 'article', 'table'])
+const HEADING_TAG = /^h([1-6])$/
+const TOKEN = /<!--[\s\S]*?-->|<(\/?)([a-zA-Z][a-zA-Z0-9]*)[^>]*>|[^<]+|</g
+
+export const isHtml = (content: string) => /<\/?[a-z][a-z0-9]*(\s[^>]*)?\/?>/i.test(content)
+
+// 不依赖 DOM，服务端和测试环境中同样可用；Tiptap 输出的 HTML 结构简单，不需要完整的解析器
+export const htmlToBlocks = (html: string): TextBlock[] => {
+  const blocks: TextBlock[] = []
+  let buffer = ''
+  let type: TextBlockType = 'paragraph'
+  let level = 0
+  let listDepth = 0
+
+  const flush = () => {
+    const text = decodeEntities(buffer).replace(/\s+/g, ' ').trim()
+    if (text) blocks.push({ type, text, level })
+    buffer = ''
+    type = 'paragraph'
+    level = 0
+  }
+
+  for (const [token, closing, rawTag] of html.matchAll(TOKEN)) {
+    if (token.startsWith('<!--')) continue
+    if (!rawTag) {
+      buffer += token === '<' ? '&lt;' : token
+      continue
+    }
+
+    const tag = rawTag.toLowerCase()
+    const heading = HEADING_TAG.exec(tag)
+    if (tag === 'ul' || tag === 'ol') {
+      flush()
+      listDepth = Math.max(0, listDepth + (closing ? -1 : 1))
+    } else if (heading) {
+      flush()
+      if (!closing) {
+        type = 'heading'
+        level = Number(heading[1])
+      }
+    } else if (BLOCK_TAGS.has(tag)) {
+      // 列表项里的段落和换行（<li><p>…</p></li>）仍属于该列表项
+      if (type === 'list_item' && tag !== 'li') {
+        buffer += ' '
+        continue
+      }
+      flush()
+      if (tag === 'li' && !closing) {
+        type = 'list_item'
+        level = Math.max(1, listDepth)
+      }
+    } else if (tag === 'td' || tag === 'th') {
+      buffer += ' '
+    }
+  }
+  flush()
+
+  return blocks
+}
+
+const MARKDOWN_HEADING = /^(#{1,6})\s+(.*)$/
+const MARKDOWN_LIST_ITEM = /^(\s*)(?:[-*+•]|\d+[.)、])\s+(.*)$/
+
+// 纯文本按行处理，识别 Markdown 的标题和列表
+export const plainTextToBlocks = (text: string): TextBlock[] => {
+  const blocks: TextBlock[] = []
+  for (const line of text.split(/\r?\n/)) {
+    if (!line.trim()) continue
+    const heading = MARKDOWN_HEADING.exec(line.trim())
+    const listItem = MARKDOWN_LIST_ITEM.exec(line)
+    if (heading) {
+      blocks.push({ type: 'heading', text: heading[2].trim(), level: heading[1].length })
+    } else if (listItem) {
+      blocks.push({ type: 'list_item', text: listItem[2].trim(), level: Math.floor(listItem[1].length / 2) + 1 })
+    } else {
+      blocks.push({ type: 'paragraph', text: line.trim(), level: 0 })
+    }
+  }
+  return blocks
+}
+
+const LIST_MARKER = '- '
+
+// 每个块一行，列表项保留“- ”标记，让分块内容仍能看出列表结构
+export const toStructuredText = (content: string): StructuredText => {
+  const blocks = isHtml(content) ? htmlToBlocks(content) : plainTextToBlocks(content)
+  let text = ''
+  const positioned = blocks.map(block => {
+    if (text) text += '\n'
+    const line = block.type === 'list_item' ? LIST_MARKER + block.text : block.text
+    const start = text.length
+    text += line
+    return { ...block, start, end: text.length }
+  })
+  return { text, blocks: positioned }
+}
+
+// 建立索引、训练本地模型和拼接提示词共用的纯文本，与分块内容的格式一致；编辑器内部的匹配另见 tiptap/richSuggestion 的 toPlainText
+export const toModelText = (content: string) => toStructuredText(content).text
+
+interface Span {
+  start: number
+  end: number
+}
+
+// 把块拆成句子，去掉句子两端的空白；超长的句子按 chunkSize 硬切
+const sentenceSpans = (text: string, block: Span, chunkSize: number): Span[] => {
+  const spans: Span[] = []
+  let offset = block.start
+  for (const sentence of splitSentences(text.slice(block.start, block.end))) {
+    const leading = sentence.length - sentence.trimStart().length
+    const trimmed = sentence.trim()
+    const start = offset + leading
+    offset += sentence.length
+    for (let i = 0; i < trimmed.length; i += chunkSize) {
+      spans.push({ start: start + i, end: start + Math.min(trimmed.length, i + chunkSize) })
+    }
+  }
+  return spans
+}
+
+// 在一个章节内组合句子：尽量多放整句，下一个分块从末尾不超过 chunkOverlap 的几句开始
+const packSection = (spans: Span[], chunkSize: number, chunkOverlap: number): Span[] => {
+  const chunks: Span[] = []
+  let i = 0
+  while (i < spans.length) {
+    let j = i
+    while (j + 1 < spans.length && spans[j + 1].end - spans[i].start <= chunkSize) j++
+    chunks.push({ start: spans[i].start, end: spans[j].end })
+    if (j === spans.length - 1) break
+
+    let next = j + 1
+    while (next - 1 > i && spans[j].end - spans[next - 1].start <= chunkOverlap) next--
+    i = next
+  }
+  return chunks
+}
+
+export const chunkText = (content: string, { chunkSize = 1000, chunkOverlap = 200 }: ChunkOptions = {}): TextChunk[] => {
+  const { text, blocks } = toStructuredText(content)
+  const chunks: TextChunk[] = []
+  const headings: Array<{ level: number; text: string }> = []
+  let section: Span[] = []
+
+  const flushSection = () => {
+    const headingPath = headings.map(heading => heading.text)
+    for (const span of packSection(section, chunkSize, chunkOverlap)) {
+      chunks.push({
+        content: text.slice(span.start, span.end),
+        start_index: span.start,
+        end_index: span.end,
+        heading_path: headingPath
+      })
+    }
+    section = []
+  }
+
+  for (const block of blocks) {
+    if (block.type === 'heading') {
+      flushSection()
+      while (headings.length && headings[headings.length - 1].level >= block.level) headings.pop()
+      headings.push({ level: block.level, text: block.text })
+      continue
+    }
+    section.push(...sentenceSpans(text, block, chunkSize))
+  }
+  flushSection()
+
+  return chunks
+}
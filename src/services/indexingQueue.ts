@@ -0,0 +1,172 @@
+import { ragService } from './ragService'
+import { offlineService } from './offlineService'
+
+// 文档向量索引的后台队列：编辑时只记录最新内容并推迟到期时间，用户停止输入一段时间后才重新分块和生成向量。
+// 队列保存在 IndexedDB 中，刷新页面后继续处理；离线时暂停，恢复联网后继续
+
+export interface IndexingTask {
+  document_id: string
+  // 入队时的文档内容，同一文档只保留最新的一次
+  content: string
+  // 到期时间（毫秒时间戳）
+  due_at: number
+  attempts: number
+  last_error: string | null
+  // 每次入队加一，处理期间文档又被修改时不会误删新任务
+  revision: number
+}
+
+// 持久化接口，默认实现见 offlineService，测试中替换为内存实现
+export interface IndexingQueueStorage {
+  list(): Promise<IndexingTask[]>
+  get(documentId: string): Promise<IndexingTask | undefined>
+  put(task: IndexingTask): Promise<void>
+  delete(documentId: string): Promise<void>
+}
+
+export interface IndexingQueueOptions {
+  // 最后一次修改后等待多久再建立索引
+  debounceMs?: number
+  // 首次失败后的重试间隔，之后每次翻倍
+  retryDelayMs?: number
+  maxAttempts?: number
+  isOnline?: () => boolean
+  now?: () => number
+}
+
+// 网络错误：fetch 抛出的 TypeError，或 Supabase 客户端捕获后以错误对象返回的同一错误
+const isNetworkError = (error: unknown) => {
+  if (error instanceof TypeError) return true
+  const message = (error as { message?: unknown } | null)?.message
+  return typeof message === 'string' && /Failed to fetch|NetworkError|Load failed/i.test(message)
+}
+
+export class IndexingQueue {
+  private timer: ReturnType<typeof setTimeout> | null = null
+  private running: Promise<void> | null = null
+  private started = false
+  private debounceMs: number
+  private retryDelayMs: number
+  private maxAttempts: number
+  private isOnline: () => boolean
+  private now: () => number
+
+  constructor(
+    private storage: IndexingQueueStorage,
+    private index: (documentId: string, content: string) => Promise<unknown>,
+    { debounceMs = 5000, retryDelayMs = 30_000, maxAttempts = 5, isOnline = () => true, now = Date.now }: IndexingQueueOptions = {}
+  ) {
+    this.debounceMs = debounceMs
+    this.retryDelayMs = retryDelayMs
+    this.maxAttempts = maxAttempts
+    this.isOnline = isOnline
+    this.now = now
+  }
+
+  // 开始处理，包括上次关闭页面前没有完成的任务
+  start() {
+    this.started = true
+    return this.schedule()
+  }
+
+  stop() {
+    this.started = false
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+  }
+
+  // 未同步的文档（temp_ 开头）还没有服务端 ID，同步后再入队
+  async enqueue(documentId: string, content: string) {
+    if (documentId.startsWith('temp_')) return
+    const existing = await this.storage.get(documentId)
+    await this.storage.put({
+      document_id: documentId,
+      content,
+      due_at: this.now() + this.debounceMs,
+      attempts: 0,
+      last_error: null,
+      revision: (existing?.revision ?? 0) + 1
+    })
+    await this.schedule()
+  }
+
+  // 处理所有到期的任务；离线时不处理，等待恢复联网后再次调用
+  async process() {
+    if (!this.isOnline()) return
+    if (!this.running) {
+      this.running = this.processDue().finally(() => {
+        this.running = null
+      })
+    }
+    await this.running
+    await this.schedule()
+  }
+
+  private async processDue() {
+    const now = this.now()
+    const due = (await this.storage.list()).filter(task => task.due_at <= now)
+
+    for (const task of due) {
+      try {
+        await this.index(task.document_id, task.content)
+        const current = await this.storage.get(task.document_id)
+        if (current?.revision === task.revision) await this.storage.delete(task.document_id)
+      } catch (error) {
+        const current = await this.storage.get(task.document_id)
+        // 处理期间文档又被修改，按新内容重新处理
+        if (current?.revision !== task.revision) continue
+
+        // Supabase 返回的错误不是 Error 实例，同样取 message
+        const lastError = String((error as { message?: unknown } | null)?.message ?? error)
+        // 断网导致的失败不计入重试次数，否则离线一段时间后任务会被放弃；恢复联网后按原间隔重试
+        if (!this.isOnline() || isNetworkError(error)) {
+          await this.storage.put({ ...task, last_error: lastError, due_at: this.now() + this.retryDelayMs })
+          continue
+        }
+
+        const attempts = task.attempts + 1
+        if (attempts >= this.maxAttempts) {
+          console.warn(`文档 ${task.document_id} 建立索引失败，已放弃:`, error)
+          await this.storage.delete(task.document_id)
+          continue
+        }
+        await this.storage.put({
+          ...task,
+          attempts,
+          last_error: lastError,
+          due_at: this.now() + this.retryDelayMs * 2 ** (attempts - 1)
+        })
+      }
+    }
+  }
+
+  // 按最早到期的任务设置定时器
+  private async schedule() {
+    if (!this.started) return
+    const tasks = await this.storage.list()
+    if (!this.started) return
+    if (this.timer) clearTimeout(this.timer)
+    this.timer = null
+
+    const next = Math.min(...tasks.map(task => task.due_at))
+    if (!Number.isFinite(next)) return
+    this.timer = setTimeout(() => {
+      this.timer = null
+      // 定时器中没有调用方处理错误，读取队列失败时记录下来，等下次入队或恢复联网时重试
+      this.process().catch(error => {
+        console.error('处理索引队列失败:', error)
+      })
+    }, Math.max(0, next - this.now()))
+  }
+}
+
+export const indexingQueue = new IndexingQueue(
+  {
+    list: () => offlineService.getIndexingTasks(),
+    get: documentId => offlineService.getIndexingTask(documentId),
+    put: task => offlineService.saveIndexingTask(task),
+    delete: documentId => offlineService.deleteIndexingTask(documentId)
+  },
+  (documentId, content) => ragService.storeDocumentChunks(documentId, content),
+  { isOnline: () => offlineService.isOnline() }
+)
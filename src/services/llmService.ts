@@ -0,0 +1,391 @@
+import { GoogleGenAI } from '@google/genai'
+import { readChatCompletionStream } from './sseReader'
+import { HTTPStatusError, parseRetryAfter } from './resilience'
+
+// local 是离线时自动使用的 n-gram 模型（见 ngramModel），不能在设置中选择
+export type LLMProviderId = 'gemini' | 'openai' | 'mock' | 'local'
+
+export interface LLMUsage {
+  promptTokens: number
+  completionTokens: number
+  totalTokens: number
+}
+
+export interface LLMGenerateOptions {
+  maxTokens?: number
+  temperature?: number
+  signal?: AbortSignal
+}
+
+export interface LLMGeneration {
+  text: string
+  usage?: LLMUsage
+}
+
+// 模型厂商的统一接口，补全和向量检索都只通过它调用模型
+export interface LLMProvider {
+  readonly id: LLMProviderId
+  // 缺少 API Key 等必要配置时为 false，调用方据此降级
+  readonly available: boolean
+  // 上下文窗口的 token 数，用于分配提示词预算
+  readonly contextWindow: number
+  // 生成向量的模型，形如 openai:text-embedding-3-small，随向量保存；不同模型的向量不可比较
+  readonly embeddingModel: string
+  generate(prompt: string, options?: LLMGenerateOptions): Promise<LLMGeneration>
+  stream(prompt: string, options?: LLMGenerateOptions): AsyncGenerator<string>
+  // 批量生成向量，维度固定为 EMBEDDING_DIMENSIONS，与 document_chunks.embedding 一致
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>
+  // 本地估算 token 数，不发起请求
+  countTokens(text: string): number
+}
+
+export const EMBEDDING_DIMENSIONS = 1536
+
+// 中日韩文字大约一字一个 token，其余字符按四个一个 token 估算
+export const estimateTokens = (text: string) => {
+  const cjk = text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g)?.length ?? 0
+  return cjk + Math.ceil((text.length - cjk) / 4)
+}
+
+// 常用模型的上下文窗口；未列出的模型（例如自建服务）按较小的窗口处理
+const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gemini-2.5-flash': 1_048_576,
+  'gemini-2.5-pro': 1_048_576,
+  'gpt-4o': 128_000,
+  'gpt-4o-mini': 128_000
+}
+const DEFAULT_CONTEXT_WINDOW = 8192
+
+export const contextWindowOf = (model: string) => MODEL_CONTEXT_WINDOWS[model] ?? DEFAULT_CONTEXT_WINDOW
+
+const estimateUsage = (prompt: string, text: string): LLMUsage => {
+  const promptTokens = estimateTokens(prompt)
+  const completionTokens = estimateTokens(text)
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens }
+}
+
+export interface GeminiProviderOptions {
+  apiKey?: string
+  model?: string
+  embeddingModel?: string
+}
+
+export const createGeminiProvider = ({
+  apiKey,
+  model = 'gemini-2.5-flash',
+  embeddingModel = 'gemini-embedding-001'
+}: GeminiProviderOptions): LLMProvider => {
+  const ai = apiKey ? new GoogleGenAI({ apiKey }) : null
+  const client = () => {
+    if (!ai) throw new Error('Gemini API Key 未配置')
+    return ai
+  }
+
+  return {
+    id: 'gemini',
+    available: ai !== null,
+    contextWindow: contextWindowOf(model),
+    embeddingModel: `gemini:${embeddingModel}`,
+
+    async generate(prompt, { maxTokens, temperature, signal } = {}) {
+      const response = await client().models.generateContent({
+        model,
+        contents: prompt,
+        config: { maxOutputTokens: maxTokens, temperature, abortSignal: signal }
+      })
+      const text = response.text ?? ''
+      const usage = response.usageMetadata
+      return {
+        text,
+        usage: usage
+          ? {
+              promptTokens: usage.promptTokenCount ?? 0,
+              completionTokens: usage.candidatesTokenCount ?? 0,
+              totalTokens: usage.totalTokenCount ?? 0
+            }
+          : estimateUsage(prompt, text)
+      }
+    },
+
+    async *stream(prompt, { maxTokens, temperature, signal } = {}) {
+      const responseStream = await client().models.generateContentStream({
+        model,
+        contents: prompt,
+        config: { maxOutputTokens: maxTokens, temperature, abortSignal: signal }
+      })
+      for await (const chunk of responseStream) {
+        if (chunk.text) yield chunk.text
+      }
+    },
+
+    async embed(texts, signal) {
+      if (!texts.length) return []
+      const response = await client().models.embedContent({
+        model: embeddingModel,
+        contents: texts,
+        config: { outputDimensionality: EMBEDDING_DIMENSIONS, abortSignal: signal }
+      })
+      return (response.embeddings ?? []).map(embedding => embedding.values ?? [])
+    },
+
+    countTokens: estimateTokens
+  }
+}
+
+export interface OpenAICompatibleProviderOptions {
+  apiKey?: string
+  // 任何实现了 /chat/completions 和 /embeddings 的服务，例如自建的 vLLM、Ollama
+  baseUrl?: string
+  model?: string
+  embeddingModel?: string
+}
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1'
+
+export const createOpenAICompatibleProvider = ({
+  apiKey,
+  baseUrl = DEFAULT_OPENAI_BASE_URL,
+  model = 'gpt-4o-mini',
+  embeddingModel = 'text-embedding-3-small'
+}: OpenAICompatibleProviderOptions): LLMProvider => {
+  const root = baseUrl.replace(/\/+$/, '')
+
+  const post = async (path: string, body: Record<string, unknown>, signal?: AbortSignal) => {
+    const response = await fetch(`${root}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify(body),
+      signal
+    })
+
+    if (!response.ok) {
+      throw new HTTPStatusError(`OpenAI API error: ${response.status}`, response.status, parseRetryAfter(response.headers.get('Retry-After')))
+    }
+    return response
+  }
+
+  return {
+    id: 'openai',
+    // 官方接口必须有 API Key，自建服务通常不需要
+    available: Boolean(apiKey) || root !== DEFAULT_OPENAI_BASE_URL,
+    contextWindow: contextWindowOf(model),
+    embeddingModel: `openai:${embeddingModel}`,
+
+    async generate(prompt, { maxTokens, temperature, signal } = {}) {
+      const response = await post('/chat/completions', {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: maxTokens,
+        temperature
+      }, signal)
+      const data = await response.json()
+      const text: string = data.choices?.[0]?.message?.content ?? ''
+      return {
+        text,
+        usage: data.usage
+          ? {
+              promptTokens: data.usage.prompt_tokens ?? 0,
+              completionTokens: data.usage.completion_tokens ?? 0,
+              totalTokens: data.usage.total_tokens ?? 0
+            }
+          : estimateUsage(prompt, text)
+      }
+    },
+
+    async *stream(prompt, { maxTokens, temperature, signal } = {}) {
+      const response = await post('/chat/completions', {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        max_tokens: maxTokens,
+        temperature,
+        stream: true
+      }, signal)
+
+      yield* readChatCompletionStream(response.body, signal)
+    },
+
+    async embed(texts, signal) {
+      if (!texts.length) return []
+      const response = await post('/embeddings', {
+        model: embeddingModel,
+        input: texts,
+        dimensions: EMBEDDING_DIMENSIONS,
+        encoding_format: 'float'
+      }, signal)
+      const data = await response.json()
+      return (data.data as Array<{ index: number; embedding: number[] }>)
+        .sort((a, b) => a.index - b.index)
+        .map(item => item.embedding)
+    },
+
+    countTokens: estimateTokens
+  }
+}
+
+const hashString = (text: string) => {
+  let hash = 0
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) - hash + text.charCodeAt(i)) | 0
+  }
+  return Math.abs(hash)
+}
+
+// hashEmbedding 生成的向量，模拟模型和本地模型共用
+export const HASH_EMBEDDING_MODEL = 'local:hash'
+
+// 按相邻两字的哈希计数并归一化，字面相近的文本向量也相近；不联网，可用于离线的相似度比较
+export const hashEmbedding = (text: string, dimensions = EMBEDDING_DIMENSIONS) => {
+  const vector = new Array<number>(dimensions).fill(0)
+  const normalized = text.toLowerCase()
+  for (let i = 0; i < normalized.length; i++) {
+    vector[hashString(normalized.slice(i, i + 2)) % dimensions] += 1
+  }
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1
+  return vector.map(value => value / norm)
+}
+
+export interface MockProviderOptions {
+  // 固定的回复，或根据提示词生成回复；默认回复包含提示词的哈希，同一提示词结果不变
+  response?: string | ((prompt: string) => string)
+  // 流式输出时每次产出的字数
+  chunkSize?: number
+}
+
+// 不联网、结果确定的模型，用于测试和离线演示
+export const createMockProvider = ({ response, chunkSize = 4 }: MockProviderOptions = {}): LLMProvider => {
+  const respond = (prompt: string) => {
+    if (typeof response === 'function') return response(prompt)
+    return response ?? `（模拟建议 ${hashString(prompt).toString(36)}）`
+  }
+
+  return {
+    id: 'mock',
+    available: true,
+    contextWindow: DEFAULT_CONTEXT_WINDOW,
+    embeddingModel: HASH_EMBEDDING_MODEL,
+
+    async generate(prompt, { signal } = {}) {
+      signal?.throwIfAborted()
+      const text = respond(prompt)
+      return { text, usage: estimateUsage(prompt, text) }
+    },
+
+    async *stream(prompt, { signal } = {}) {
+      const text = respond(prompt)
+      for (let i = 0; i < text.length; i += chunkSize) {
+        if (signal?.aborted) return
+        yield text.slice(i, i + chunkSize)
+      }
+    },
+
+    async embed(texts) {
+      return texts.map(text => hashEmbedding(text))
+    },
+
+    countTokens: estimateTokens
+  }
+}
+
+// 工作区的模型设置，保存在 projects.metadata.llm 中；API Key 只从环境变量读取，不写入数据库
+export interface LLMSettings {
+  // 生成补全使用的模型
+  provider: LLMProviderId
+  // 生成向量使用的模型，切换后已有的向量需要重新生成
+  embeddingProvider: LLMProviderId
+  // 以下三项只对 OpenAI 兼容接口生效，留空时使用默认值
+  baseUrl: string
+  model: string
+  embeddingModel: string
+}
+
+// 与引入统一接口之前的行为一致：Gemini 生成补全，OpenAI 生成向量
+export const DEFAULT_LLM_SETTINGS: LLMSettings = {
+  provider: 'gemini',
+  embeddingProvider: 'openai',
+  baseUrl: DEFAULT_OPENAI_BASE_URL,
+  model: '',
+  embeddingModel: ''
+}
+
+const PROVIDER_IDS: LLMProviderId[] = ['gemini', 'openai', 'mock']
+
+const isProviderId = (value: unknown): value is LLMProviderId =>
+  PROVIDER_IDS.includes(value as LLMProviderId)
+
+export const normalizeLLMSettings = (value: unknown): LLMSettings => {
+  const settings = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof LLMSettings, unknown>>
+  const text = (field: unknown, fallback: string) => (typeof field === 'string' ? field.trim() : fallback)
+
+  return {
+    provider: isProviderId(settings.provider) ? settings.provider : DEFAULT_LLM_SETTINGS.provider,
+    embeddingProvider: isProviderId(settings.embeddingProvider) ? settings.embeddingProvider : DEFAULT_LLM_SETTINGS.embeddingProvider,
+    baseUrl: text(settings.baseUrl, DEFAULT_LLM_SETTINGS.baseUrl),
+    model: text(settings.model, DEFAULT_LLM_SETTINGS.model),
+    embeddingModel: text(settings.embeddingModel, DEFAULT_LLM_SETTINGS.embeddingModel)
+  }
+}
+
+export interface LLMApiKeys {
+  gemini?: string
+  openai?: string
+}
+
+// 浏览器中由 Vite 注入；服务端没有这些变量，需要显式传入 API Key
+const defaultApiKeys = (): LLMApiKeys => ({
+  gemini: process.env.API_KEY,
+  openai: import.meta.env?.VITE_OPENAI_API_KEY
+})
+
+export const isDefaultOpenAIBaseUrl = (baseUrl: string) =>
+  !baseUrl || baseUrl.replace(/\/+$/, '') === DEFAULT_OPENAI_BASE_URL
+
+// 环境变量中的 OpenAI Key 只发给官方接口，设置中填写的其他地址不附带，避免密钥被发往任意服务
+export const createLLMProvider = (
+  id: LLMProviderId,
+  settings: LLMSettings = DEFAULT_LLM_SETTINGS,
+  apiKeys: LLMApiKeys = defaultApiKeys()
+): LLMProvider => {
+  switch (id) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        apiKey: isDefaultOpenAIBaseUrl(settings.baseUrl) ? apiKeys.openai : undefined,
+        baseUrl: settings.baseUrl || undefined,
+        model: settings.model || undefined,
+        embeddingModel: settings.embeddingModel || undefined
+      })
+    case 'mock':
+      return createMockProvider()
+    default:
+      return createGeminiProvider({ apiKey: apiKeys.gemini })
+  }
+}
+
+let generationProvider: LLMProvider | null = null
+let embeddingProvider: LLMProvider | null = null
+
+// 当前使用的模型，按当前工作区的模型设置切换
+export const llmService = {
+  getProvider(): LLMProvider {
+    generationProvider ??= createLLMProvider(DEFAULT_LLM_SETTINGS.provider)
+    return generationProvider
+  },
+
+  getEmbeddingProvider(): LLMProvider {
+    embeddingProvider ??= createLLMProvider(DEFAULT_LLM_SETTINGS.embeddingProvider)
+    return embeddingProvider
+  },
+
+  configure(settings: LLMSettings) {
+    generationProvider = createLLMProvider(settings.provider, settings)
+    embeddingProvider = createLLMProvider(settings.embeddingProvider, settings)
+  },
+
+  // 直接指定模型，主要用于测试
+  setProviders(providers: { generation?: LLMProvider; embedding?: LLMProvider }) {
+    if (providers.generation) generationProvider = providers.generation
+    if (providers.embedding) embeddingProvider = providers.embedding
+  }
+}
@@ -0,0 +1,117 @@
+import { estimateTokens, hashEmbedding, HASH_EMBEDDING_MODEL, type LLMProvider } from './llmService'
+
+// 本地的字级 n-gram 模型，用用户自己的文档和标准信息训练，离线时代替大模型续写。
+// 中文没有空格分词，按字统计；续写时用最长的已知上下文挑选最常见的下一个字，到句末标点为止
+
+export interface NgramContinueOptions {
+  // 最多续写的字数
+  maxLength?: number
+}
+
+export const DEFAULT_NGRAM_ORDER = 5
+// 上下文至少两个字，只凭一个字预测的结果基本不通顺，宁可不给建议
+const MIN_CONTEXT = 2
+const DEFAULT_MAX_LENGTH = 40
+const SENTENCE_END = /[。！？!?]/
+
+export class NgramModel {
+  // 上下文 → 下一个字 → 出现次数，上下文长度为 MIN_CONTEXT 到 order - 1
+  private counts = new Map<string, Map<string, number>>()
+  private trainedChars = 0
+
+  constructor(readonly order = DEFAULT_NGRAM_ORDER) {}
+
+  get size() {
+    return this.trainedChars
+  }
+
+  // 按段落训练，段落之间的内容不会被当作上下文；weight 用于提高当前项目文档的比重
+  train(text: string, weight = 1) {
+    for (const paragraph of text.split(/\n+/)) {
+      const chars = Array.from(paragraph.trim())
+      this.trainedChars += chars.length
+      for (let i = MIN_CONTEXT; i < chars.length; i++) {
+        for (let n = MIN_CONTEXT; n < this.order && n <= i; n++) {
+          const context = chars.slice(i - n, i).join('')
+          let next = this.counts.get(context)
+          if (!next) {
+            next = new Map()
+            this.counts.set(context, next)
+          }
+          next.set(chars[i], (next.get(chars[i]) ?? 0) + weight)
+        }
+      }
+    }
+  }
+
+  // 从最长的上下文开始查找，找不到时逐级缩短
+  private predict(chars: string[]): string | null {
+    for (let n = Math.min(this.order - 1, chars.length); n >= MIN_CONTEXT; n--) {
+      const next = this.counts.get(chars.slice(chars.length - n).join(''))
+      if (!next) continue
+
+      let best: string | null = null
+      let bestCount = 0
+      for (const [char, count] of next) {
+        if (count > bestCount) {
+          best = char
+          bestCount = count
+        }
+      }
+      return best
+    }
+    return null
+  }
+
+  // 返回续写的内容，没有把握时返回空字符串
+  continue(prefix: string, { maxLength = DEFAULT_MAX_LENGTH }: NgramContinueOptions = {}): string {
+    const chars = Array.from(prefix.trimEnd())
+    const output: string[] = []
+    // 同一个上下文再次出现说明进入了循环
+    const seen = new Set<string>()
+
+    while (output.length < maxLength) {
+      const state = chars.slice(-(this.order - 1)).join('')
+      if (seen.has(state)) break
+      seen.add(state)
+
+      const next = this.predict(chars)
+      if (!next) break
+      chars.push(next)
+      output.push(next)
+      if (SENTENCE_END.test(next)) break
+    }
+
+    return output.join('')
+  }
+}
+
+// 把 n-gram 模型包装成模型接口：提示词就是要续写的原文，模型不理解指令
+export const createNgramProvider = (model: NgramModel, { chunkSize = 4 }: { chunkSize?: number } = {}): LLMProvider => ({
+  id: 'local',
+  available: true,
+  contextWindow: 8192,
+  embeddingModel: HASH_EMBEDDING_MODEL,
+
+  async generate(prompt, { maxTokens, signal } = {}) {
+    signal?.throwIfAborted()
+    const text = model.continue(prompt, { maxLength: maxTokens })
+    const promptTokens = estimateTokens(prompt)
+    const completionTokens = estimateTokens(text)
+    return { text, usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens } }
+  },
+
+  async *stream(prompt, { maxTokens, signal } = {}) {
+    const text = model.continue(prompt, { maxLength: maxTokens })
+    for (let i = 0; i < text.length; i += chunkSize) {
+      if (signal?.aborted) return
+      yield text.slice(i, i + chunkSize)
+    }
+  },
+
+  async embed(texts) {
+    return texts.map(text => hashEmbedding(text))
+  },
+
+  countTokens: estimateTokens
+})
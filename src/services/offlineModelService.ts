@@ -0,0 +1,48 @@
+import { offlineDB } from './offlineService'
+import type { RetrievalScope } from './retrievalService'
+import { toModelText } from './documentChunker'
+import { createNgramProvider, NgramModel, type NgramContinueOptions } from './ngramModel'
+import type { LLMProvider } from './llmService'
+
+// 当前项目的文档更能代表要续写的文案风格，训练时加大比重
+const PROJECT_DOCUMENT_WEIGHT = 3
+
+// 模型按范围缓存，离线数据变化（条数或最后修改时间）后重新训练
+const models = new Map<string, { signature: string; model: NgramModel }>()
+
+// 离线续写服务 - 用 OfflineDatabase 中用户的文档和标准信息训练 n-gram 模型
+export const offlineModelService = {
+  async getModel(scope: RetrievalScope): Promise<NgramModel> {
+    const [documents, standardInfo] = await Promise.all([
+      offlineDB.documents.where('user_id').equals(scope.userId).toArray(),
+      offlineDB.standard_info.where('user_id').equals(scope.userId).toArray()
+    ])
+    const liveDocuments = documents.filter(document => !document.deleted_at)
+
+    const signature = [...liveDocuments, ...standardInfo]
+      .map(item => `${item.id}:${item.local_updated_at}`)
+      .sort()
+      .join('|')
+    const key = `${scope.userId}:${scope.projectId ?? ''}`
+    const cached = models.get(key)
+    if (cached && cached.signature === signature) return cached.model
+
+    const model = new NgramModel()
+    liveDocuments.forEach(document => {
+      model.train(toModelText(document.content ?? ''), document.project_id === scope.projectId ? PROJECT_DOCUMENT_WEIGHT : 1)
+    })
+    standardInfo.forEach(info => model.train(toModelText(info.content)))
+    models.set(key, { signature, model })
+    return model
+  },
+
+  async getProvider(scope: RetrievalScope): Promise<LLMProvider> {
+    return createNgramProvider(await this.getModel(scope))
+  },
+
+  // 返回续写的内容，没有离线数据或没有把握时返回空字符串
+  async complete(prefix: string, scope: RetrievalScope, options?: NgramContinueOptions): Promise<string> {
+    const model = await this.getModel(scope)
+    return model.size > 0 ? model.continue(prefix, options) : ''
+  }
+}
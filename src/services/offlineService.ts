@@ -1,4 +1,7 @@
 import Dexie, { Table } from 'dexie'
+import type { CompletionCache } from './completionCache'
+import type { VectorRecord } from './vectorStore'
+import type { IndexingTask } from './indexingQueue'
 
 // 离线数据库接口定义
 export interface OfflineDocument {
@@ -71,6 +74,25 @@ export interface OfflineCache {
   created_at: string
 }
 
+// 补全建议的统计事件，只保存在本地
+export interface CompletionEventRecord {
+  id: string
+  project_id: string
+  document_id: string
+  source: 'exact' | 'ai' | 'cache'
+  outcome: 'accepted' | 'dismissed' | 'ignored'
+  latency_ms: number
+  suggestion_length: number
+  accepted_length: number
+  created_at: string
+}
+
+// 知识库条目最近一次被接受为补全建议的时间，用于逐字匹配的近期使用加权
+export interface StandardInfoUsageRecord {
+  entry_id: string
+  last_used_at: number
+}
+
 // Dexie数据库类
 export class OfflineDatabase extends Dexie {
   documents!: Table<OfflineDocument>
@@ -78,6 +100,10 @@ export class OfflineDatabase extends Dexie {
   standard_info!: Table<OfflineStandardInfo>
   sync_queue!: Table<SyncQueueItem>
   cache!: Table<OfflineCache>
+  completion_events!: Table<CompletionEventRecord>
+  completion_vectors!: Table<VectorRecord>
+  indexing_queue!: Table<IndexingTask>
+  standard_info_usage!: Table<StandardInfoUsageRecord>
 
   constructor() {
     super('CopyTabOfflineDB')
@@ -88,6 +114,18 @@ export class OfflineDatabase extends Dexie {
       sync_queue: 'id, table, operation, user_id, created_at',
       cache: 'id, key, expires_at'
     })
+    this.version(2).stores({
+      completion_events: 'id, project_id, created_at, [project_id+created_at]'
+    })
+    this.version(3).stores({
+      completion_vectors: 'id, namespace'
+    })
+    this.version(4).stores({
+      indexing_queue: 'document_id, due_at'
+    })
+    this.version(5).stores({
+      standard_info_usage: 'entry_id'
+    })
   }
 }
 
@@ -328,6 +366,9 @@ export const offlineService = {
     await offlineDB.standard_info.clear()
     await offlineDB.sync_queue.clear()
     await offlineDB.cache.clear()
+    await offlineDB.completion_vectors.clear()
+    await offlineDB.indexing_queue.clear()
+    await offlineDB.standard_info_usage.clear()
   },
 
   // 获取同步统计信息
@@ -407,16 +448,56 @@ export const offlineService = {
   },
 
   // 保存缓存的补全结果
-  async saveCachedCompletion(cache: any) {
+  async saveCachedCompletion(cache: CompletionCache) {
     await offlineDB.cache.put({
       id: cache.id,
       key: `completion_${cache.id}`,
       data: cache,
-      expires_at: cache.expiresAt,
+      // 与 clearExpiredCache 一样按 ISO 字符串比较
+      expires_at: cache.expiresAt.toISOString(),
       created_at: cache.createdAt.toISOString()
     })
   },
 
+  // 删除被淘汰或失效的补全结果
+  async deleteCachedCompletions(ids: string[]) {
+    await offlineDB.cache.bulkDelete(ids)
+  },
+
+  // 语义缓存中提示词的向量
+  async getCompletionVectors() {
+    return await offlineDB.completion_vectors.toArray()
+  },
+
+  async saveCompletionVectors(records: VectorRecord[]) {
+    await offlineDB.completion_vectors.bulkPut(records)
+  },
+
+  async deleteCompletionVectors(ids: string[]) {
+    await offlineDB.completion_vectors.bulkDelete(ids)
+  },
+
+  async clearCompletionVectors() {
+    await offlineDB.completion_vectors.clear()
+  },
+
+  // 等待重新生成向量的文档
+  async getIndexingTasks() {
+    return await offlineDB.indexing_queue.orderBy('due_at').toArray()
+  },
+
+  async getIndexingTask(documentId: string) {
+    return await offlineDB.indexing_queue.get(documentId)
+  },
+
+  async saveIndexingTask(task: IndexingTask) {
+    await offlineDB.indexing_queue.put(task)
+  },
+
+  async deleteIndexingTask(documentId: string) {
+    await offlineDB.indexing_queue.delete(documentId)
+  },
+
   // 清空缓存的补全结果
   async clearCachedCompletions() {
     const completions = await offlineDB.cache
@@ -1,119 +1,167 @@
 import { supabase } from './supabaseClient'
+import { llmService } from './llmService'
+import { chunkText, toModelText } from './documentChunker'
+
+// 每次向量请求最多包含的分块数
+export const EMBEDDING_BATCH_SIZE = 16
+
+export interface HybridSearchOptions {
+  limit?: number
+  vectorWeight?: number
+  textWeight?: number
+  projectId?: string | null
+}
+
+export interface HybridSearchResult {
+  id: string
+  document_id: string
+  content: string
+  chunk_index: number
+  vector_score: number
+  text_score: number
+  combined_score: number
+  document_title: string
+  project_id: string
+  project_name: string
+}
+
+export const DEFAULT_HYBRID_WEIGHTS = { vectorWeight: 0.7, textWeight: 0.3 }
+
+interface StoredChunk {
+  id: string
+  chunk_index: number
+  embedding_model: string | null
+  metadata: { content_hash?: string; start_index?: number; end_index?: number; heading_path?: string[] } | null
+}
+
+// 逐项比较位置信息：jsonb 不保留键的顺序，读回的 metadata 序列化后与写入时不同
+const samePosition = (row: StoredChunk, chunk: { chunk_index: number; metadata: { start_index: number; end_index: number; heading_path: string[] } }) => {
+  const headingPath = row.metadata?.heading_path ?? []
+  return row.chunk_index === chunk.chunk_index &&
+    row.metadata?.start_index === chunk.metadata.start_index &&
+    row.metadata?.end_index === chunk.metadata.end_index &&
+    headingPath.length === chunk.metadata.heading_path.length &&
+    headingPath.every((heading, index) => heading === chunk.metadata.heading_path[index])
+}
+
+// 分块内容的 SHA-256，用于判断分块是否需要重新生成向量
+export const hashContent = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// 当前向量模型的标识，随向量保存，检索时只比较同一模型的向量
+const currentEmbeddingModel = () => llmService.getEmbeddingProvider().embeddingModel
 
 // RAG服务 - 文档处理、向量化、检索
 export const ragService = {
-  // 文档分块处理
+  // 文档分块处理：content 可以是编辑器的 HTML 或纯文本，在句子边界分块，不跨越标题
   async chunkDocument(documentId: string, content: string, chunkSize = 1000, chunkOverlap = 200) {
-    const chunks = []
-    let start = 0
-    
-    while (start < content.length) {
-      let end = start + chunkSize
-      
-      // 如果这不是最后一个块，尝试在句子边界处分割
-      if (end < content.length) {
-        const lastPeriod = content.lastIndexOf('.', end)
-        const lastNewline = content.lastIndexOf('\n', end)
-        const lastSpace = content.lastIndexOf(' ', end)
-        
-        const bestBreak = Math.max(lastPeriod, lastNewline, lastSpace)
-        if (bestBreak > start) {
-          end = bestBreak + 1
-        }
+    return chunkText(content, { chunkSize, chunkOverlap }).map((chunk, index) => ({
+      document_id: documentId,
+      content: chunk.content,
+      chunk_index: index,
+      metadata: {
+        start_index: chunk.start_index,
+        end_index: chunk.end_index,
+        chunk_size: chunk.content.length,
+        heading_path: chunk.heading_path
       }
-      
-      const chunk = content.slice(start, end).trim()
-      if (chunk) {
-        chunks.push({
-          document_id: documentId,
-          content: chunk,
-          chunk_index: chunks.length,
-          metadata: {
-            start_index: start,
-            end_index: end,
-            chunk_size: chunk.length
-          }
-        })
-      }
-      
-      start = end - chunkOverlap
-      if (start >= end) break // 防止无限循环
-    }
-    
-    return chunks
+    }))
   },
 
-  // 生成文本向量（使用OpenAI嵌入）
+  // 生成文本向量（使用模型设置中的向量模型）
   async generateEmbedding(text: string): Promise<number[]> {
     try {
-      const response = await fetch('https://api.openai.com/v1/embeddings', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${import.meta.env.VITE_OPENAI_API_KEY}`
-        },
-        body: JSON.stringify({
-          model: 'text-embedding-3-small',
-          input: text,
-          encoding_format: 'float'
-        })
-      })
-
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.status}`)
-      }
-
-      const data = await response.json()
-      return data.data[0].embedding
+      const [embedding] = await llmService.getEmbeddingProvider().embed([text])
+      return embedding
     } catch (error) {
       console.error('生成向量失败:', error)
       throw error
     }
   },
 
-  // 存储文档分块到数据库
+  // 批量生成向量，每次请求最多 batchSize 条
+  async generateEmbeddings(texts: string[], batchSize = EMBEDDING_BATCH_SIZE): Promise<number[][]> {
+    const provider = llmService.getEmbeddingProvider()
+    const embeddings: number[][] = []
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const batch = texts.slice(i, i + batchSize)
+      const result = await provider.embed(batch)
+      if (result.length !== batch.length) {
+        throw new Error('向量数量与分块数量不一致')
+      }
+      embeddings.push(...result)
+    }
+    return embeddings
+  },
+
+  // 存储文档分块到数据库：按内容哈希比较，只为新增或修改的分块生成向量，
+  // 内容不变的分块保留原有向量，只在位置变化时更新；向量模型变化后全部重新生成；
+  // 向量全部生成成功后才修改数据库，新增、更新和删除在同一个事务中完成（apply_document_chunk_diff）
   async storeDocumentChunks(documentId: string, content: string) {
     try {
-      // 1. 删除现有分块
-      const { error: deleteError } = await supabase
+      const embeddingModel = currentEmbeddingModel()
+
+      // 1. 分块并计算内容哈希
+      const chunks = await Promise.all((await this.chunkDocument(documentId, content)).map(async chunk => ({
+        ...chunk,
+        metadata: { ...chunk.metadata, content_hash: await hashContent(chunk.content) }
+      })))
+
+      // 2. 读取现有分块，按哈希分组（同一文档中可能有内容相同的分块）
+      const { data: existing, error: selectError } = await supabase
         .from('document_chunks')
-        .delete()
+        .select('id, chunk_index, metadata, embedding_model')
         .eq('document_id', documentId)
 
-      if (deleteError) throw deleteError
+      if (selectError) throw selectError
 
-      // 2. 分块处理
-      const chunks = await this.chunkDocument(documentId, content)
-      
-      // 3. 为每个分块生成向量并存储
-      const chunkData = []
-      for (const chunk of chunks) {
-        try {
-          const embedding = await this.generateEmbedding(chunk.content)
-          chunkData.push({
-            ...chunk,
-            embedding
-          })
-        } catch (error) {
-          console.error(`分块 ${chunk.chunk_index} 向量生成失败:`, error)
-          // 继续处理其他分块
+      const unmatched = new Map<string, StoredChunk[]>()
+      const staleIds: string[] = []
+      for (const row of (existing ?? []) as StoredChunk[]) {
+        const hash = row.metadata?.content_hash
+        // 没有哈希的旧分块无法比较，其他模型生成的向量不能与当前模型的查询比较，都重新生成
+        if (!hash || row.embedding_model !== embeddingModel) {
+          staleIds.push(row.id)
+          continue
         }
+        unmatched.set(hash, [...(unmatched.get(hash) ?? []), row])
       }
 
-      if (chunkData.length === 0) {
-        throw new Error('没有成功生成任何向量')
+      const added: typeof chunks = []
+      const moved: Array<typeof chunks[number] & { id: string }> = []
+      for (const chunk of chunks) {
+        const row = unmatched.get(chunk.metadata.content_hash)?.shift()
+        if (!row) {
+          added.push(chunk)
+        } else if (!samePosition(row, chunk)) {
+          moved.push({ ...chunk, id: row.id })
+        }
       }
+      unmatched.forEach(rows => staleIds.push(...rows.map(row => row.id)))
 
-      // 4. 批量插入分块数据
-      const { error: insertError } = await supabase
-        .from('document_chunks')
-        .insert(chunkData)
+      // 3. 为新增的分块批量生成向量
+      const embeddings = await this.generateEmbeddings(added.map(chunk => chunk.content))
 
-      if (insertError) throw insertError
+      // 4. 写入新分块，更新位置变化的分块，删除不再存在的分块
+      if (added.length > 0 || moved.length > 0 || staleIds.length > 0) {
+        const { error: applyError } = await supabase
+          .rpc('apply_document_chunk_diff', {
+            target_document_id: documentId,
+            added_chunks: added.map((chunk, index) => ({ ...chunk, embedding: embeddings[index], embedding_model: embeddingModel })),
+            moved_chunks: moved.map(({ id, chunk_index, metadata }) => ({ id, chunk_index, metadata })),
+            stale_chunk_ids: staleIds
+          })
+
+        if (applyError) throw applyError
+      }
 
       return {
         success: true,
-        chunksProcessed: chunkData.length
+        chunksProcessed: chunks.length,
+        chunksEmbedded: added.length,
+        chunksDeleted: staleIds.length
       }
     } catch (error) {
       console.error('存储文档分块失败:', error)
@@ -121,8 +169,8 @@ export const ragService = {
     }
   },
 
-  // 向量相似度搜索
-  async searchSimilarDocuments(query: string, userId: string, limit = 5, similarityThreshold = 0.7) {
+  // 向量相似度搜索，传入 projectId 时只搜索该项目的文档
+  async searchSimilarDocuments(query: string, userId: string, limit = 5, similarityThreshold = 0.7, projectId: string | null = null) {
     try {
       // 1. 生成查询向量
       const queryEmbedding = await this.generateEmbedding(query)
@@ -133,7 +181,9 @@ export const ragService = {
           query_embedding: queryEmbedding,
           query_user_id: userId,
           match_limit: limit,
-          similarity_threshold: similarityThreshold
+          similarity_threshold: similarityThreshold,
+          query_project_id: projectId,
+          query_embedding_model: currentEmbeddingModel()
         })
 
       if (error) throw error
@@ -145,6 +195,37 @@ export const ragService = {
     }
   },
 
+  // 混合检索：向量相似度和全文检索得分按权重相加；权重按比例归一化，传入 projectId 时只搜索该项目的文档
+  async hybridSearch(query: string, userId: string, { limit = 5, vectorWeight = DEFAULT_HYBRID_WEIGHTS.vectorWeight, textWeight = DEFAULT_HYBRID_WEIGHTS.textWeight, projectId = null }: HybridSearchOptions = {}): Promise<HybridSearchResult[]> {
+    if (vectorWeight < 0 || textWeight < 0 || vectorWeight + textWeight === 0) {
+      throw new Error('检索权重不能为负数，也不能同时为 0')
+    }
+
+    try {
+      const queryEmbedding = await this.generateEmbedding(query)
+      const total = vectorWeight + textWeight
+
+      const { data, error } = await supabase
+        .rpc('hybrid_search_documents', {
+          query_text: query,
+          query_embedding: queryEmbedding,
+          query_user_id: userId,
+          match_limit: limit,
+          vector_weight: vectorWeight / total,
+          text_weight: textWeight / total,
+          query_project_id: projectId,
+          query_embedding_model: currentEmbeddingModel()
+        })
+
+      if (error) throw error
+
+      return data || []
+    } catch (error) {
+      console.error('混合检索失败:', error)
+      throw error
+    }
+  },
+
   // 获取文档的所有分块
   async getDocumentChunks(documentId: string) {
     const { data, error } = await supabase
@@ -226,8 +307,90 @@ export const ragService = {
   }
 }
 
+export type EmbeddingStatus = 'pending' | 'ready' | 'failed'
+
+interface StandardInfoEmbeddingInput {
+  id: string
+  title?: string | null
+  content: string
+  // 生成向量所依据的版本；写入时条目已被再次修改的，不覆盖新版本的状态
+  updated_at?: string | null
+}
+
+// 标题和正文一起生成向量，标题往往就是检索时会用到的关键词；富文本条目去掉标签
+const standardInfoEmbeddingText = (info: StandardInfoEmbeddingInput) => {
+  const content = toModelText(info.content)
+  return info.title?.trim() ? `${info.title.trim()}\n${content}` : content
+}
+
+// 向量未生成，或由其他向量模型生成（切换了工作区或模型设置）而不能用于当前的检索
+export const needsEmbedding = (info: { embedding_status?: string | null; embedding_model?: string | null }) =>
+  info.embedding_status !== 'ready' || info.embedding_model !== currentEmbeddingModel()
+
 // 标准信息RAG服务
 export const standardInfoRagService = {
+  // 为标准信息生成向量并记录状态；失败时记为 failed，不抛出错误，由补全任务稍后重试
+  // 生成期间条目又被修改的（updated_at 不再一致）不写入，两项都不计数，由新版本的任务更新状态
+  async embedStandardInfo(infos: StandardInfoEmbeddingInput[]): Promise<{ ready: number; failed: number }> {
+    if (infos.length === 0) return { ready: 0, failed: 0 }
+
+    const embeddingModel = currentEmbeddingModel()
+    let embeddings: number[][] | null = null
+    let embeddingError = ''
+    try {
+      embeddings = await ragService.generateEmbeddings(infos.map(standardInfoEmbeddingText))
+    } catch (error) {
+      console.error('生成标准信息向量失败:', error)
+      embeddingError = error instanceof Error ? error.message : String(error)
+    }
+
+    let ready = 0
+    let failed = 0
+    for (const [index, info] of infos.entries()) {
+      let query = supabase
+        .from('standard_info')
+        .update(embeddings
+          ? { embedding: embeddings[index], embedding_model: embeddingModel, embedding_status: 'ready', embedding_error: null, embedded_at: new Date().toISOString() }
+          : { embedding_status: 'failed', embedding_error: embeddingError })
+        .eq('id', info.id)
+      if (info.updated_at) query = query.eq('updated_at', info.updated_at)
+      const { data, error } = await query.select('id')
+
+      if (error) {
+        console.error(`更新标准信息 ${info.id} 的向量失败:`, error)
+        failed++
+      } else if (!data?.length) {
+        continue
+      } else if (embeddings) {
+        ready++
+      } else {
+        failed++
+      }
+    }
+
+    return { ready, failed }
+  },
+
+  // 补全任务：为用户尚未生成向量、生成失败或由其他向量模型生成的标准信息分批生成向量
+  async backfillEmbeddings(userId: string, batchSize = EMBEDDING_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('standard_info')
+      .select('id, title, content, updated_at, embedding_status, embedding_model')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+
+    if (error) throw error
+
+    const pending = (data ?? []).filter(info => needsEmbedding(info)) as StandardInfoEmbeddingInput[]
+    const result = { total: pending.length, ready: 0, failed: 0 }
+    for (let i = 0; i < pending.length; i += batchSize) {
+      const batch = await this.embedStandardInfo(pending.slice(i, i + batchSize))
+      result.ready += batch.ready
+      result.failed += batch.failed
+    }
+    return result
+  },
+
   // 搜索相似的标准信息
   async searchSimilarStandardInfo(query: string, userId: string, category?: string, limit = 5) {
     try {
@@ -240,7 +403,8 @@ export const standardInfoRagService = {
           query_embedding: queryEmbedding,
           query_user_id: userId,
           query_category: category,
-          match_limit: limit
+          match_limit: limit,
+          query_embedding_model: currentEmbeddingModel()
         })
 
       if (error) throw error
@@ -263,7 +427,8 @@ export const standardInfoRagService = {
         .rpc('get_smart_recommendations', {
           content_embedding: contentEmbedding,
           query_user_id: userId,
-          match_limit: limit
+          match_limit: limit,
+          query_embedding_model: currentEmbeddingModel()
         })
 
       if (error) throw error
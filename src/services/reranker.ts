@@ -0,0 +1,142 @@
+import type { RetrievedChunk } from './retrievalService'
+
+// 检索结果的重排：向量检索先取回较多的候选，这里结合查询词的覆盖率重新计算相关度，
+// 去掉因分块重叠（chunkOverlap）而重复的内容，再用 MMR（最大边际相关）避免结果集中在同一篇文档。
+// 全部在本地计算，不额外调用模型接口
+
+// 向量检索取回 topK 的几倍作为重排的候选
+export const RERANK_CANDIDATE_FACTOR = 3
+
+export interface RerankCandidate extends RetrievedChunk {
+  // 文档分块所属的文档，标准信息没有
+  documentId?: string
+}
+
+export interface RerankOptions {
+  topK: number
+  // 相关度中查询词覆盖率所占的比例，其余为向量相似度
+  lexicalWeight?: number
+  // MMR 中相关度所占的比例，越小越强调多样性
+  lambda?: number
+  // 同一文档的两个分块至少视为这么相似
+  sameDocumentSimilarity?: number
+  // 首尾重合至少这么多字才视为分块重叠
+  minOverlap?: number
+  // 去掉重叠部分后剩余不足这么多字时丢弃
+  minLength?: number
+}
+
+export const DEFAULT_RERANK_OPTIONS: Required<Omit<RerankOptions, 'topK'>> = {
+  lexicalWeight: 0.3,
+  lambda: 0.7,
+  sameDocumentSimilarity: 0.5,
+  minOverlap: 20,
+  minLength: 20
+}
+
+// 中文按相邻两字切分，英文和数字按单词切分
+export const tokenize = (text: string) => {
+  const tokens: string[] = []
+  for (const run of text.toLowerCase().match(/[\u4e00-\u9fff]+|[a-z0-9]+/g) ?? []) {
+    if (/^[a-z0-9]/.test(run) || run.length === 1) {
+      tokens.push(run)
+      continue
+    }
+    for (let i = 0; i < run.length - 1; i++) tokens.push(run.slice(i, i + 2))
+  }
+  return tokens
+}
+
+// 查询词在候选内容中出现的比例
+const coverage = (queryTerms: Set<string>, terms: Set<string>) => {
+  if (queryTerms.size === 0) return 0
+  let matched = 0
+  queryTerms.forEach(term => {
+    if (terms.has(term)) matched++
+  })
+  return matched / queryTerms.size
+}
+
+const jaccard = (a: Set<string>, b: Set<string>) => {
+  if (a.size === 0 || b.size === 0) return 0
+  let shared = 0
+  a.forEach(term => {
+    if (b.has(term)) shared++
+  })
+  return shared / (a.size + b.size - shared)
+}
+
+// a 的结尾与 b 的开头重合的最大长度，不足 minOverlap 时为 0
+const suffixPrefixOverlap = (a: string, b: string, minOverlap: number) => {
+  for (let length = Math.min(a.length, b.length); length >= minOverlap; length--) {
+    if (a.endsWith(b.slice(0, length))) return length
+  }
+  return 0
+}
+
+interface Scored {
+  chunk: RerankCandidate
+  relevance: number
+  terms: Set<string>
+}
+
+// 按相关度从高到低处理：被更相关的结果包含的候选直接丢弃，与之首尾重叠的部分从候选中去掉
+const removeOverlaps = (candidates: Scored[], { minOverlap, minLength }: Required<Omit<RerankOptions, 'topK'>>) => {
+  const kept: Scored[] = []
+  for (const candidate of candidates) {
+    let content = candidate.chunk.content
+    for (const { chunk: other } of kept) {
+      if (other.content.includes(content)) {
+        content = ''
+        break
+      }
+      const head = suffixPrefixOverlap(other.content, content, minOverlap)
+      if (head) content = content.slice(head).trim()
+      const tail = suffixPrefixOverlap(content, other.content, minOverlap)
+      if (tail) content = content.slice(0, content.length - tail).trim()
+    }
+
+    if (content === candidate.chunk.content) {
+      kept.push(candidate)
+    } else if (content.length >= minLength) {
+      kept.push({ ...candidate, chunk: { ...candidate.chunk, content }, terms: new Set(tokenize(content)) })
+    }
+  }
+  return kept
+}
+
+export const rerank = (query: string, candidates: RerankCandidate[], { topK, ...overrides }: RerankOptions): RerankCandidate[] => {
+  const options = { ...DEFAULT_RERANK_OPTIONS, ...overrides }
+  const queryTerms = new Set(tokenize(query))
+
+  const scored = candidates
+    .map(chunk => {
+      const terms = new Set(tokenize(chunk.content))
+      const relevance = (1 - options.lexicalWeight) * chunk.score + options.lexicalWeight * coverage(queryTerms, terms)
+      return { chunk, relevance, terms }
+    })
+    .sort((a, b) => b.relevance - a.relevance)
+
+  const remaining = removeOverlaps(scored, options)
+  const selected: Scored[] = []
+  const similarity = (a: Scored, b: Scored) => {
+    const sameDocument = a.chunk.documentId !== undefined && a.chunk.documentId === b.chunk.documentId
+    return Math.max(jaccard(a.terms, b.terms), sameDocument ? options.sameDocumentSimilarity : 0)
+  }
+
+  while (selected.length < topK && remaining.length > 0) {
+    let bestIndex = 0
+    let bestScore = -Infinity
+    remaining.forEach((candidate, index) => {
+      const redundancy = Math.max(0, ...selected.map(chosen => similarity(candidate, chosen)))
+      const score = options.lambda * candidate.relevance - (1 - options.lambda) * redundancy
+      if (score > bestScore) {
+        bestIndex = index
+        bestScore = score
+      }
+    })
+    selected.push(...remaining.splice(bestIndex, 1))
+  }
+
+  return selected.map(({ chunk, relevance }) => ({ ...chunk, score: relevance }))
+}
@@ -0,0 +1,192 @@
+// 调用模型接口时的重试和熔断：429 和 5xx 按指数退避加随机抖动重试，连续失败后暂停请求一段时间
+
+// 带 HTTP 状态码的请求错误，retryAfterMs 来自响应的 Retry-After
+export class HTTPStatusError extends Error {
+  constructor(message: string, public status: number, public retryAfterMs?: number) {
+    super(message)
+    this.name = 'HTTPStatusError'
+  }
+}
+
+// 熔断期间或模型未配置时抛出，调用方据此显示状态而不是把错误当作建议
+export class AIUnavailableError extends Error {
+  constructor(message = 'AI 暂不可用') {
+    super(message)
+    this.name = 'AIUnavailableError'
+  }
+}
+
+// Retry-After 可以是秒数或 HTTP 日期，无法解析时返回 undefined
+export const parseRetryAfter = (value: string | null | undefined, now = Date.now()): number | undefined => {
+  if (!value) return undefined
+  if (/^\d+$/.test(value.trim())) return Number(value.trim()) * 1000
+  const date = Date.parse(value)
+  return isNaN(date) ? undefined : Math.max(0, date - now)
+}
+
+// 限流、超时、服务端错误和网络错误值得重试；401、400 等重试也不会成功
+export const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof AIUnavailableError) return false
+  if (error instanceof TypeError) return true
+  const status = (error as { status?: unknown } | null)?.status
+  return typeof status === 'number' && (status === 408 || status === 429 || status >= 500)
+}
+
+export interface RetryOptions {
+  // 首次请求之外最多重试的次数
+  retries?: number
+  baseDelayMs?: number
+  // 单次等待的上限；Retry-After 超过它时直接放弃，不让用户长时间等待
+  maxDelayMs?: number
+  signal?: AbortSignal
+  random?: () => number
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(done, ms)
+  function done() {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', done)
+    resolve()
+  }
+  signal?.addEventListener('abort', done)
+})
+
+// 全抖动：在 [0, min(maxDelayMs, baseDelayMs * 2^attempt)) 之间随机取值，避免多个客户端同时重试
+export const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number, random = Math.random) =>
+  Math.floor(random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt))
+
+const retryDelay = (error: unknown, attempt: number, options: RetryOptions) => {
+  const { baseDelayMs = 500, maxDelayMs = 8000, random } = options
+  const retryAfterMs = (error as { retryAfterMs?: number } | null)?.retryAfterMs
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= maxDelayMs ? retryAfterMs : null
+  }
+  return backoffDelay(attempt, baseDelayMs, maxDelayMs, random)
+}
+
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const { retries = 2, signal } = options
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn(attempt)
+    } catch (error) {
+      const delay = attempt < retries && isRetryableError(error) ? retryDelay(error, attempt, options) : null
+      if (delay === null || signal?.aborted) throw error
+      await (options.sleep ?? sleep)(delay, signal)
+      if (signal?.aborted) throw error
+    }
+  }
+}
+
+// 流式版本：只在收到第一个分片之前重试，已经输出的内容不能重来
+export async function* withStreamRetry<T>(create: () => AsyncIterable<T>, options: RetryOptions = {}): AsyncGenerator<T> {
+  const { retries = 2, signal } = options
+  for (let attempt = 0; ; attempt++) {
+    let started = false
+    try {
+      for await (const chunk of create()) {
+        started = true
+        yield chunk
+      }
+      return
+    } catch (error) {
+      const delay = !started && attempt < retries && isRetryableError(error) ? retryDelay(error, attempt, options) : null
+      if (delay === null || signal?.aborted) throw error
+      await (options.sleep ?? sleep)(delay, signal)
+      if (signal?.aborted) throw error
+    }
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  // 连续失败多少次后熔断
+  failureThreshold?: number
+  // 熔断后多久允许一次试探请求
+  cooldownMs?: number
+  now?: () => number
+}
+
+// closed：正常请求；open：直接拒绝，只使用逐字匹配和缓存；half-open：冷却结束，只放行一个试探请求，成功则恢复。
+// 订阅者只在熔断和恢复时收到通知，冷却结束本身不会通知
+export class CircuitBreaker {
+  private failures = 0
+  private opened = false
+  private openedAt = 0
+  private trialInFlight = false
+  private listeners = new Set<(state: CircuitState) => void>()
+  private failureThreshold: number
+  private cooldownMs: number
+  private now: () => number
+
+  constructor({ failureThreshold = 3, cooldownMs = 30_000, now = Date.now }: CircuitBreakerOptions = {}) {
+    this.failureThreshold = failureThreshold
+    this.cooldownMs = cooldownMs
+    this.now = now
+  }
+
+  get state(): CircuitState {
+    if (!this.opened) return 'closed'
+    return this.now() - this.openedAt >= this.cooldownMs ? 'half-open' : 'open'
+  }
+
+  // 只查询，不占用试探名额；用于决定是否改用缓存或本地模型
+  canRequest() {
+    const state = this.state
+    return state === 'closed' || (state === 'half-open' && !this.trialInFlight)
+  }
+
+  // 发出请求前调用：half-open 时占用唯一的试探名额，记录结果或 release 之前其他请求仍被拒绝
+  tryRequest() {
+    if (!this.canRequest()) return false
+    if (this.state === 'half-open') this.trialInFlight = true
+    return true
+  }
+
+  // 请求被中止或以与服务可用性无关的方式结束时调用，不记录结果，只让出试探名额
+  release() {
+    this.trialInFlight = false
+  }
+
+  recordSuccess() {
+    this.failures = 0
+    this.trialInFlight = false
+    this.setOpened(false)
+  }
+
+  // 只应记录服务不可用类的失败（见 isRetryableError）；试探请求失败时重新开始冷却
+  recordFailure() {
+    this.failures++
+    this.trialInFlight = false
+    if (this.opened || this.failures >= this.failureThreshold) {
+      this.openedAt = this.now()
+      this.setOpened(true)
+    }
+  }
+
+  reset() {
+    this.failures = 0
+    this.trialInFlight = false
+    this.setOpened(false)
+  }
+
+  subscribe(listener: (state: CircuitState) => void) {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private setOpened(opened: boolean) {
+    if (this.opened === opened) return
+    this.opened = opened
+    const state = this.state
+    this.listeners.forEach(listener => listener(state))
+  }
+}
+
+// 浏览器中所有模型请求共用，编辑器据此显示“AI 暂不可用”
+export const aiCircuitBreaker = new CircuitBreaker()
@@ -0,0 +1,178 @@
+import { ragService, standardInfoRagService } from './ragService'
+import { offlineDB, offlineService } from './offlineService'
+import { rerank, tokenize, RERANK_CANDIDATE_FACTOR } from './reranker'
+import { toModelText } from './documentChunker'
+
+// 补全时检索的范围：标准信息属于用户，文档分块限定在当前项目
+export interface RetrievalScope {
+  userId: string
+  projectId: string | null
+}
+
+export interface RetrievedChunk {
+  id: string
+  source: 'document' | 'standard_info'
+  content: string
+  // 文档标题或标准信息的分类，用于在提示词中标注出处
+  label: string
+  score: number
+}
+
+const DEFAULT_TOP_K = 5
+const OFFLINE_CHUNK_SIZE = 300
+const OFFLINE_CHUNK_OVERLAP = 50
+// BM25 参数
+const K1 = 1.2
+const B = 0.75
+
+interface LocalEntry {
+  chunk: Omit<RetrievedChunk, 'score'>
+  terms: Map<string, number>
+  length: number
+}
+
+// 离线时使用的本地 BM25 索引，数据来自 OfflineDatabase
+class LocalChunkIndex {
+  private readonly documentFrequency = new Map<string, number>()
+  private readonly averageLength: number
+
+  constructor(private readonly entries: LocalEntry[]) {
+    entries.forEach(entry => {
+      entry.terms.forEach((_count, term) => {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1)
+      })
+    })
+    this.averageLength = entries.reduce((sum, entry) => sum + entry.length, 0) / Math.max(1, entries.length)
+  }
+
+  static fromChunks(chunks: Array<Omit<RetrievedChunk, 'score'>>) {
+    return new LocalChunkIndex(chunks.map(chunk => {
+      const tokens = tokenize(chunk.content)
+      const terms = new Map<string, number>()
+      tokens.forEach(token => terms.set(token, (terms.get(token) ?? 0) + 1))
+      return { chunk, terms, length: tokens.length }
+    }))
+  }
+
+  search(query: string, topK: number): RetrievedChunk[] {
+    const queryTerms = Array.from(new Set(tokenize(query)))
+    const total = this.entries.length
+
+    return this.entries
+      .map(entry => {
+        let score = 0
+        queryTerms.forEach(term => {
+          const frequency = entry.terms.get(term)
+          if (!frequency) return
+          const df = this.documentFrequency.get(term) ?? 0
+          const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5))
+          score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * entry.length / this.averageLength))
+        })
+        return { ...entry.chunk, score }
+      })
+      .filter(chunk => chunk.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK)
+  }
+}
+
+// 本地索引按范围缓存，离线数据变化（条数或最后修改时间）后重建
+const localIndexes = new Map<string, { signature: string; index: LocalChunkIndex }>()
+
+// 检索服务 - 为 AI 补全提供项目内的上下文
+export const retrievalService = {
+  // 在线时使用向量检索，失败或离线时使用本地索引
+  async retrieve(query: string, scope: RetrievalScope, topK = DEFAULT_TOP_K): Promise<RetrievedChunk[]> {
+    if (offlineService.isOnline()) {
+      try {
+        return await this.retrieveOnline(query, scope, topK)
+      } catch (error) {
+        console.error('在线检索失败，改用本地索引:', error)
+      }
+    }
+
+    try {
+      return await this.retrieveOffline(query, scope, topK)
+    } catch (error) {
+      console.error('本地检索失败:', error)
+      return []
+    }
+  },
+
+  // 向量检索：文档分块（当前项目）和标准信息各取若干候选，合并后重排取前 topK 条（见 reranker）
+  async retrieveOnline(query: string, scope: RetrievalScope, topK = DEFAULT_TOP_K): Promise<RetrievedChunk[]> {
+    const candidateCount = topK * RERANK_CANDIDATE_FACTOR
+    const [documentChunks, standardInfo] = await Promise.all([
+      ragService.searchSimilarDocuments(query, scope.userId, candidateCount, undefined, scope.projectId),
+      standardInfoRagService.searchSimilarStandardInfo(query, scope.userId, undefined, candidateCount)
+    ])
+
+    const chunks = [
+      ...documentChunks.map((chunk: { id: string; document_id: string; content: string; document_title: string; similarity: number }) => ({
+        id: chunk.id,
+        source: 'document' as const,
+        content: chunk.content,
+        label: chunk.document_title,
+        score: chunk.similarity,
+        documentId: chunk.document_id
+      })),
+      ...standardInfo.map((info: { id: string; content: string; category: string; similarity: number }) => ({
+        id: info.id,
+        source: 'standard_info' as const,
+        // 条目可能是富文本，和离线索引一样转为纯文本，标签不进入重排和提示词
+        content: toModelText(info.content),
+        label: info.category,
+        score: info.similarity
+      }))
+    ]
+
+    return rerank(query, chunks, { topK })
+  },
+
+  // 本地检索：对 OfflineDatabase 中当前项目的文档和用户的标准信息建立 BM25 索引
+  async retrieveOffline(query: string, scope: RetrievalScope, topK = DEFAULT_TOP_K): Promise<RetrievedChunk[]> {
+    const [documents, standardInfo] = await Promise.all([
+      scope.projectId
+        ? offlineDB.documents.where('project_id').equals(scope.projectId).toArray()
+        : Promise.resolve([]),
+      offlineDB.standard_info.where('user_id').equals(scope.userId).toArray()
+    ])
+    const liveDocuments = documents.filter(document => !document.deleted_at)
+
+    const signature = [...liveDocuments, ...standardInfo]
+      .map(item => `${item.id}:${item.local_updated_at}`)
+      .sort()
+      .join('|')
+    const key = `${scope.userId}:${scope.projectId ?? ''}`
+    let cached = localIndexes.get(key)
+
+    if (!cached || cached.signature !== signature) {
+      const documentChunks = await Promise.all(liveDocuments.map(async document => {
+        const chunks = await ragService.chunkDocument(document.id, document.content ?? '', OFFLINE_CHUNK_SIZE, OFFLINE_CHUNK_OVERLAP)
+        return chunks.map(chunk => ({
+          id: `${document.id}:${chunk.chunk_index}`,
+          source: 'document' as const,
+          content: chunk.content,
+          label: document.title
+        }))
+      }))
+
+      cached = {
+        signature,
+        index: LocalChunkIndex.fromChunks([
+          ...documentChunks.flat(),
+          ...standardInfo.map(info => ({
+            id: info.id,
+            source: 'standard_info' as const,
+            // 条目可能是富文本，和文档一样按纯文本建立索引，避免标签名被当作词项
+            content: toModelText(info.content),
+            label: info.category
+          }))
+        ])
+      }
+      localIndexes.set(key, cached)
+    }
+
+    return cached.index.search(query, topK)
+  }
+}
@@ -0,0 +1,63 @@
+import { hashEmbedding } from './llmService'
+import type { LocalVectorStore, VectorMatch } from './vectorStore'
+
+// 语义缓存：提示词与已缓存的提示词足够相似时复用其补全结果，例如“迎接全新夏季系列”和“迎接全新的夏季系列”
+
+export interface SemanticCacheOptions {
+  enabled: boolean
+  // 余弦相似度不低于该值才复用
+  threshold: number
+  // 默认使用本地哈希向量，不调用模型接口，离线时同样可用
+  embed: (text: string) => Promise<number[]>
+}
+
+// 本地哈希向量的维度，只用于比较提示词，比检索用的向量小得多
+const LOCAL_EMBEDDING_DIMENSIONS = 256
+
+export const DEFAULT_SEMANTIC_CACHE_OPTIONS: SemanticCacheOptions = {
+  enabled: false,
+  // 按相邻两字计算，插入一个“的”约为 0.82，替换一个关键字（夏季→冬季）约为 0.75
+  threshold: 0.8,
+  embed: async text => hashEmbedding(text, LOCAL_EMBEDDING_DIMENSIONS)
+}
+
+export class SemanticCompletionCache {
+  private options: SemanticCacheOptions
+
+  constructor(private store: LocalVectorStore, options: Partial<SemanticCacheOptions> = {}) {
+    this.options = { ...DEFAULT_SEMANTIC_CACHE_OPTIONS, ...options }
+  }
+
+  get enabled() {
+    return this.options.enabled
+  }
+
+  // 更换向量模型后旧向量无法比较，清空重建
+  async configure(options: Partial<SemanticCacheOptions>) {
+    const embedChanged = options.embed !== undefined && options.embed !== this.options.embed
+    this.options = { ...this.options, ...options }
+    if (embedChanged) await this.store.clear()
+  }
+
+  // 返回最相似且超过阈值的缓存条目
+  async lookup(namespace: string, text: string): Promise<VectorMatch | null> {
+    if (!this.options.enabled || !text.trim()) return null
+    const vector = await this.options.embed(text.trim())
+    const [match] = await this.store.search(vector, { namespace, topK: 1, minScore: this.options.threshold })
+    return match ?? null
+  }
+
+  async remember(id: string, namespace: string, text: string) {
+    if (!this.options.enabled || !text.trim()) return
+    const vector = await this.options.embed(text.trim())
+    await this.store.upsert({ id, namespace, vector })
+  }
+
+  async forget(ids: string[]) {
+    await this.store.delete(ids)
+  }
+
+  async clear() {
+    await this.store.clear()
+  }
+}
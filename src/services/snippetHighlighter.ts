@@ -0,0 +1,95 @@
+// 检索结果的摘要和高亮：在分块中找出查询词出现最密集的位置，截取一段并标出匹配的部分
+
+export interface HighlightSegment {
+  text: string
+  highlighted: boolean
+}
+
+const HAN = /\p{Script=Han}/u
+
+// 查询词按空白和标点拆分；中文没有空格，超过两个字的连续中文拆成相邻两字，与全文检索的匹配方式接近
+export const queryTerms = (query: string): string[] => {
+  const terms = new Set<string>()
+  for (const token of query.toLowerCase().split(/[\s\p{P}\p{S}]+/u)) {
+    for (const run of token.match(/\p{Script=Han}+|[^\p{Script=Han}]+/gu) ?? []) {
+      if (HAN.test(run) && run.length > 2) {
+        for (let i = 0; i < run.length - 1; i++) terms.add(run.slice(i, i + 2))
+      } else if (HAN.test(run) || run.length > 1) {
+        terms.add(run)
+      }
+    }
+  }
+  // 长词优先，重叠时保留较长的匹配
+  return [...terms].sort((a, b) => b.length - a.length)
+}
+
+interface Range {
+  start: number
+  end: number
+}
+
+const matchRanges = (content: string, terms: string[]): Range[] => {
+  const lower = content.toLowerCase()
+  const ranges: Range[] = []
+  for (const term of terms) {
+    for (let index = lower.indexOf(term); index !== -1; index = lower.indexOf(term, index + 1)) {
+      ranges.push({ start: index, end: index + term.length })
+    }
+  }
+
+  // 合并重叠和相邻的匹配
+  ranges.sort((a, b) => a.start - b.start)
+  const merged: Range[] = []
+  for (const range of ranges) {
+    const last = merged[merged.length - 1]
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end)
+    } else {
+      merged.push({ ...range })
+    }
+  }
+  return merged
+}
+
+// 选择包含匹配最多的窗口，匹配前保留约四分之一的上文
+const snippetWindow = (length: number, ranges: Range[], maxLength: number): Range => {
+  if (length <= maxLength) return { start: 0, end: length }
+  if (ranges.length === 0) return { start: 0, end: maxLength }
+
+  let best = ranges[0]
+  let bestCount = 0
+  for (const range of ranges) {
+    const count = ranges.filter(other => other.start >= range.start && other.end <= range.start + maxLength).length
+    if (count > bestCount) {
+      best = range
+      bestCount = count
+    }
+  }
+  const start = Math.max(0, Math.min(best.start - Math.floor(maxLength / 4), length - maxLength))
+  return { start, end: start + maxLength }
+}
+
+export const highlightSnippet = (content: string, query: string, maxLength = 160): HighlightSegment[] => {
+  const ranges = matchRanges(content, queryTerms(query))
+  const window = snippetWindow(content.length, ranges, maxLength)
+
+  const segments: HighlightSegment[] = []
+  const push = (text: string, highlighted: boolean) => {
+    if (text) segments.push({ text, highlighted })
+  }
+
+  if (window.start > 0) push('…', false)
+  let cursor = window.start
+  for (const range of ranges) {
+    if (range.end <= window.start || range.start >= window.end) continue
+    const start = Math.max(range.start, window.start)
+    const end = Math.min(range.end, window.end)
+    push(content.slice(cursor, start), false)
+    push(content.slice(start, end), true)
+    cursor = end
+  }
+  push(content.slice(cursor, window.end), false)
+  if (window.end < content.length) push('…', false)
+
+  return segments
+}
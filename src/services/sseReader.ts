@@ -0,0 +1,153 @@
+// Server-Sent Events 解析，所有流式接口（/api/completion、OpenAI 兼容接口）共用
+
+export interface ServerSentEvent {
+  // 没有 event 字段时为 'message'
+  event: string
+  // 多行 data 用 '\n' 连接
+  data: string
+  id?: string
+  retry?: number
+}
+
+// 按 SSE 规范逐行解析：行可能被拆到两次读取中，空行表示一个事件结束，以 ':' 开头的行是注释（通常是心跳）
+export class SSEParser {
+  private buffer = ''
+  private pendingCR = false
+  private dataLines: string[] = []
+  private eventType = ''
+  private lastEventId: string | undefined
+  private retry: number | undefined
+
+  push(text: string): ServerSentEvent[] {
+    // '\r\n' 被拆开时，'\r' 已经结束了一行，下一段开头的 '\n' 不再算作空行
+    if (this.pendingCR && text.startsWith('\n')) text = text.slice(1)
+    this.pendingCR = text.endsWith('\r')
+
+    this.buffer += text
+    const lines = this.buffer.split(/\r\n|\r|\n/)
+    this.buffer = lines.pop() ?? ''
+
+    const events: ServerSentEvent[] = []
+    for (const line of lines) {
+      const event = this.processLine(line)
+      if (event) events.push(event)
+    }
+    return events
+  }
+
+  // 流结束时处理最后一行；缺少结尾空行的事件也照常派发
+  end(): ServerSentEvent[] {
+    const events: ServerSentEvent[] = []
+    if (this.buffer) {
+      this.processLine(this.buffer)
+      this.buffer = ''
+    }
+    const event = this.dispatch()
+    if (event) events.push(event)
+    return events
+  }
+
+  private processLine(line: string): ServerSentEvent | null {
+    if (line === '') return this.dispatch()
+    if (line.startsWith(':')) return null
+
+    const colon = line.indexOf(':')
+    const field = colon === -1 ? line : line.slice(0, colon)
+    const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+
+    switch (field) {
+      case 'data':
+        this.dataLines.push(value)
+        break
+      case 'event':
+        this.eventType = value
+        break
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value
+        break
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value)
+        break
+    }
+    return null
+  }
+
+  private dispatch(): ServerSentEvent | null {
+    const dataLines = this.dataLines
+    const eventType = this.eventType
+    this.dataLines = []
+    this.eventType = ''
+    if (dataLines.length === 0) return null
+
+    return {
+      event: eventType || 'message',
+      data: dataLines.join('\n'),
+      id: this.lastEventId,
+      retry: this.retry
+    }
+  }
+}
+
+// 逐个读取响应体中的事件；signal 中止后停止读取并正常结束
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array> | null | undefined,
+  signal?: AbortSignal
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body?.getReader()
+  if (!reader) {
+    throw new Error('无法读取响应流')
+  }
+
+  const parser = new SSEParser()
+  const decoder = new TextDecoder()
+  const onAbort = () => {
+    reader.cancel().catch(() => {})
+  }
+  signal?.addEventListener('abort', onAbort)
+
+  try {
+    while (!signal?.aborted) {
+      const { done, value } = await reader.read()
+      if (signal?.aborted) return
+      if (done) {
+        yield* parser.push(decoder.decode())
+        yield* parser.end()
+        return
+      }
+      yield* parser.push(decoder.decode(value, { stream: true }))
+    }
+  } catch (error) {
+    if (signal?.aborted) return
+    throw error
+  } finally {
+    signal?.removeEventListener('abort', onAbort)
+    reader.releaseLock()
+  }
+}
+
+// OpenAI 风格的流式补全：产出 choices[0].delta.content，收到 [DONE] 时结束，error 事件转为异常
+export async function* readChatCompletionStream(
+  body: ReadableStream<Uint8Array> | null | undefined,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  for await (const { event, data } of readServerSentEvents(body, signal)) {
+    if (event === 'error') {
+      let message = data
+      try {
+        const parsed = JSON.parse(data)
+        message = parsed.error?.message ?? parsed.error ?? data
+      } catch {
+        // data 不是 JSON 时直接作为错误信息
+      }
+      throw new Error(`流式响应出错: ${message}`)
+    }
+    if (data === '[DONE]') return
+
+    try {
+      const content = JSON.parse(data).choices?.[0]?.delta?.content
+      if (content) yield content
+    } catch {
+      // 忽略无法解析的事件
+    }
+  }
+}
@@ -0,0 +1,137 @@
+import { offlineDB, type CompletionEventRecord } from './offlineService'
+
+type CompletionEventSource = CompletionEventRecord['source']
+
+export interface CompletionEventInput {
+  projectId: string
+  documentId: string
+  source: CompletionEventSource
+  outcome: CompletionEventRecord['outcome']
+  latencyMs: number
+  suggestionLength: number
+  acceptedLength: number
+}
+
+export interface CompletionStatsSummary {
+  total: number
+  accepted: number
+  dismissed: number
+  ignored: number
+  // 接受（含部分接受）的建议占显示过的建议的比例
+  acceptanceRate: number
+  acceptedChars: number
+  latency: { p50: number; p95: number }
+}
+
+export interface CompletionStats extends CompletionStatsSummary {
+  bySource: Partial<Record<CompletionEventSource, CompletionStatsSummary>>
+}
+
+// 最近邻秩法计算百分位，空数组返回 0
+export const percentile = (values: number[], p: number) => {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  const rank = Math.ceil((p / 100) * sorted.length)
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1]
+}
+
+const summarize = (events: CompletionEventRecord[]): CompletionStatsSummary => {
+  const count = (outcome: CompletionEventRecord['outcome']) => events.filter(event => event.outcome === outcome).length
+  const accepted = count('accepted')
+  const latencies = events.map(event => event.latency_ms)
+
+  return {
+    total: events.length,
+    accepted,
+    dismissed: count('dismissed'),
+    ignored: count('ignored'),
+    acceptanceRate: events.length > 0 ? accepted / events.length : 0,
+    acceptedChars: events.reduce((sum, event) => sum + event.accepted_length, 0),
+    latency: { p50: percentile(latencies, 50), p95: percentile(latencies, 95) }
+  }
+}
+
+// 汇总事件，并按来源（逐字匹配 / AI / 缓存）分别统计
+export const summarizeCompletionEvents = (events: CompletionEventRecord[]): CompletionStats => {
+  const bySource: CompletionStats['bySource'] = {}
+  const sources = Array.from(new Set(events.map(event => event.source)))
+  sources.forEach(source => {
+    bySource[source] = summarize(events.filter(event => event.source === source))
+  })
+
+  return { ...summarize(events), bySource }
+}
+
+// 事件保留的天数；记录事件时顺带清除更早的事件，每天最多清除一次
+const EVENT_RETENTION_DAYS = 90
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000
+let lastPrunedAt = 0
+
+// 补全统计服务 - 事件只写入本地 IndexedDB，不上传
+export const telemetryService = {
+  // 记录一条补全事件；统计失败不能影响编辑，所以只打印错误
+  async recordCompletionEvent(event: CompletionEventInput) {
+    const record: CompletionEventRecord = {
+      id: `completion_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      project_id: event.projectId,
+      document_id: event.documentId,
+      source: event.source,
+      outcome: event.outcome,
+      latency_ms: event.latencyMs,
+      suggestion_length: event.suggestionLength,
+      accepted_length: event.acceptedLength,
+      created_at: new Date().toISOString()
+    }
+
+    try {
+      await offlineDB.completion_events.add(record)
+      if (Date.now() - lastPrunedAt >= PRUNE_INTERVAL_MS) {
+        lastPrunedAt = Date.now()
+        await this.pruneCompletionEvents()
+      }
+    } catch (error) {
+      console.error('记录补全事件失败:', error)
+    }
+  },
+
+  // 获取项目在 sinceDays 天内的补全事件
+  async getCompletionEvents(projectId: string, sinceDays = 30) {
+    const since = new Date(Date.now() - sinceDays * 24 * 60 * 60 * 1000).toISOString()
+    return await offlineDB.completion_events
+      .where('[project_id+created_at]')
+      .between([projectId, since], [projectId, '\uffff'])
+      .toArray()
+  },
+
+  // 获取项目的补全统计
+  async getCompletionStats(projectId: string, sinceDays = 30): Promise<CompletionStats> {
+    const events = await this.getCompletionEvents(projectId, sinceDays)
+    return summarizeCompletionEvents(events)
+  },
+
+  // 清除过期的事件
+  async pruneCompletionEvents(olderThanDays = EVENT_RETENTION_DAYS) {
+    const before = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000).toISOString()
+    await offlineDB.completion_events.where('created_at').below(before).delete()
+  },
+
+  // 清除项目的全部事件
+  async clearCompletionEvents(projectId: string) {
+    await offlineDB.completion_events.where('project_id').equals(projectId).delete()
+  },
+
+  // 知识库条目 id → 最近一次被接受的时间
+  async getStandardInfoUsage(): Promise<Map<string, number>> {
+    const records = await offlineDB.standard_info_usage.toArray()
+    return new Map(records.map(record => [record.entry_id, record.last_used_at]))
+  },
+
+  // 记录条目被接受的时间；与统计事件一样，失败时只打印错误
+  async recordStandardInfoUsage(entryId: string, usedAt: number) {
+    try {
+      await offlineDB.standard_info_usage.put({ entry_id: entryId, last_used_at: usedAt })
+    } catch (error) {
+      console.error('记录知识库条目使用失败:', error)
+    }
+  }
+}
@@ -0,0 +1,98 @@
+// 浏览器本地的向量存储：全部向量保存在内存中逐条比较，并持久化到 IndexedDB，离线时也能检索
+
+export interface VectorRecord {
+  id: string
+  // 检索时只比较同一命名空间内的向量
+  namespace: string
+  vector: number[]
+  created_at: string
+}
+
+export interface VectorMatch {
+  id: string
+  score: number
+}
+
+export interface VectorSearchOptions {
+  namespace: string
+  topK?: number
+  minScore?: number
+}
+
+// 持久化接口，默认实现见 offlineService，测试中替换为内存实现
+export interface VectorStorage {
+  load(): Promise<VectorRecord[]>
+  put(records: VectorRecord[]): Promise<void>
+  delete(ids: string[]): Promise<void>
+  clear(): Promise<void>
+}
+
+export const cosineSimilarity = (a: number[], b: number[]) => {
+  if (a.length !== b.length || a.length === 0) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
+
+export class LocalVectorStore {
+  private records = new Map<string, VectorRecord>()
+  private loading: Promise<void> | null = null
+
+  constructor(private storage: VectorStorage) {}
+
+  // 首次使用时从存储中读取，读取失败时从空库开始
+  private ensureLoaded() {
+    this.loading ??= Promise.resolve()
+      .then(() => this.storage.load())
+      .then(records => {
+        for (const record of records) {
+          if (!this.records.has(record.id)) this.records.set(record.id, record)
+        }
+      })
+      .catch(error => {
+        console.warn('Failed to load vector store:', error)
+      })
+    return this.loading
+  }
+
+  async upsert(record: Omit<VectorRecord, 'created_at'>) {
+    await this.ensureLoaded()
+    const stored: VectorRecord = { ...record, created_at: new Date().toISOString() }
+    this.records.set(record.id, stored)
+    await this.storage.put([stored])
+  }
+
+  async search(vector: number[], { namespace, topK = 1, minScore = 0 }: VectorSearchOptions): Promise<VectorMatch[]> {
+    await this.ensureLoaded()
+    const matches: VectorMatch[] = []
+    for (const record of this.records.values()) {
+      if (record.namespace !== namespace) continue
+      const score = cosineSimilarity(vector, record.vector)
+      if (score >= minScore) matches.push({ id: record.id, score })
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, topK)
+  }
+
+  async delete(ids: string[]) {
+    if (ids.length === 0) return
+    await this.ensureLoaded()
+    ids.forEach(id => this.records.delete(id))
+    await this.storage.delete(ids)
+  }
+
+  async clear() {
+    await this.ensureLoaded()
+    this.records.clear()
+    await this.storage.clear()
+  }
+
+  get size() {
+    return this.records.size
+  }
+}
@@ -9,6 +9,7 @@ export type Database = {
           document_id: string
           content: string
           embedding: string | null
+          embedding_model: string | null
           chunk_index: number
           metadata: Json | null
           created_at: string
@@ -19,6 +20,7 @@ export type Database = {
           document_id: string
           content: string
           embedding?: string | null
+          embedding_model?: string | null
           chunk_index: number
           metadata?: Json | null
           created_at?: string
@@ -29,6 +31,7 @@ export type Database = {
           document_id?: string
           content?: string
           embedding?: string | null
+          embedding_model?: string | null
           chunk_index?: number
           metadata?: Json | null
           created_at?: string
@@ -207,6 +210,10 @@ export type Database = {
           category: string
           tags: string[] | null
           embedding: string | null
+          embedding_status: 'pending' | 'ready' | 'failed'
+          embedding_error: string | null
+          embedded_at: string | null
+          embedding_model: string | null
           user_id: string
           is_public: boolean
           created_at: string
@@ -219,6 +226,10 @@ export type Database = {
           category: string
           tags?: string[] | null
           embedding?: string | null
+          embedding_status?: 'pending' | 'ready' | 'failed'
+          embedding_error?: string | null
+          embedded_at?: string | null
+          embedding_model?: string | null
           user_id: string
           is_public?: boolean
           created_at?: string
@@ -231,6 +242,10 @@ export type Database = {
           category?: string
           tags?: string[] | null
           embedding?: string | null
+          embedding_status?: 'pending' | 'ready' | 'failed'
+          embedding_error?: string | null
+          embedded_at?: string | null
+          embedding_model?: string | null
           user_id?: string
           is_public?: boolean
           created_at?: string
@@ -313,6 +328,15 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_document_chunk_diff: {
+        Args: {
+          target_document_id: string
+          added_chunks?: Json
+          moved_chunks?: Json
+          stale_chunk_ids?: string[]
+        }
+        Returns: undefined
+      }
       search_similar_chunks: {
         Args: {
           query_embedding: string
@@ -332,6 +356,8 @@ export type Database = {
           query_user_id: string
           match_limit: number
           similarity_threshold: number
+          query_project_id?: string | null
+          query_embedding_model?: string | null
         }
         Returns: {
           document_id: string
@@ -346,6 +372,7 @@ export type Database = {
           query_user_id: string
           query_category?: string
           match_limit: number
+          query_embedding_model?: string | null
         }
         Returns: {
           id: string
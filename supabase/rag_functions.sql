@@ -1,11 +1,16 @@
 -- RAG系统相关函数
 
--- 文档相似度搜索函数
+-- 文档相似度搜索函数（query_project_id 为空时搜索用户的全部项目）
+-- 向量模型按工作区设置，不同模型的向量不可比较：传入 query_embedding_model 时只比较同一模型生成的向量
+DROP FUNCTION IF EXISTS search_similar_documents(VECTOR(1536), UUID, INTEGER, FLOAT);
+DROP FUNCTION IF EXISTS search_similar_documents(VECTOR(1536), UUID, INTEGER, FLOAT, UUID);
 CREATE OR REPLACE FUNCTION search_similar_documents(
     query_embedding VECTOR(1536),
     query_user_id UUID,
     match_limit INTEGER DEFAULT 5,
-    similarity_threshold FLOAT DEFAULT 0.7
+    similarity_threshold FLOAT DEFAULT 0.7,
+    query_project_id UUID DEFAULT NULL,
+    query_embedding_model TEXT DEFAULT NULL
 )
 RETURNS TABLE (
     id UUID,
@@ -30,20 +35,24 @@ BEGIN
     JOIN documents d ON d.id = dc.document_id
     JOIN projects p ON p.id = d.project_id
     WHERE p.user_id = query_user_id
+        AND (query_project_id IS NULL OR d.project_id = query_project_id)
         AND d.deleted_at IS NULL
         AND p.deleted_at IS NULL
+        AND (query_embedding_model IS NULL OR dc.embedding_model = query_embedding_model)
         AND (1 - (dc.embedding <=> query_embedding)) >= similarity_threshold
     ORDER BY dc.embedding <=> query_embedding
     LIMIT match_limit;
 END;
 $$ LANGUAGE plpgsql;
 
--- 标准信息相似度搜索函数
+-- 标准信息相似度搜索函数，query_embedding_model 同上
+DROP FUNCTION IF EXISTS search_similar_standard_info(VECTOR(1536), UUID, VARCHAR(100), INTEGER);
 CREATE OR REPLACE FUNCTION search_similar_standard_info(
     query_embedding VECTOR(1536),
     query_user_id UUID,
     query_category VARCHAR(100) DEFAULT NULL,
-    match_limit INTEGER DEFAULT 5
+    match_limit INTEGER DEFAULT 5,
+    query_embedding_model TEXT DEFAULT NULL
 )
 RETURNS TABLE (
     id UUID,
@@ -67,16 +76,19 @@ BEGIN
         AND si.deleted_at IS NULL
         AND (query_category IS NULL OR si.category = query_category)
         AND si.embedding IS NOT NULL
+        AND (query_embedding_model IS NULL OR si.embedding_model = query_embedding_model)
     ORDER BY si.embedding <=> query_embedding
     LIMIT match_limit;
 END;
 $$ LANGUAGE plpgsql;
 
--- 智能推荐函数
+-- 智能推荐函数，query_embedding_model 同上
+DROP FUNCTION IF EXISTS get_smart_recommendations(VECTOR(1536), UUID, INTEGER);
 CREATE OR REPLACE FUNCTION get_smart_recommendations(
     content_embedding VECTOR(1536),
     query_user_id UUID,
-    match_limit INTEGER DEFAULT 3
+    match_limit INTEGER DEFAULT 3,
+    query_embedding_model TEXT DEFAULT NULL
 )
 RETURNS TABLE (
     id UUID,
@@ -106,6 +118,7 @@ BEGIN
     WHERE si.user_id = query_user_id
         AND si.deleted_at IS NULL
         AND si.embedding IS NOT NULL
+        AND (query_embedding_model IS NULL OR si.embedding_model = query_embedding_model)
     ORDER BY si.embedding <=> content_embedding
     LIMIT match_limit;
 END;
@@ -115,6 +128,52 @@ $$ LANGUAGE plpgsql;
 ALTER TABLE standard_info 
 ADD COLUMN IF NOT EXISTS embedding VECTOR(1536);
 
+-- 标准信息向量的生成状态：pending 等待生成，ready 可检索，failed 生成失败（原因见 embedding_error）
+-- 已有的行默认为 pending，由应用中的补全任务生成向量
+ALTER TABLE standard_info
+ADD COLUMN IF NOT EXISTS embedding_status VARCHAR(20) NOT NULL DEFAULT 'pending',
+ADD COLUMN IF NOT EXISTS embedding_error TEXT,
+ADD COLUMN IF NOT EXISTS embedded_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_standard_info_embedding_status ON standard_info(embedding_status);
+
+-- 生成向量的模型（厂商:模型名，见 LLMProvider.embeddingModel）。向量模型按工作区设置，而标准信息属于用户、检索可能跨项目，
+-- 检索时只比较同一模型的向量；标准信息的模型与当前不一致时由补全任务重新生成，文档分块在保存时重新生成
+ALTER TABLE standard_info
+ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+ALTER TABLE document_chunks
+ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+
+-- 此前的向量由默认的向量模型生成
+UPDATE standard_info SET embedding_model = 'openai:text-embedding-3-small'
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+UPDATE document_chunks SET embedding_model = 'openai:text-embedding-3-small'
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- 标准信息的 updated_at 只在标题、内容或分类变化时更新：写入向量不算修改，
+-- 否则文档中的引用会被标记为过期，补全排序中的最近使用时间和生成向量时的版本校验也会失效
+CREATE OR REPLACE FUNCTION update_standard_info_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.title IS DISTINCT FROM OLD.title
+        OR NEW.content IS DISTINCT FROM OLD.content
+        OR NEW.category IS DISTINCT FROM OLD.category THEN
+        NEW.updated_at = NOW();
+    ELSE
+        NEW.updated_at = OLD.updated_at;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_standard_info_updated_at ON standard_info;
+CREATE TRIGGER update_standard_info_updated_at
+    BEFORE UPDATE ON standard_info
+    FOR EACH ROW
+    EXECUTE FUNCTION update_standard_info_updated_at_column();
+
 -- 创建标准信息向量索引
 CREATE INDEX IF NOT EXISTS idx_standard_info_embedding ON standard_info 
 USING ivfflat (embedding vector_cosine_ops)
@@ -127,43 +186,100 @@ USING gin(to_tsvector('chinese', content));
 CREATE INDEX IF NOT EXISTS idx_standard_info_content_fts ON standard_info 
 USING gin(to_tsvector('chinese', content));
 
--- 创建混合搜索函数（向量和全文搜索）
+-- 创建混合搜索函数（向量和全文搜索），query_project_id 为空时搜索用户的全部项目。
+-- 全文得分用 ts_rank 的归一化选项 32（rank / (rank + 1)）压缩到 0-1，与向量相似度处于同一量级，权重才有意义
+DROP FUNCTION IF EXISTS hybrid_search_documents(TEXT, VECTOR(1536), UUID, INTEGER, FLOAT, FLOAT);
+DROP FUNCTION IF EXISTS hybrid_search_documents(TEXT, VECTOR(1536), UUID, INTEGER, FLOAT, FLOAT, UUID);
 CREATE OR REPLACE FUNCTION hybrid_search_documents(
     query_text TEXT,
     query_embedding VECTOR(1536),
     query_user_id UUID,
     match_limit INTEGER DEFAULT 5,
     vector_weight FLOAT DEFAULT 0.7,
-    text_weight FLOAT DEFAULT 0.3
+    text_weight FLOAT DEFAULT 0.3,
+    query_project_id UUID DEFAULT NULL,
+    query_embedding_model TEXT DEFAULT NULL
 )
 RETURNS TABLE (
     id UUID,
     document_id UUID,
     content TEXT,
     chunk_index INTEGER,
+    vector_score FLOAT,
+    text_score FLOAT,
     combined_score FLOAT,
     document_title VARCHAR(255),
+    project_id UUID,
     project_name VARCHAR(255)
 ) AS $$
 BEGIN
     RETURN QUERY
-    SELECT 
-        dc.id,
-        dc.document_id,
-        dc.content,
-        dc.chunk_index,
-        (vector_weight * (1 - (dc.embedding <=> query_embedding))) + 
-        (text_weight * ts_rank(to_tsvector('chinese', dc.content), plainto_tsquery('chinese', query_text))) AS combined_score,
-        d.title AS document_title,
-        p.name AS project_name
-    FROM document_chunks dc
-    JOIN documents d ON d.id = dc.document_id
-    JOIN projects p ON p.id = d.project_id
-    WHERE p.user_id = query_user_id
-        AND d.deleted_at IS NULL
-        AND p.deleted_at IS NULL
-        AND dc.embedding IS NOT NULL
+    SELECT
+        scored.id,
+        scored.document_id,
+        scored.content,
+        scored.chunk_index,
+        scored.vector_score,
+        scored.text_score,
+        (vector_weight * scored.vector_score) + (text_weight * scored.text_score) AS combined_score,
+        scored.document_title,
+        scored.project_id,
+        scored.project_name
+    FROM (
+        SELECT 
+            dc.id,
+            dc.document_id,
+            dc.content,
+            dc.chunk_index,
+            (1 - (dc.embedding <=> query_embedding))::FLOAT AS vector_score,
+            ts_rank(to_tsvector('chinese', dc.content), plainto_tsquery('chinese', query_text), 32)::FLOAT AS text_score,
+            d.title AS document_title,
+            p.id AS project_id,
+            p.name AS project_name
+        FROM document_chunks dc
+        JOIN documents d ON d.id = dc.document_id
+        JOIN projects p ON p.id = d.project_id
+        WHERE p.user_id = query_user_id
+            AND (query_project_id IS NULL OR d.project_id = query_project_id)
+            AND d.deleted_at IS NULL
+            AND p.deleted_at IS NULL
+            AND dc.embedding IS NOT NULL
+            AND (query_embedding_model IS NULL OR dc.embedding_model = query_embedding_model)
+    ) scored
     ORDER BY combined_score DESC
     LIMIT match_limit;
 END;
-$$ LANGUAGE plpgsql;
\ No newline at end of file
+$$ LANGUAGE plpgsql;
+-- 在一个事务中写入文档分块的变化：删除不再存在的分块、更新位置变化的分块、插入新分块，
+-- 任一步失败时整体回滚，不会留下只删除了旧分块而没有写入新分块的索引。
+-- 以调用者的身份执行，行级安全策略照常生效
+CREATE OR REPLACE FUNCTION apply_document_chunk_diff(
+    target_document_id UUID,
+    added_chunks JSONB DEFAULT '[]',
+    moved_chunks JSONB DEFAULT '[]',
+    stale_chunk_ids UUID[] DEFAULT '{}'
+)
+RETURNS VOID AS $$
+BEGIN
+    DELETE FROM document_chunks
+    WHERE document_id = target_document_id
+        AND id = ANY(stale_chunk_ids);
+
+    UPDATE document_chunks dc
+    SET chunk_index = (moved->>'chunk_index')::INTEGER,
+        metadata = moved->'metadata'
+    FROM jsonb_array_elements(moved_chunks) AS moved
+    WHERE dc.id = (moved->>'id')::UUID
+        AND dc.document_id = target_document_id;
+
+    INSERT INTO document_chunks (document_id, content, chunk_index, metadata, embedding, embedding_model)
+    SELECT
+        target_document_id,
+        added->>'content',
+        (added->>'chunk_index')::INTEGER,
+        added->'metadata',
+        (added->>'embedding')::VECTOR(1536),
+        added->>'embedding_model'
+    FROM jsonb_array_elements(added_chunks) AS added;
+END;
+$$ LANGUAGE plpgsql;
@@ -115,6 +115,7 @@ CREATE TRIGGER update_documents_updated_at
     FOR EACH ROW 
     EXECUTE FUNCTION update_updated_at_column();
 
+-- rag_functions.sql 中替换为只在标题、内容或分类变化时更新
 CREATE TRIGGER update_standard_info_updated_at 
     BEFORE UPDATE ON standard_info 
     FOR EACH ROW 
@@ -0,0 +1,272 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { Editor } from '@tiptap/core'
+import StarterKit from '@tiptap/starter-kit'
+import { CompletionPlugin, completionPluginKey } from '../completion'
+import type { CompletionTelemetryEvent } from '../completionTelemetry'
+import { DEFAULT_COMPLETION_POLICY } from '../completionPolicy'
+import { getCompletionStream } from '../../services/geminiService'
+import type { StandardInfo } from '../../types'
+
+vi.mock('../../services/geminiService', () => ({
+  getCompletionStream: vi.fn(),
+}))
+
+// 可以从测试里逐个放行分片的流，用来模拟耗时的 AI 请求
+const createControlledStream = () => {
+  const gates: Array<() => void> = []
+  const signals: AbortSignal[] = []
+
+  const stream = async function* (_text: string, _rewrite: boolean, _suffix?: string, signal?: AbortSignal) {
+    if (signal) signals.push(signal)
+    yield '第一段'
+    await new Promise<void>(resolve => gates.push(resolve))
+    yield '第二段'
+  }
+
+  return { stream, gates, signals }
+}
+
+const mountEditor = (onTelemetry?: (event: CompletionTelemetryEvent) => void, policy = DEFAULT_COMPLETION_POLICY) => {
+  const element = document.createElement('div')
+  document.body.append(element)
+  return new Editor({
+    element,
+    extensions: [
+      StarterKit,
+      CompletionPlugin.configure({
+        getStandardInfo: () => [],
+        getRewriteMode: () => true,
+        onTelemetry,
+        getPolicy: () => policy,
+      }),
+    ],
+    content: '<p></p>',
+  })
+}
+
+// 只用逐字匹配的编辑器，两个条目除分类外匹配程度相同
+const similarEntries: StandardInfo[] = [
+  { id: 'a', projectId: 'p', category: '法律', content: '版权所有，侵权必究。' },
+  { id: 'b', projectId: 'p', category: '品牌', content: '版权所有，翻印必究。' },
+]
+
+const mountExactEditor = (options: { policy?: typeof DEFAULT_COMPLETION_POLICY; loadUsage?: () => Promise<Map<string, number>>; onUsage?: (entryId: string, usedAt: number) => void }) => {
+  const element = document.createElement('div')
+  document.body.append(element)
+  const policy = options.policy ?? { ...DEFAULT_COMPLETION_POLICY, debounceMs: 0 }
+  return new Editor({
+    element,
+    extensions: [
+      StarterKit,
+      CompletionPlugin.configure({
+        getStandardInfo: () => similarEntries,
+        getRewriteMode: () => false,
+        getPolicy: () => policy,
+        loadUsage: options.loadUsage,
+        onUsage: options.onUsage,
+      }),
+    ],
+    content: '<p></p>',
+  })
+}
+
+const firstEntryOf = (editor: Editor) => completionPluginKey.getState(editor.state)?.candidates[0]?.entryId
+
+const type = (editor: Editor, text: string) => {
+  editor.chain().focus('end').insertContent(text).run()
+}
+
+const suggestionOf = (editor: Editor) => completionPluginKey.getState(editor.state)?.suggestion
+
+describe('CompletionPlugin', () => {
+  let editors: Editor[] = []
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    editors = [mountEditor(), mountEditor()]
+  })
+
+  afterEach(() => {
+    editors.forEach(editor => editor.destroy())
+    document.body.innerHTML = ''
+  })
+
+  it('两个编辑器应该各自显示自己的建议', async () => {
+    vi.mocked(getCompletionStream).mockImplementation(async function* (text: string) {
+      yield `（续写：${text}）`
+    })
+    const [first, second] = editors
+
+    type(first, '夏季新品上市了')
+    type(second, '秋季新品即将发布')
+
+    await vi.waitFor(() => {
+      expect(suggestionOf(first)).toBe('（续写：夏季新品上市了）')
+      expect(suggestionOf(second)).toBe('（续写：秋季新品即将发布）')
+    })
+  })
+
+  it('在一个编辑器中输入不应取消另一个编辑器进行中的请求', async () => {
+    const { stream, gates, signals } = createControlledStream()
+    vi.mocked(getCompletionStream).mockImplementation(stream)
+    const [first, second] = editors
+
+    type(first, '夏季新品上市了')
+    await vi.waitFor(() => expect(suggestionOf(first)).toBe('第一段'))
+
+    // 第二个编辑器开始输入并发起自己的请求
+    type(second, '秋季新品即将发布')
+    await vi.waitFor(() => expect(suggestionOf(second)).toBe('第一段'))
+
+    expect(signals).toHaveLength(2)
+    expect(signals[0].aborted).toBe(false)
+
+    gates.forEach(release => release())
+    await vi.waitFor(() => {
+      expect(suggestionOf(first)).toBe('第一段第二段')
+      expect(suggestionOf(second)).toBe('第一段第二段')
+    })
+  })
+
+  it('继续输入只取消本编辑器的旧请求', async () => {
+    const { stream, gates, signals } = createControlledStream()
+    vi.mocked(getCompletionStream).mockImplementation(stream)
+    const [first, second] = editors
+
+    type(first, '夏季新品上市了')
+    type(second, '秋季新品即将发布')
+    await vi.waitFor(() => expect(signals).toHaveLength(2))
+
+    type(first, '，欢迎选购')
+
+    expect(signals[0].aborted).toBe(true)
+    expect(signals[1].aborted).toBe(false)
+    expect(suggestionOf(first)).toBe('')
+    expect(suggestionOf(second)).toBe('第一段')
+
+    gates.forEach(release => release())
+    await vi.waitFor(() => expect(suggestionOf(second)).toBe('第一段第二段'))
+  })
+
+  it('销毁编辑器时应该取消它的请求', async () => {
+    const { stream, signals } = createControlledStream()
+    vi.mocked(getCompletionStream).mockImplementation(stream)
+    const [first, second] = editors
+
+    type(first, '夏季新品上市了')
+    type(second, '秋季新品即将发布')
+    await vi.waitFor(() => expect(signals).toHaveLength(2))
+
+    first.destroy()
+
+    expect(signals[0].aborted).toBe(true)
+    expect(signals[1].aborted).toBe(false)
+  })
+
+  it('应该记录接受、Escape 关闭和忽略的建议', async () => {
+    vi.mocked(getCompletionStream).mockImplementation(async function* () {
+      yield '，欢迎选购'
+    })
+    const events: CompletionTelemetryEvent[] = []
+    const editor = mountEditor(event => events.push(event))
+    editors.push(editor)
+
+    type(editor, '夏季新品上市了')
+    await vi.waitFor(() => expect(suggestionOf(editor)).toBe('，欢迎选购'))
+    editor.commands.acceptCompletionWord()
+    type(editor, '！')
+    expect(events[0]).toMatchObject({ source: 'ai', outcome: 'accepted', suggestionLength: 5, acceptedLength: 3 })
+
+    await vi.waitFor(() => expect(suggestionOf(editor)).toBe('，欢迎选购'))
+    editor.view.dom.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }))
+    expect(events[1]).toMatchObject({ outcome: 'dismissed', acceptedLength: 0 })
+
+    type(editor, '快来')
+    await vi.waitFor(() => expect(suggestionOf(editor)).toBe('，欢迎选购'))
+    type(editor, '看看')
+    expect(events[2]).toMatchObject({ outcome: 'ignored' })
+    expect(events).toHaveLength(3)
+  })
+
+  it('相同上下文再次出现时使用缓存的建议', async () => {
+    vi.mocked(getCompletionStream).mockImplementation(async function* () {
+      yield '，欢迎选购'
+    })
+    const [editor] = editors
+
+    type(editor, '夏季新品上市了')
+    await vi.waitFor(() => expect(suggestionOf(editor)).toBe('，欢迎选购'))
+    type(editor, '吗')
+    await vi.waitFor(() => expect(getCompletionStream).toHaveBeenCalledTimes(2))
+    const end = editor.state.doc.content.size - 1
+    editor.commands.deleteRange({ from: end - 1, to: end })
+
+    await vi.waitFor(() => expect(completionPluginKey.getState(editor.state)?.candidates[0]?.source).toBe('cache'))
+    expect(getCompletionStream).toHaveBeenCalledTimes(2)
+  })
+
+  it('修改触发策略后对已打开的编辑器立即生效', async () => {
+    vi.mocked(getCompletionStream).mockImplementation(async function* () {
+      yield '，欢迎'
+      yield '选购'
+    })
+    const policy = { ...DEFAULT_COMPLETION_POLICY, debounceMs: 50, minChars: 20 }
+    const editor = mountEditor(undefined, policy)
+    editors.push(editor)
+
+    type(editor, '夏季新品上市了')
+    await new Promise(resolve => setTimeout(resolve, 100))
+    expect(getCompletionStream).not.toHaveBeenCalled()
+
+    policy.minChars = 2
+    policy.maxSuggestionLength = 3
+    type(editor, '！')
+    await vi.waitFor(() => expect(suggestionOf(editor)).toBe('，欢迎'))
+    expect(getCompletionStream).toHaveBeenCalledTimes(1)
+  })
+
+  it('光标在段落中间时建议以浮层显示，不挤开后面的文字', async () => {
+    vi.mocked(getCompletionStream).mockImplementation(async function* () {
+      yield '全新'
+    })
+    const [editor] = editors
+
+    type(editor, '夏季新品上市了')
+    await vi.waitFor(() => expect(suggestionOf(editor)).toBe('全新'))
+    expect(editor.view.dom.querySelector('.completion-suggestion')).not.toBeNull()
+    expect(editor.view.dom.querySelector('.completion-anchor')).toBeNull()
+
+    editor.commands.setTextSelection(6)
+    await vi.waitFor(() => expect(completionPluginKey.getState(editor.state)?.position).toBe(6))
+    await vi.waitFor(() => expect(suggestionOf(editor)).toBe('全新'))
+    const anchor = editor.view.dom.querySelector('.completion-anchor')
+    expect(anchor?.querySelector('.completion-suggestion-overlay')?.textContent).toBe('全新')
+    expect(editor.getText()).toBe('夏季新品上市了')
+  })
+
+  it('修改分类加权后应该重建索引并调整排序', async () => {
+    const policy = { ...DEFAULT_COMPLETION_POLICY, debounceMs: 0 }
+    const editor = mountExactEditor({ policy })
+    editors.push(editor)
+
+    type(editor, '版权')
+    await vi.waitFor(() => expect(firstEntryOf(editor)).toBe('a'))
+
+    policy.categoryWeights = { 品牌: 1 }
+    type(editor, '所')
+    await vi.waitFor(() => expect(firstEntryOf(editor)).toBe('b'))
+  })
+
+  it('应该加载并保存条目的使用记录', async () => {
+    const onUsage = vi.fn()
+    const editor = mountExactEditor({ loadUsage: async () => new Map([['b', Date.now()]]), onUsage })
+    editors.push(editor)
+
+    type(editor, '版权')
+    await vi.waitFor(() => expect(firstEntryOf(editor)).toBe('b'))
+    editor.commands.acceptCompletion()
+
+    expect(onUsage).toHaveBeenCalledWith('b', expect.any(Number))
+    expect(editor.getText()).toBe('版权所有，翻印必究。')
+  })
+})
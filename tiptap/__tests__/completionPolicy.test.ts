@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { DEFAULT_COMPLETION_POLICY, limitSuggestion, normalizeCompletionPolicy, shouldRequestAI } from '../completionPolicy'
+
+describe('completionPolicy', () => {
+  it('缺失或非法的字段应该使用默认值', () => {
+    expect(normalizeCompletionPolicy(undefined)).toEqual(DEFAULT_COMPLETION_POLICY)
+    expect(normalizeCompletionPolicy({ debounceMs: 'abc', minChars: -3, maxSuggestionLength: 99999, disableAIOnMobile: true }))
+      .toEqual({ ...DEFAULT_COMPLETION_POLICY, minChars: 0, maxSuggestionLength: 2000, disableAIOnMobile: true })
+    expect(normalizeCompletionPolicy({ categoryWeights: { 品牌: 0.5, 地址: '1', 口号: 'abc', 活动: 10 } }).categoryWeights)
+      .toEqual({ 品牌: 0.5, 地址: 1, 活动: 2 })
+  })
+
+  it('应该按最少字数和标点边界判断是否请求 AI', () => {
+    const policy = { ...DEFAULT_COMPLETION_POLICY, minChars: 4, triggerOnlyAfterBoundary: true }
+
+    expect(shouldRequestAI(policy, '新品')).toBe(false)
+    expect(shouldRequestAI(policy, '夏季新品上市')).toBe(false)
+    expect(shouldRequestAI(policy, '夏季新品上市，')).toBe(true)
+    expect(shouldRequestAI(policy, 'Summer sale ')).toBe(true)
+  })
+
+  it('应该按最大字数截断建议', () => {
+    expect(limitSuggestion('欢迎选购', { ...DEFAULT_COMPLETION_POLICY, maxSuggestionLength: 2 })).toBe('欢迎')
+    expect(limitSuggestion('欢迎选购', DEFAULT_COMPLETION_POLICY)).toBe('欢迎选购')
+  })
+})
@@ -0,0 +1,14 @@
+import type { StandardInfo } from '../../../types'
+
+// 用固定种子生成互不相同的中文条目，测试和性能基准共用
+export const bulkEntries = (count: number): StandardInfo[] => {
+  let seed = 1
+  const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647
+  const han = () => String.fromCharCode(0x4e00 + Math.floor(random() * 3000))
+  return Array.from({ length: count }, (_, i) => ({
+    id: `bulk_${i}`,
+    projectId: 'p',
+    category: i % 2 ? '产品' : '品牌',
+    content: `${Array.from({ length: 12 }, han).join('')}。`,
+  }))
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { Editor } from '@tiptap/core'
+import StarterKit from '@tiptap/starter-kit'
+import { CompletionPlugin, completionPluginKey } from '../completion'
+import { DEFAULT_COMPLETION_POLICY } from '../completionPolicy'
+import { cutSlice, parseHTML, sliceText, toPlainText, toSuggestionSlice } from '../richSuggestion'
+import { getCompletionStream } from '../../services/geminiService'
+import type { StandardInfo } from '../../types'
+
+vi.mock('../../services/geminiService', () => ({
+  getCompletionStream: vi.fn(),
+}))
+
+const mountEditor = (standardInfo: StandardInfo[], rewrite = false) => {
+  const element = document.createElement('div')
+  document.body.append(element)
+  return new Editor({
+    element,
+    extensions: [
+      StarterKit,
+      CompletionPlugin.configure({
+        getStandardInfo: () => standardInfo,
+        getRewriteMode: () => rewrite,
+        getPolicy: () => ({ ...DEFAULT_COMPLETION_POLICY, debounceMs: 0 }),
+      }),
+    ],
+    content: '<p></p>',
+  })
+}
+
+const type = (editor: Editor, text: string) => {
+  editor.chain().focus('end').insertContent(text).run()
+}
+
+const suggestionOf = (editor: Editor) => completionPluginKey.getState(editor.state)?.suggestion
+
+describe('富文本建议', () => {
+  let editor: Editor
+
+  afterEach(() => {
+    editor?.destroy()
+    document.body.innerHTML = ''
+  })
+
+  it('按纯文本偏移切分 Slice', () => {
+    editor = mountEditor([])
+    const slice = toSuggestionSlice(editor.schema, '<p><strong>活出阳光</strong>，活出精彩。</p><p>第二段</p>', 'html', 2)
+
+    expect(sliceText(slice)).toBe('阳光，活出精彩。\n第二段')
+    expect(sliceText(cutSlice(slice, 0, 3))).toBe('阳光，')
+    expect(sliceText(cutSlice(slice, 8))).toBe('\n第二段')
+    expect(toPlainText('<p><strong>活出阳光</strong>，活出精彩。</p><p>第二段</p>')).toBe('活出阳光，活出精彩。\n第二段')
+  })
+
+  it('块级元素旁边的文字不应丢失', () => {
+    expect(toPlainText('前言<p>正文</p>')).toBe('前言\n正文')
+    expect(toPlainText('<div>标题<p>第一段</p>结尾 <em>说明</em></div>')).toBe('标题\n第一段\n结尾 说明')
+  })
+
+  it('解析知识库 HTML 时不在当前页面中创建元素，onerror 等脚本不会执行', () => {
+    editor = mountEditor([])
+    const payload = '<img src="x" onerror="window.__xss = true"><p>正文</p>'
+    // 测试环境不执行内联事件，这里检查解析发生在独立的文档中，且没有在当前页面上创建元素或设置 innerHTML
+    const setInnerHTML = vi.spyOn(Element.prototype, 'innerHTML', 'set')
+    const createElement = vi.spyOn(document, 'createElement')
+
+    expect(toPlainText(payload)).toBe('正文')
+    expect(sliceText(toSuggestionSlice(editor.schema, payload, 'html'))).toBe('正文')
+    const body = parseHTML(payload)
+
+    expect(setInnerHTML).not.toHaveBeenCalled()
+    expect(createElement).not.toHaveBeenCalled()
+    expect(body.ownerDocument).not.toBe(document)
+    expect((window as { __xss?: boolean }).__xss).toBeUndefined()
+    setInnerHTML.mockRestore()
+    createElement.mockRestore()
+  })
+
+  it('知识库条目的样式在预览和插入时都应保留', async () => {
+    editor = mountEditor([{ id: 'si_1', projectId: 'p', category: '品牌', content: '<p><strong>活出阳光</strong>，活出精彩。</p>' }])
+
+    type(editor, '活出')
+    await vi.waitFor(() => expect(suggestionOf(editor)).toBe('阳光，活出精彩。'))
+    expect(editor.view.dom.querySelector('.completion-suggestion strong')?.textContent).toBe('阳光')
+
+    editor.commands.acceptCompletion()
+    expect(editor.getHTML()).toBe('<p>活出<strong>阳光</strong>，活出精彩。</p>')
+  })
+
+  it('多段落的 AI 建议应该分段预览并按段落插入', async () => {
+    vi.mocked(getCompletionStream).mockImplementation(async function* () {
+      yield '，欢迎选购。\n\n**限时**优惠'
+    })
+    editor = mountEditor([], true)
+
+    type(editor, '夏季新品上市了')
+    await vi.waitFor(() => expect(suggestionOf(editor)).toBe('，欢迎选购。\n限时优惠'))
+    expect(editor.view.dom.querySelector('.completion-suggestion-block strong')?.textContent).toBe('限时')
+
+    // 先接受一个分句（连同句末的换行），剩余部分仍保留样式
+    editor.commands.acceptCompletionSegment()
+    expect(suggestionOf(editor)).toBe('限时优惠')
+    expect(editor.view.dom.querySelector('.completion-suggestion strong')?.textContent).toBe('限时')
+
+    editor.commands.acceptCompletion()
+    expect(editor.getHTML()).toBe('<p>夏季新品上市了，欢迎选购。</p><p><strong>限时</strong>优惠</p>')
+  })
+})
@@ -0,0 +1,49 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { nextSegmentLength, nextWordLength } from '../segmentation'
+
+describe('segmentation', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.resetModules()
+  })
+
+  it('中文按词切分，前面的标点和空白归入下一个词', () => {
+    expect(nextWordLength('夏季新品上市了')).toBe(2)
+    expect(nextWordLength('，欢迎选购')).toBe(3)
+    expect(nextWordLength('')).toBe(0)
+    expect(nextWordLength('……')).toBe(2)
+  })
+
+  it('中英文混排时英文单词整体接受', () => {
+    expect(nextWordLength('iPhone 新品发布')).toBe(6)
+    expect(nextWordLength(' 新品发布')).toBe(3)
+    expect(nextWordLength('Hello world，你好')).toBe(5)
+  })
+
+  it('逐句接受到下一个标点为止，并带上其后的引号和空白', () => {
+    expect(nextSegmentLength('活出阳光，活出精彩。')).toBe(5)
+    expect(nextSegmentLength('，活出精彩。')).toBe(6)
+    expect(nextSegmentLength('他说：“好。”然后离开')).toBe(3)
+    expect(nextSegmentLength('“好。”然后离开')).toBe(4)
+    expect(nextSegmentLength('Hello, world')).toBe(7)
+    expect(nextSegmentLength('没有标点的建议')).toBe(7)
+  })
+
+  it('英文句点后面没有空白时不算分句', () => {
+    expect(nextSegmentLength('售价 5.5 元，欢迎咨询')).toBe(9)
+    expect(nextSegmentLength('联系 support@summerco.com 获取')).toBe(26)
+  })
+
+  it('没有 Intl.Segmenter 时按单个汉字或整个英文单词切分', async () => {
+    // 分词器在模块加载时创建，需要去掉 Intl.Segmenter 后重新导入
+    vi.stubGlobal('Intl', {})
+    vi.resetModules()
+    const { nextWordLength: fallback } = await import('../segmentation')
+
+    expect(fallback('夏季新品')).toBe(1)
+    expect(fallback('，欢迎')).toBe(2)
+    expect(fallback('iPhone 新品')).toBe(6)
+    expect(fallback(' 新品')).toBe(2)
+    expect(fallback('……')).toBe(2)
+  })
+})
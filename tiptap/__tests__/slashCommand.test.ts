@@ -0,0 +1,119 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { Editor } from '@tiptap/core'
+import StarterKit from '@tiptap/starter-kit'
+import { SlashCommand, getSlashCommandItems, slashCommandPluginKey } from '../slashCommand'
+import { StandardInfoReference } from '../standardInfoReference'
+import type { StandardInfo } from '../../types'
+
+const entries: StandardInfo[] = [
+  { id: 'si_1', projectId: 'p', category: '品牌', content: '活出阳光，活出精彩。', updatedAt: '2025-06-01T00:00:00.000Z' },
+  { id: 'si_2', projectId: 'p', category: '地址', content: '上海市徐汇区漕溪北路 88 号' },
+  { id: 'si_3', projectId: 'p', category: '品牌', content: '<p><strong>简约</strong>，不简单。</p><p>第二段</p>' },
+  { id: 'si_4', projectId: 'p', category: '', content: '客服电话 400-800-1234' },
+]
+
+const mountEditor = () => {
+  const element = document.createElement('div')
+  document.body.append(element)
+  return new Editor({
+    element,
+    extensions: [
+      StarterKit,
+      SlashCommand.configure({ getStandardInfo: () => entries }),
+      StandardInfoReference.configure({ getStandardInfo: () => entries }),
+    ],
+    content: '<p></p>',
+  })
+}
+
+const type = (editor: Editor, text: string) => {
+  editor.chain().focus('end').insertContent(text).run()
+}
+
+const press = (editor: Editor, key: string, init: KeyboardEventInit = {}) => {
+  editor.view.dom.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init }))
+}
+
+const menuOf = (editor: Editor) => slashCommandPluginKey.getState(editor.state)
+
+describe('SlashCommand', () => {
+  let editor: Editor
+
+  afterEach(() => {
+    editor?.destroy()
+    document.body.innerHTML = ''
+  })
+
+  it('按内容或分类过滤条目，并按分类分组排列', () => {
+    expect(getSlashCommandItems(entries, '').map(info => info.id)).toEqual(['si_1', 'si_3', 'si_2', 'si_4'])
+    expect(getSlashCommandItems(entries, '品牌').map(info => info.id)).toEqual(['si_1', 'si_3'])
+    // HTML 条目按纯文本匹配，不会匹配到标签名
+    expect(getSlashCommandItems(entries, '简约').map(info => info.id)).toEqual(['si_3'])
+    expect(getSlashCommandItems(entries, 'strong')).toEqual([])
+    expect(getSlashCommandItems(entries, '400').map(info => info.id)).toEqual(['si_4'])
+  })
+
+  it('只在段首或空白、中文之后的“/”弹出菜单', () => {
+    editor = mountEditor()
+
+    type(editor, '/品')
+    expect(menuOf(editor)).toMatchObject({ active: true, query: '品', from: 1 })
+
+    editor.commands.setContent('<p></p>')
+    type(editor, 'a/b')
+    expect(menuOf(editor)?.active).toBe(false)
+
+    editor.commands.setContent('<p></p>')
+    type(editor, '地址：/')
+    expect(menuOf(editor)).toMatchObject({ active: true, query: '' })
+  })
+
+  it('方向键循环选择，Enter 插入选中的条目并替换查询词', () => {
+    editor = mountEditor()
+    type(editor, '口号是/品牌')
+
+    press(editor, 'ArrowUp')
+    expect(menuOf(editor)?.selectedIndex).toBe(1)
+    press(editor, 'ArrowDown')
+    press(editor, 'ArrowDown')
+    expect(menuOf(editor)?.selectedIndex).toBe(1)
+    press(editor, 'ArrowUp')
+    press(editor, 'Enter')
+
+    expect(editor.getText()).toBe('口号是活出阳光，活出精彩。')
+    expect(menuOf(editor)?.active).toBe(false)
+  })
+
+  it('HTML 条目插入时保留样式和段落', () => {
+    editor = mountEditor()
+    type(editor, '/简约')
+    press(editor, 'Tab')
+
+    expect(editor.getHTML()).toBe('<p><strong>简约</strong>，不简单。</p><p>第二段</p>')
+  })
+
+  it('Ctrl+Enter 插入链接引用', () => {
+    editor = mountEditor()
+    type(editor, '/阳光')
+    press(editor, 'Enter', { ctrlKey: true })
+
+    expect(editor.getHTML()).toContain('data-standard-info-id="si_1"')
+    expect(editor.getText()).toBe('活出阳光，活出精彩。')
+  })
+
+  it('Escape 关闭后继续输入不再弹出，删掉“/”后重新输入会再次弹出', () => {
+    editor = mountEditor()
+    type(editor, '/品')
+    press(editor, 'Escape')
+    expect(menuOf(editor)?.active).toBe(false)
+
+    type(editor, '牌')
+    expect(menuOf(editor)?.active).toBe(false)
+    press(editor, 'Enter')
+    expect(editor.getText()).not.toContain('活出阳光')
+
+    editor.commands.setContent('<p></p>')
+    type(editor, '/')
+    expect(menuOf(editor)?.active).toBe(true)
+  })
+})
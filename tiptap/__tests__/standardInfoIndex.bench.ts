@@ -0,0 +1,19 @@
+import { bench, describe } from 'vitest'
+import { StandardInfoIndex } from '../standardInfoIndex'
+import { MOCK_STANDARD_INFO } from '../../constants'
+import { bulkEntries } from './fixtures/bulkStandardInfo'
+
+// 性能基准，不在 vitest run 中执行：npx vitest bench
+describe('StandardInfoIndex', () => {
+  const many = bulkEntries(3000)
+  const index = new StandardInfoIndex([...MOCK_STANDARD_INFO, ...many])
+  let i = 0
+
+  bench('3000 个条目时按前缀查询', () => {
+    index.search(`我们的口号是${many[i++ % many.length].content.slice(0, 2)}`)
+  })
+
+  bench('3000 个条目时按拼音首字母查询', () => {
+    index.search('口号 hsyg')
+  })
+})
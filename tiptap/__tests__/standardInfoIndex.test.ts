@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest'
+import { StandardInfoIndex } from '../standardInfoIndex'
+import { MOCK_STANDARD_INFO } from '../../constants'
+import type { StandardInfo } from '../../types'
+import { bulkEntries } from './fixtures/bulkStandardInfo'
+
+const entries: StandardInfo[] = MOCK_STANDARD_INFO.map(info => ({ ...info }))
+
+describe('StandardInfoIndex', () => {
+  it('应该匹配段落开头的前缀', () => {
+    const index = new StandardInfoIndex(entries)
+    const [match] = index.search('活出')
+
+    expect(match.info.id).toBe('si_1')
+    expect(match).toMatchObject({ kind: 'text', matchedLength: 2, cost: 0 })
+  })
+
+  it('应该匹配段落末尾的词而不是整段', () => {
+    const index = new StandardInfoIndex(entries)
+    const [match] = index.search('我们的品牌口号是：活出阳')
+
+    expect(match.info.id).toBe('si_1')
+    expect(match.matchedLength).toBe(3)
+  })
+
+  it('应该支持拼音首字母和全拼', () => {
+    const index = new StandardInfoIndex(entries)
+
+    expect(index.search('口号 hcyg')[0]).toMatchObject({ kind: 'initials', matchedLength: 4, cost: 0 })
+    expect(index.search('口号 hcyg')[0].info.id).toBe('si_1')
+    expect(index.search('huochuyang')[0]).toMatchObject({ kind: 'pinyin', cost: 0 })
+  })
+
+  it('应该容忍一个字符的输入错误', () => {
+    const index = new StandardInfoIndex(entries)
+    const [match] = index.search('hsyg')
+
+    expect(match.info.id).toBe('si_1')
+    expect(match.cost).toBe(1)
+  })
+
+  it('短查询不做模糊匹配', () => {
+    const index = new StandardInfoIndex(entries)
+    expect(index.search('hs')).toHaveLength(0)
+  })
+
+  it('应该按近期使用和分类加权排序', () => {
+    const now = Date.parse('2025-06-01T00:00:00Z')
+    const similar: StandardInfo[] = [
+      { id: 'a', projectId: 'p', category: '法律', content: '版权所有，侵权必究。' },
+      { id: 'b', projectId: 'p', category: '品牌', content: '版权所有，翻印必究。' },
+    ]
+
+    const byCategory = new StandardInfoIndex(similar, { categoryWeights: { 品牌: 1 }, now: () => now })
+    expect(byCategory.search('版权')[0].info.id).toBe('b')
+
+    const byUsage = new StandardInfoIndex(similar, { now: () => now })
+    expect(byUsage.search('版权', new Map([['b', now - 1000]]))[0].info.id).toBe('b')
+  })
+
+  it('几千个条目时仍然按前缀找到对应的条目', () => {
+    const many = bulkEntries(3000)
+    const index = new StandardInfoIndex([...entries, ...many])
+
+    // 查询耗时见 standardInfoIndex.bench.ts，不放在测试中，避免在较慢的机器上误报
+    for (const entry of many.slice(0, 20)) {
+      const [match] = index.search(`我们的口号是${entry.content.slice(0, 4)}`)
+      expect(match.info.id).toBe(entry.id)
+    }
+    expect(index.search('口号 hsyg')[0].info.id).toBe(entries[0].id)
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { Editor } from '@tiptap/core'
+import StarterKit from '@tiptap/starter-kit'
+import { StandardInfoReference, countOutdatedReferences, findOutdatedReferences } from '../standardInfoReference'
+import type { StandardInfo } from '../../types'
+
+const slogan: StandardInfo = {
+  id: 'si_1',
+  projectId: 'p',
+  category: '品牌',
+  content: '活出阳光，活出精彩。',
+  updatedAt: '2025-06-01T00:00:00.000Z',
+}
+
+const updatedSlogan: StandardInfo = { ...slogan, content: '活出阳光，活出自我。', updatedAt: '2025-07-01T00:00:00.000Z' }
+
+// 与编辑器组件一样通过 getter 读取条目，测试中可以替换 current 模拟条目被修改
+const mountEditor = (standardInfo: StandardInfo[] | { current: StandardInfo[] }, content = '<p></p>') => {
+  const entries = Array.isArray(standardInfo) ? { current: standardInfo } : standardInfo
+  const element = document.createElement('div')
+  document.body.append(element)
+  return new Editor({
+    element,
+    extensions: [StarterKit, StandardInfoReference.configure({ getStandardInfo: () => entries.current })],
+    content,
+  })
+}
+
+const referenceHTML = (info: StandardInfo) => {
+  const editor = mountEditor([info])
+  editor.commands.insertStandardInfoReference(info)
+  const html = editor.getHTML()
+  editor.destroy()
+  return html
+}
+
+describe('StandardInfoReference', () => {
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('保存的 HTML 中应该带有条目 id 和内容副本', () => {
+    const html = referenceHTML(slogan)
+
+    expect(html).toContain('data-standard-info-id="si_1"')
+    expect(html).toContain('data-synced-at="2025-06-01T00:00:00.000Z"')
+    expect(html).toContain('活出阳光，活出精彩。')
+  })
+
+  it('编辑器中显示条目当前的内容并标记为过期', () => {
+    const editor = mountEditor([updatedSlogan], referenceHTML(slogan))
+    const dom = editor.view.dom.querySelector('.standard-info-ref')
+
+    expect(dom?.textContent).toBe('活出阳光，活出自我。')
+    expect(dom?.classList.contains('is-outdated')).toBe(true)
+    expect(countOutdatedReferences(editor.state.doc, [updatedSlogan])).toBe(1)
+    editor.destroy()
+  })
+
+  it('同步后副本更新为最新内容', () => {
+    const editor = mountEditor([updatedSlogan], referenceHTML(slogan))
+
+    expect(editor.commands.syncStandardInfoReferences()).toBe(true)
+    expect(countOutdatedReferences(editor.state.doc, [updatedSlogan])).toBe(0)
+    expect(editor.getHTML()).toContain('活出阳光，活出自我。')
+    expect(editor.commands.syncStandardInfoReferences()).toBe(false)
+    editor.destroy()
+  })
+
+  it('编辑器打开后修改条目，引用的显示和同步都使用最新内容', () => {
+    const entries = { current: [slogan] }
+    const editor = mountEditor(entries, referenceHTML(slogan))
+    const dom = () => editor.view.dom.querySelector('.standard-info-ref')
+    expect(editor.commands.syncStandardInfoReferences()).toBe(false)
+
+    entries.current = [updatedSlogan]
+    editor.storage.standardInfoReference.refresh()
+    expect(dom()?.textContent).toBe('活出阳光，活出自我。')
+    expect(dom()?.classList.contains('is-outdated')).toBe(true)
+
+    expect(editor.commands.syncStandardInfoReferences()).toBe(true)
+    expect(editor.getHTML()).toContain('活出阳光，活出自我。')
+    expect(dom()?.classList.contains('is-outdated')).toBe(false)
+    editor.destroy()
+  })
+
+  it('解除链接后变成普通文本', () => {
+    const editor = mountEditor([updatedSlogan], referenceHTML(slogan))
+    let position = -1
+    editor.state.doc.descendants((node, pos) => {
+      if (node.type.name === 'standardInfoReference') position = pos
+    })
+
+    editor.commands.detachStandardInfoReference(position)
+
+    expect(editor.getHTML()).toBe('<p>活出阳光，活出自我。</p>')
+    editor.destroy()
+  })
+
+  it('条目内容已清空时解除链接会删除引用，而不是抛出错误', () => {
+    const emptied: StandardInfo = { ...slogan, content: '<p></p>', updatedAt: '2025-07-01T00:00:00.000Z' }
+    const editor = mountEditor([emptied], referenceHTML(slogan).replace('<p>', '<p>口号：'))
+    let position = -1
+    editor.state.doc.descendants((node, pos) => {
+      if (node.type.name === 'standardInfoReference') position = pos
+    })
+
+    expect(editor.commands.detachStandardInfoReference(position)).toBe(true)
+    expect(editor.getHTML()).toBe('<p>口号：</p>')
+    editor.destroy()
+  })
+
+  it('报告中列出内容已过期的文档', () => {
+    const documents = [
+      { id: 'd1', title: '夏季推广', content: referenceHTML(slogan) },
+      { id: 'd2', title: '秋季推广', content: referenceHTML(updatedSlogan) },
+      { id: 'd3', title: '普通文档', content: '<p>活出阳光，活出精彩。</p>' },
+    ]
+
+    const outdated = findOutdatedReferences(documents, [updatedSlogan])
+
+    expect(outdated).toHaveLength(1)
+    expect(outdated[0]).toMatchObject({ documentId: 'd1', standardInfoId: 'si_1', content: '活出阳光，活出精彩。' })
+  })
+})
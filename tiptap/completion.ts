@@ -1,14 +1,52 @@
 
-import { Editor, Extension } from '@tiptap/core';
-import { Plugin, PluginKey, Transaction } from 'prosemirror-state';
-import { Decoration, DecorationSet } from 'prosemirror-view';
+import { Extension } from '@tiptap/core';
+import type { Command } from '@tiptap/core';
+import { EditorState, Plugin, PluginKey, Transaction } from 'prosemirror-state';
+import type { Schema, Slice } from 'prosemirror-model';
+import { Decoration, DecorationSet, EditorView } from 'prosemirror-view';
 import type { StandardInfo } from '../types';
-import { getCompletionStream } from '../services/geminiService';
+import { getCompletionStream, type CompletionPromptOptions } from '../services/geminiService';
+import { AIUnavailableError } from '../src/services/resilience';
+import { nextSegmentLength, nextWordLength } from './segmentation';
+import { StandardInfoIndex } from './standardInfoIndex';
+import { CompletionTelemetry, type CompletionTelemetryEvent } from './completionTelemetry';
+import { cutSlice, hasMarkdown, isPlainSlice, isRichText, renderSlicePreview, sliceText, toSuggestionSlice } from './richSuggestion';
+import { DEFAULT_COMPLETION_POLICY, limitSuggestion, shouldRequestAI, type CompletionTriggerPolicy } from './completionPolicy';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    completion: {
+      /** 接受整条补全建议 */
+      acceptCompletion: () => ReturnType;
+      /** 只接受建议中的下一个词，其余部分继续作为建议显示 */
+      acceptCompletionWord: () => ReturnType;
+      /** 接受建议到下一个标点为止（一个分句），其余部分继续作为建议显示 */
+      acceptCompletionSegment: () => ReturnType;
+    };
+  }
+}
+
+// cache：同一编辑器中相同上下文此前已完整生成过的 AI 建议
+export type CompletionSource = 'exact' | 'ai' | 'cache';
+
+export interface CompletionCandidate {
+  text: string;
+  source: CompletionSource;
+  // 接受时要替换掉的光标前字符数，拼音或错字匹配时会把已输入的部分换成条目原文
+  replace?: number;
+  // 来源于知识库条目时记录条目 id，接受后用于近期使用加权
+  entryId?: string;
+  // 带样式或多个段落的建议，text 为它的纯文本（段落之间用 '\n' 分隔）；没有时按纯文本插入
+  slice?: Slice;
+}
 
 // Fix: Export CompletionState interface to use it in the PluginKey type.
 export interface CompletionState {
   active: boolean;
+  // The currently selected candidate's text, kept in sync with `candidates[index]`.
   suggestion: string;
+  candidates: CompletionCandidate[];
+  index: number;
   position: number;
 }
 
@@ -16,50 +54,265 @@ export interface CompletionState {
 export const completionPluginKey = new PluginKey<CompletionState>('completion');
 
 interface CompletionOptions {
-  standardInfo: StandardInfo[];
+  // 每次触发时读取，知识库条目修改后索引随之重建
+  getStandardInfo: () => StandardInfo[];
   getRewriteMode: () => boolean;
+  // 每次触发时读取，设置修改后对已打开的编辑器立即生效
+  getPolicy: () => CompletionTriggerPolicy;
+  // 加载此前保存的条目使用记录（条目 id → 最近一次被接受的时间），用于近期使用加权
+  loadUsage?: () => Promise<Map<string, number>>;
+  // 接受知识库条目的建议时回调，用于保存使用记录
+  onUsage?: (entryId: string, usedAt: number) => void;
+  // 每条建议结束（接受、Escape 关闭或被忽略）时回调，用于本地统计
+  onTelemetry?: (event: CompletionTelemetryEvent) => void;
+  // 每次请求 AI 建议时读取：检索范围、提示词模板、文档标题和项目的文案风格
+  getPromptOptions: () => CompletionPromptOptions;
 }
 
-const acceptSuggestion = (editor: Editor) => {
+interface CompletionStorage {
+  css: string;
+  // 条目 id → 最近一次被接受的时间
+  usage: Map<string, number>;
+  recordUsage: (entryId: string) => void;
+  // 上下文 → 完整的 AI 建议，最多保留 AI_CACHE_SIZE 条
+  aiCache: Map<string, string>;
+  telemetry: CompletionTelemetry;
+}
+
+const AI_CACHE_SIZE = 50;
+
+const emptyState = (): CompletionState => ({ active: false, suggestion: '', candidates: [], index: 0, position: 0 });
+
+// 选中第 index 个候选，越界时循环
+const selectCandidate = (candidates: CompletionCandidate[], index: number): Partial<CompletionState> => {
+  if (candidates.length === 0) {
+    return { active: false, suggestion: '', candidates: [], index: 0 };
+  }
+  const wrapped = ((index % candidates.length) + candidates.length) % candidates.length;
+  return { active: true, suggestion: candidates[wrapped].text, candidates, index: wrapped };
+};
+
+// 把索引的匹配结果转换成候选：精确的原文前缀只补出剩余部分，拼音和错字匹配则替换已输入的部分。
+// 传入 schema 时，HTML 格式的条目会保留样式和段落
+export const findStandardInfoMatches = (
+  index: StandardInfoIndex,
+  before: string,
+  usage?: ReadonlyMap<string, number>,
+  schema?: Schema
+): CompletionCandidate[] => {
+  const seen = new Set<string>();
+
+  return index.search(before, usage)
+    .map(({ info, kind, matchedLength, cost }): CompletionCandidate => {
+      const skip = kind === 'text' && cost === 0 ? matchedLength : 0;
+      const candidate: CompletionCandidate = kind === 'text' && cost === 0
+        ? { text: info.content.substring(skip), source: 'exact', entryId: info.id }
+        : { text: info.content, source: 'exact', replace: matchedLength, entryId: info.id };
+
+      if (schema && isRichText(info.content)) {
+        candidate.slice = toSuggestionSlice(schema, info.content, 'html', skip);
+        candidate.text = sliceText(candidate.slice);
+      }
+      return candidate;
+    })
+    .filter(candidate => {
+      const key = `${candidate.replace ?? 0}:${candidate.text}`;
+      if (!candidate.text || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+// 接受当前建议开头的 measure(suggestion) 个字符；剩余部分在同一事务中作为新的建议保留
+const acceptPartialSuggestion = (measure: (suggestion: string) => number): Command => ({ state, tr, dispatch, editor }) => {
   // Fix: Use the exported completionPluginKey to get the plugin state.
-  const state = completionPluginKey.getState(editor.state);
-  if (!state || !state.active || !state.suggestion) {
+  const pluginState = completionPluginKey.getState(state);
+  if (!pluginState || !pluginState.active || !pluginState.suggestion) {
     return false;
   }
+  if (!dispatch) {
+    return true;
+  }
+
+  const length = Math.max(1, measure(pluginState.suggestion));
+  const accepted = pluginState.suggestion.slice(0, length);
+  const remainder = pluginState.suggestion.slice(length);
+  const candidate = pluginState.candidates[pluginState.index];
+  const from = pluginState.position - (candidate.replace ?? 0);
+  const acceptedSlice = candidate.slice && cutSlice(candidate.slice, 0, length);
+
+  const storage = editor.storage.completion as CompletionStorage;
+  if (candidate.entryId) {
+    storage.recordUsage(candidate.entryId);
+  }
+  storage.telemetry.accept(candidate, accepted.length);
 
-  editor.chain().focus()
-    .insertContentAt(state.position, state.suggestion)
-    .run();
-  
+  if (acceptedSlice && !isPlainSlice(acceptedSlice)) {
+    // 富文本建议按 Slice 插入，保留样式；首尾段落与光标所在段落合并，中间的段落原样插入
+    tr.replaceRange(from, pluginState.position, acceptedSlice);
+  } else {
+    // 以纯文本插入：继承光标处的样式，也不会在段落中间把内容拆成新段落
+    tr.insertText(accepted, from, pluginState.position);
+  }
+  if (remainder) {
+    tr.setMeta(completionPluginKey, {
+      ...selectCandidate([{ ...candidate, text: remainder, replace: 0, slice: candidate.slice && cutSlice(candidate.slice, length) }], 0),
+      position: tr.mapping.map(pluginState.position),
+    });
+  }
+  return true;
+};
+
+const cycleSuggestion = (view: EditorView, step: number, telemetry: CompletionTelemetry) => {
+  const state = completionPluginKey.getState(view.state);
+  if (!state || !state.active || state.candidates.length < 2) {
+    return false;
+  }
+
+  const next = selectCandidate(state.candidates, state.index + step);
+  telemetry.show(state.candidates, next.index ?? 0);
+  view.dispatch(view.state.tr.setMeta(completionPluginKey, next));
   return true;
 };
 
 const clearSuggestion = (tr: Transaction) => {
     // Fix: Use the exported completionPluginKey to set meta.
-    return tr.setMeta(completionPluginKey, { active: false, suggestion: null, position: null });
+    return tr.setMeta(completionPluginKey, emptyState());
+}
+
+// AI 流式结果作为最后一个候选，随每个分片原地更新，不打断用户当前选中的候选
+const upsertAICandidate = (
+  state: EditorState,
+  text: string,
+  position: number,
+  source: CompletionSource = 'ai'
+): Partial<CompletionState> => {
+  const current = completionPluginKey.getState(state);
+  const candidates = current?.active && current.position === position ? current.candidates : [];
+  const exact = candidates.filter(candidate => candidate.source === 'exact');
+  const index = current?.active && current.position === position ? current.index : 0;
+  // 多段落或带 Markdown 样式的输出转换成 Slice
+  const slice = hasMarkdown(text) ? toSuggestionSlice(state.schema, text, 'markdown') : undefined;
+  const candidate: CompletionCandidate = slice ? { text: sliceText(slice), source, slice } : { text, source };
+  return { ...selectCandidate([...exact, candidate], index), position };
+};
+
+// 光标前后的同段落文本，用于中间补全（fill-in-the-middle）
+export interface CursorContext {
+  before: string;
+  after: string;
 }
 
-let debounceTimer: number | null = null;
-let abortController: AbortController | null = null;
+const isWordChar = (char: string) => /[A-Za-z0-9_]/.test(char);
+
+export const getCursorContext = (state: EditorState): CursorContext | null => {
+  const { selection } = state;
+  if (!selection.empty || !selection.$from.parent.isTextblock) {
+    return null;
+  }
+
+  const { parent, parentOffset } = selection.$from;
+  const before = parent.textBetween(0, parentOffset, undefined, '\ufffc');
+  const after = parent.textBetween(parentOffset, parent.content.size, undefined, '\ufffc');
+
+  // 光标落在英文单词中间时不补全，避免把一个单词拆开
+  if (before && after && isWordChar(before[before.length - 1]) && isWordChar(after[0])) {
+    return null;
+  }
+
+  return { before, after };
+};
+
+// 去掉建议末尾与光标后文开头重复的部分，例如后文是“。”时不再重复补出句号
+export const trimOverlap = (suggestion: string, after: string) => {
+  for (let length = Math.min(suggestion.length, after.length); length > 0; length--) {
+    if (suggestion.endsWith(after.slice(0, length))) {
+      return suggestion.slice(0, suggestion.length - length);
+    }
+  }
+  return suggestion;
+};
+
+const trimCandidateOverlap = (candidate: CompletionCandidate, after: string): CompletionCandidate => {
+  const text = trimOverlap(candidate.text, after);
+  if (text === candidate.text) return candidate;
+  return { ...candidate, text, slice: candidate.slice && cutSlice(candidate.slice, 0, text.length) };
+};
+
+// 光标在段落末尾时建议直接接在文字后面；在段落中间时改为挂在光标处的浮层，不把后面的文字挤开
+const renderSuggestion = (pluginState: CompletionState, overlay: boolean) => {
+  const ghost = document.createElement('span');
+  ghost.className = overlay ? 'completion-suggestion completion-suggestion-overlay' : 'completion-suggestion';
+  const slice = pluginState.candidates[pluginState.index]?.slice;
+  if (slice) {
+    renderSlicePreview(slice, ghost);
+  } else {
+    ghost.textContent = pluginState.suggestion;
+  }
+
+  if (pluginState.candidates.length > 1) {
+    const hint = document.createElement('span');
+    hint.className = 'completion-hint';
+    hint.textContent = `${pluginState.index + 1} / ${pluginState.candidates.length}`;
+    ghost.append(hint);
+  }
+
+  if (!overlay) return ghost;
+  // 宽度为 0 的锚点占住光标位置，浮层相对它绝对定位
+  const anchor = document.createElement('span');
+  anchor.className = 'completion-anchor';
+  anchor.append(ghost);
+  return anchor;
+};
 
 export const CompletionPlugin = Extension.create<CompletionOptions>({
   name: 'completion',
-  
+
   addOptions() {
     return {
-      standardInfo: [],
+      getStandardInfo: () => [],
       getRewriteMode: () => false,
+      getPolicy: () => DEFAULT_COMPLETION_POLICY,
+      getPromptOptions: () => ({}),
+    };
+  },
+
+  addCommands() {
+    return {
+      acceptCompletion: () => acceptPartialSuggestion(suggestion => suggestion.length),
+      acceptCompletionWord: () => acceptPartialSuggestion(nextWordLength),
+      acceptCompletionSegment: () => acceptPartialSuggestion(nextSegmentLength),
+    };
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      'Ctrl-ArrowRight': () => this.editor.commands.acceptCompletionWord(),
+      'Ctrl-ArrowDown': () => this.editor.commands.acceptCompletionSegment(),
     };
   },
 
   addProseMirrorPlugins() {
+    // 索引在 standardInfo 数组或分类加权变化时重建，输入时只做查询
+    let index: StandardInfoIndex | null = null;
+    let indexedEntries: StandardInfo[] | null = null;
+    let indexedWeights: Record<string, number> | null = null;
+    const getIndex = (standardInfo: StandardInfo[], categoryWeights: Record<string, number>) => {
+      if (!index || indexedEntries !== standardInfo || indexedWeights !== categoryWeights) {
+        indexedEntries = standardInfo;
+        indexedWeights = categoryWeights;
+        index = new StandardInfoIndex(indexedEntries, { categoryWeights });
+      }
+      return index;
+    };
+
     return [
       new Plugin({
         // Fix: Use the exported completionPluginKey.
         key: completionPluginKey,
-        
+
         state: {
-          init: (): CompletionState => ({ active: false, suggestion: '', position: 0 }),
+          init: emptyState,
           apply: (tr, value): CompletionState => {
             // Fix: Use the exported completionPluginKey to get meta.
             const meta = tr.getMeta(completionPluginKey);
@@ -67,12 +320,12 @@ export const CompletionPlugin = Extension.create<CompletionOptions>({
               return { ...value, ...meta };
             }
             if (tr.docChanged || tr.selectionSet) {
-                 return { active: false, suggestion: '', position: 0 };
+                 return emptyState();
             }
             return value;
           },
         },
-        
+
         props: {
           decorations: (state) => {
             // Fix: Use the exported completionPluginKey to get the plugin state.
@@ -80,27 +333,41 @@ export const CompletionPlugin = Extension.create<CompletionOptions>({
             if (!pluginState || !pluginState.active || !pluginState.suggestion) {
               return DecorationSet.empty;
             }
-            
-            const decoration = Decoration.inline(
-              pluginState.position,
-              pluginState.position,
-              {
-                nodeName: 'span',
-                class: 'completion-suggestion',
-                'data-suggestion': pluginState.suggestion,
-              }
-            );
-            return DecorationSet.create(state.doc, [decoration]);
+
+            const $position = state.doc.resolve(pluginState.position);
+            const overlay = $position.parent.isTextblock && $position.parentOffset < $position.parent.content.size;
+            const decorations = [
+              Decoration.widget(
+                pluginState.position,
+                () => renderSuggestion(pluginState, overlay),
+                {
+                  side: 1,
+                  key: `completion-${overlay ? 'overlay' : 'inline'}-${pluginState.index}-${pluginState.candidates.length}-${pluginState.suggestion}`,
+                }
+              ),
+            ];
+
+            // 接受时会被替换掉的已输入文字（如拼音首字母）用删除线标出
+            const replace = pluginState.candidates[pluginState.index]?.replace ?? 0;
+            if (replace > 0) {
+              decorations.push(Decoration.inline(pluginState.position - replace, pluginState.position, { class: 'completion-replaced' }));
+            }
+            return DecorationSet.create(state.doc, decorations);
           },
-          
+
           handleKeyDown: (view, event) => {
             if (event.key === 'Tab') {
-              if (acceptSuggestion(this.editor)) {
+              if (this.editor.commands.acceptCompletion()) {
                 return true; // Prevent default Tab behavior
               }
             }
+            // 使用 event.code 判断，macOS 上 Alt+] 的 event.key 会是 ‘ 等特殊字符
+            if (event.altKey && (event.code === 'BracketRight' || event.code === 'BracketLeft')) {
+              return cycleSuggestion(view, event.code === 'BracketRight' ? 1 : -1, this.storage.telemetry);
+            }
             if (event.key === 'Escape') {
                 const { state, dispatch } = view;
+                this.storage.telemetry.dismiss();
                 dispatch(clearSuggestion(state.tr));
                 return true;
             }
@@ -108,100 +375,232 @@ export const CompletionPlugin = Extension.create<CompletionOptions>({
           },
         },
 
-        view: () => ({
-          update: (view) => {
-            const { state, dispatch } = view;
-            const { selection } = state;
-            // Fix: Use the exported completionPluginKey to get the plugin state.
-            const pluginState = completionPluginKey.getState(state);
+        view: () => {
+          const { telemetry, aiCache } = this.storage;
 
-            // Correctly determine if the cursor is at the end of a text block.
-            // This is the condition to trigger (or not trigger) a completion.
-            const isAtEnd = selection.empty && selection.$from.parent.isTextblock && selection.$from.parentOffset === selection.$from.parent.content.size;
+          // Scheduling state lives in the plugin view, i.e. one per editor, so two
+          // editors on screen never cancel each other's debounce or in-flight stream.
+          let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+          let abortController: AbortController | null = null;
 
-            if (!isAtEnd) {
-                if (pluginState?.active) {
-                    dispatch(clearSuggestion(state.tr));
-                }
-                return;
-            }
-
-            const lastText = selection.$from.parent.textContent;
-            
+          const cancelPending = () => {
             if (debounceTimer) clearTimeout(debounceTimer);
             if (abortController) abortController.abort();
-            
-            // It's important to clear any old suggestions immediately
-            // before starting a new request.
-            if (pluginState?.active) {
-               dispatch(clearSuggestion(state.tr));
-            }
-            
-            debounceTimer = window.setTimeout(async () => {
-                // 1. Exact Match (Client-side)
-                const exactMatch = this.options.standardInfo.find(info =>
-                  info.content.toLowerCase().startsWith(lastText.toLowerCase()) && info.content.length > lastText.length
-                );
-
-                if (exactMatch) {
-                    const suggestion = exactMatch.content.substring(lastText.length);
-                    // Check if the view is still valid before dispatching
-                    if (!view.isDestroyed) {
-                        // Fix: Use the exported completionPluginKey to set meta.
-                        dispatch(view.state.tr.setMeta(completionPluginKey, { active: true, suggestion, position: selection.to }));
-                    }
-                    return;
-                }
-                
-                // 2. AI Suggestion (Rewrite Mode)
-                if (this.options.getRewriteMode() && lastText.trim().length > 4) {
-                    abortController = new AbortController();
-                    const signal = abortController.signal;
-                    
-                    try {
-                        let accumulatedSuggestion = '';
-                        const stream = getCompletionStream(lastText, this.options.getRewriteMode());
-                        
-                        for await (const chunk of stream) {
-                           if (signal.aborted) return;
-                           accumulatedSuggestion += chunk;
-                           if (!view.isDestroyed) {
-                                // Fix: Use the exported completionPluginKey to set meta.
-                                dispatch(view.state.tr.setMeta(completionPluginKey, { active: true, suggestion: accumulatedSuggestion, position: selection.to }));
-                           }
-                        }
-                    } catch (e) {
-                        if (!signal.aborted) console.error("Completion stream error:", e);
-                    }
-                }
+            debounceTimer = null;
+            abortController = null;
+          };
 
-            }, 300);
-          },
-        }),
+          // 以当前候选列表更新统计，再显示出来
+          const show = (view: EditorView, meta: Partial<CompletionState>) => {
+            if (meta.candidates) telemetry.show(meta.candidates, meta.index ?? 0);
+            view.dispatch(view.state.tr.setMeta(completionPluginKey, meta));
+          };
+
+          return {
+            update: (view, prevState) => {
+              const { state, dispatch } = view;
+              const { selection } = state;
+
+              // Only react to edits and cursor moves; meta-only transactions
+              // (showing, cycling or streaming a suggestion) must not restart the request.
+              if (prevState.doc.eq(state.doc) && prevState.selection.eq(selection)) {
+                  return;
+              }
+
+              // Fix: Use the exported completionPluginKey to get the plugin state.
+              const pluginState = completionPluginKey.getState(state);
+
+              // A partial acceptance inserts text and re-anchors the remainder at the
+              // cursor in the same transaction; keep showing it instead of re-requesting.
+              if (pluginState?.active && pluginState.position === selection.from) {
+                  cancelPending();
+                  return;
+              }
+
+              // Trigger anywhere inside a text block, not only at its end, so that
+              // revising an existing sentence also gets fill-in-the-middle suggestions.
+              const context = getCursorContext(state);
+
+              // 之前显示的建议到此结束：接受过则记为接受，否则记为忽略
+              telemetry.finish();
+
+              if (!context) {
+                  if (pluginState?.active) {
+                      dispatch(clearSuggestion(state.tr));
+                  }
+                  return;
+              }
+
+              const { before, after } = context;
+              const policy = this.options.getPolicy();
+
+              cancelPending();
+
+              // It's important to clear any old suggestions immediately
+              // before starting a new request.
+              if (pluginState?.active) {
+                 dispatch(clearSuggestion(state.tr));
+              }
+
+              debounceTimer = setTimeout(async () => {
+                  const position = selection.from;
+                  telemetry.start();
+
+                  // 1. Exact Match (Client-side)
+                  const standardInfo = this.options.getStandardInfo();
+                  const exactMatches = (standardInfo.length > 0 && before.length > 0
+                    ? findStandardInfoMatches(getIndex(standardInfo, policy.categoryWeights), before, this.storage.usage, view.state.schema)
+                    : [])
+                    .map(candidate => trimCandidateOverlap(candidate, after))
+                    .filter(candidate => candidate.text.length > 0);
+
+                  if (exactMatches.length > 0 && !view.isDestroyed) {
+                      // Fix: Use the exported completionPluginKey to set meta.
+                      show(view, { ...selectCandidate(exactMatches, 0), position });
+                  }
+
+                  // 2. AI Suggestion (Rewrite Mode), appended after the exact matches
+                  if (this.options.getRewriteMode() && shouldRequestAI(policy, before)) {
+                      const promptOptions = this.options.getPromptOptions();
+                      const cacheKey = [policy.maxSuggestionLength, promptOptions.template?.id ?? '', before, after].join('\u0000');
+                      const cached = aiCache.get(cacheKey);
+                      if (cached !== undefined) {
+                          if (cached && !view.isDestroyed) show(view, upsertAICandidate(view.state, cached, position, 'cache'));
+                          return;
+                      }
+
+                      const controller = new AbortController();
+                      abortController = controller;
+                      const signal = controller.signal;
+
+                      try {
+                          let accumulatedSuggestion = '';
+                          let suggestion = '';
+                          let truncated = false;
+                          const stream = getCompletionStream(before, this.options.getRewriteMode(), after, signal, promptOptions);
+
+                          for await (const chunk of stream) {
+                             if (signal.aborted) return;
+                             accumulatedSuggestion += chunk;
+                             suggestion = limitSuggestion(trimOverlap(accumulatedSuggestion, after), policy);
+                             if (!view.isDestroyed) {
+                                  // Fix: Use the exported completionPluginKey to set meta.
+                                  show(view, upsertAICandidate(view.state, suggestion, position));
+                             }
+                             // 达到最大字数后不再等待剩余的分片
+                             if (policy.maxSuggestionLength > 0 && accumulatedSuggestion.length >= policy.maxSuggestionLength) {
+                                  truncated = true;
+                                  break;
+                             }
+                          }
+                          if (!signal.aborted) {
+                              aiCache.delete(cacheKey);
+                              aiCache.set(cacheKey, suggestion);
+                              if (aiCache.size > AI_CACHE_SIZE) aiCache.delete(aiCache.keys().next().value!);
+                          }
+                          if (truncated) controller.abort();
+                      } catch (e) {
+                          // 服务不可用时由编辑器显示状态，这里只保留已显示的逐字匹配建议
+                          if (!signal.aborted && !(e instanceof AIUnavailableError)) console.error("Completion stream error:", e);
+                      } finally {
+                          if (abortController === controller) abortController = null;
+                      }
+                  }
+
+              }, policy.debounceMs);
+            },
+            destroy: () => {
+              cancelPending();
+              telemetry.finish();
+            },
+          };
+        },
       }),
     ];
   },
 
-  addStorage() {
+  addStorage(): CompletionStorage {
+    const usage = new Map<string, number>();
     return {
+      usage,
+      recordUsage: (entryId) => {
+        const usedAt = Date.now();
+        usage.set(entryId, usedAt);
+        this.options.onUsage?.(entryId, usedAt);
+      },
+      aiCache: new Map(),
+      telemetry: new CompletionTelemetry(event => this.options.onTelemetry?.(event)),
       css: `
-      .completion-suggestion::after {
-        content: attr(data-suggestion);
+      .completion-suggestion {
+        display: inline;
+        white-space: pre-wrap;
         color: #a0a0a0;
         pointer-events: none;
+        user-select: none;
       }
-      .dark .completion-suggestion::after {
+      .dark .completion-suggestion {
         color: #6a6a6a;
       }
+      .completion-anchor {
+        position: relative;
+        display: inline-block;
+        width: 0;
+      }
+      .completion-suggestion-overlay {
+        position: absolute;
+        top: 100%;
+        left: 0;
+        z-index: 10;
+        min-width: 8em;
+        max-width: 32em;
+        padding: 0.25em 0.5em;
+        border-radius: 0.375em;
+        background: #ffffff;
+        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.15);
+        line-height: 1.5;
+      }
+      .dark .completion-suggestion-overlay {
+        background: #1f2937;
+        box-shadow: 0 2px 8px rgba(0, 0, 0, 0.5);
+      }
+      .completion-suggestion-block {
+        display: block;
+        margin-top: 0.5em;
+      }
+      .completion-replaced {
+        text-decoration: line-through;
+        color: #a0a0a0;
+      }
+      .completion-hint {
+        margin-left: 0.5em;
+        padding: 0 0.35em;
+        border-radius: 0.25em;
+        font-size: 0.75em;
+        background: #f1f3f4;
+        color: #5f6368;
+      }
+      .dark .completion-hint {
+        background: #374151;
+        color: #9ca3af;
+      }
       `
     };
   },
-  
+
   onCreate() {
     if (typeof window !== 'undefined' && this.storage.css) {
         const style = document.createElement('style');
         style.textContent = this.storage.css;
         document.head.append(style);
     }
+
+    // 合并保存的使用记录；加载完成前本次会话中接受的条目以较新的时间为准
+    this.options.loadUsage?.()
+      .then(saved => {
+        saved.forEach((usedAt, entryId) => {
+          if (usedAt > (this.storage.usage.get(entryId) ?? 0)) this.storage.usage.set(entryId, usedAt);
+        });
+      })
+      .catch(error => console.error('加载知识库条目使用记录失败:', error));
   },
 });
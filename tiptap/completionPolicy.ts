@@ -0,0 +1,83 @@
+// 补全的触发和排序策略，保存在 user_configs.preferences.completion 中，修改后对已打开的编辑器立即生效
+export interface CompletionTriggerPolicy {
+  // 停止输入多久后开始查找建议（毫秒）
+  debounceMs: number;
+  // 光标前至少有多少个非空白字符才请求 AI 建议
+  minChars: number;
+  // 只在空格或标点之后请求 AI 建议，输入词语的中途不打扰
+  triggerOnlyAfterBoundary: boolean;
+  // 在触屏设备上不请求 AI 建议，逐字匹配照常工作
+  disableAIOnMobile: boolean;
+  // AI 建议的最大字数，超过后截断并停止生成；0 表示不限制
+  maxSuggestionLength: number;
+  // 逐字匹配的分类加权，例如 { 品牌: 0.5 } 让品牌口号排得更靠前
+  categoryWeights: Record<string, number>;
+}
+
+export const DEFAULT_COMPLETION_POLICY: CompletionTriggerPolicy = {
+  debounceMs: 300,
+  minChars: 5,
+  triggerOnlyAfterBoundary: false,
+  disableAIOnMobile: false,
+  maxSuggestionLength: 0,
+  categoryWeights: {},
+};
+
+// 分类加权的取值范围，与匹配质量（0-1）和近期使用加分（0-0.5）相当
+const MAX_CATEGORY_WEIGHT = 2;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const number = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(number) ? Math.min(max, Math.max(min, Math.round(number))) : fallback;
+};
+
+// 只保留取值为数字的分类，并限制在 ±MAX_CATEGORY_WEIGHT 之内
+const normalizeCategoryWeights = (value: unknown): Record<string, number> => {
+  if (!value || typeof value !== 'object') return {};
+  const weights: Record<string, number> = {};
+  Object.entries(value).forEach(([category, weight]) => {
+    const number = typeof weight === 'number' ? weight : Number(weight);
+    if (category && Number.isFinite(number)) {
+      weights[category] = Math.min(MAX_CATEGORY_WEIGHT, Math.max(-MAX_CATEGORY_WEIGHT, number));
+    }
+  });
+  return weights;
+};
+
+// 补齐并校正从数据库读出的配置，缺失或非法的字段使用默认值
+export const normalizeCompletionPolicy = (value: unknown): CompletionTriggerPolicy => {
+  const policy = (value && typeof value === 'object' ? value : {}) as Partial<Record<keyof CompletionTriggerPolicy, unknown>>;
+  const defaults = DEFAULT_COMPLETION_POLICY;
+
+  return {
+    debounceMs: clamp(policy.debounceMs, 0, 5000, defaults.debounceMs),
+    minChars: clamp(policy.minChars, 0, 200, defaults.minChars),
+    triggerOnlyAfterBoundary: typeof policy.triggerOnlyAfterBoundary === 'boolean'
+      ? policy.triggerOnlyAfterBoundary
+      : defaults.triggerOnlyAfterBoundary,
+    disableAIOnMobile: typeof policy.disableAIOnMobile === 'boolean'
+      ? policy.disableAIOnMobile
+      : defaults.disableAIOnMobile,
+    maxSuggestionLength: clamp(policy.maxSuggestionLength, 0, 2000, defaults.maxSuggestionLength),
+    categoryWeights: normalizeCategoryWeights(policy.categoryWeights),
+  };
+};
+
+export const isMobileDevice = () =>
+  typeof window !== 'undefined' &&
+  (window.matchMedia?.('(pointer: coarse)').matches || /Android|iPhone|iPad|Mobile/i.test(navigator.userAgent));
+
+// 光标前是否为空格或标点
+export const isAtTriggerBoundary = (before: string) => before.length === 0 || /[\s\p{P}]$/u.test(before);
+
+// 根据策略判断是否请求 AI 建议
+export const shouldRequestAI = (policy: CompletionTriggerPolicy, before: string) => {
+  if (before.trim().length < policy.minChars) return false;
+  if (policy.triggerOnlyAfterBoundary && !isAtTriggerBoundary(before)) return false;
+  if (policy.disableAIOnMobile && isMobileDevice()) return false;
+  return true;
+};
+
+// 按最大字数截断 AI 建议
+export const limitSuggestion = (suggestion: string, policy: CompletionTriggerPolicy) =>
+  policy.maxSuggestionLength > 0 ? suggestion.slice(0, policy.maxSuggestionLength) : suggestion;
@@ -0,0 +1,84 @@
+import type { CompletionCandidate, CompletionSource } from './completion';
+
+export type CompletionOutcome = 'accepted' | 'dismissed' | 'ignored';
+
+// 每条显示过的建议结束时上报一次
+export interface CompletionTelemetryEvent {
+  source: CompletionSource;
+  outcome: CompletionOutcome;
+  // 从发起请求到该来源的建议首次显示的耗时，AI 即首个分片的耗时
+  latencyMs: number;
+  suggestionLength: number;
+  // 整条或逐词、逐句累计接受的字符数
+  acceptedLength: number;
+}
+
+interface Impression {
+  source: CompletionSource;
+  suggestionLength: number;
+  acceptedLength: number;
+  latencies: Partial<Record<CompletionSource, number>>;
+}
+
+// 跟踪一个编辑器中当前建议的生命周期：start → show（可多次）→ accept / dismiss / finish
+export class CompletionTelemetry {
+  private requestedAt: number | null = null;
+  private impression: Impression | null = null;
+
+  constructor(
+    private readonly report: (event: CompletionTelemetryEvent) => void,
+    private readonly now: () => number = () => performance.now()
+  ) {}
+
+  // 防抖结束、开始为新的光标位置查找建议
+  start() {
+    this.finish();
+    this.requestedAt = this.now();
+  }
+
+  // 候选列表更新（首次显示、AI 流式分片、切换候选）
+  show(candidates: CompletionCandidate[], index: number) {
+    const selected = candidates[index];
+    if (!selected || this.requestedAt === null) return;
+
+    if (!this.impression) {
+      this.impression = { source: selected.source, suggestionLength: 0, acceptedLength: 0, latencies: {} };
+    }
+    const elapsed = this.now() - this.requestedAt;
+    candidates.forEach(candidate => {
+      this.impression!.latencies[candidate.source] ??= elapsed;
+    });
+    this.impression.source = selected.source;
+    this.impression.suggestionLength = selected.text.length;
+  }
+
+  accept(candidate: CompletionCandidate, length: number) {
+    if (!this.impression) return;
+    // 部分接受后剩余的建议沿用首次显示时的长度
+    if (this.impression.acceptedLength === 0) {
+      this.impression.suggestionLength = candidate.text.length;
+    }
+    this.impression.source = candidate.source;
+    this.impression.acceptedLength += length;
+  }
+
+  dismiss() {
+    this.finish('dismissed');
+  }
+
+  // 建议被新的输入、光标移动或编辑器销毁取代
+  finish(reason: Exclude<CompletionOutcome, 'accepted'> = 'ignored') {
+    const impression = this.impression;
+    this.impression = null;
+    this.requestedAt = null;
+    if (!impression) return;
+
+    this.report({
+      source: impression.source,
+      outcome: impression.acceptedLength > 0 ? 'accepted' : reason,
+      latencyMs: Math.round(impression.latencies[impression.source] ?? 0),
+      suggestionLength: impression.suggestionLength,
+      acceptedLength: impression.acceptedLength,
+    });
+  }
+}
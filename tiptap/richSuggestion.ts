@@ -0,0 +1,174 @@
+import { DOMParser as ProseMirrorDOMParser, DOMSerializer, Node as ProseMirrorNode, Schema, Slice } from 'prosemirror-model';
+import type { Mark } from 'prosemirror-model';
+
+// 富文本建议以 Slice 表示：content 是若干块节点，openStart / openEnd 表示首尾段落与光标所在段落合并。
+// 建议对应的纯文本（text）中块之间用 '\n' 分隔，逐词、逐句接受时按纯文本的字符偏移切分 Slice。
+
+const HTML_TAG = /<\/?[a-z][^>]*>/i;
+const BLOCK_TAGS = new Set(['P', 'DIV', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'LI', 'UL', 'OL', 'BLOCKQUOTE', 'PRE']);
+
+export const isRichText = (content: string) => HTML_TAG.test(content);
+
+// 在独立的文档中解析 HTML：DOMParser 创建的文档没有浏览上下文，<img onerror> 等不会加载资源或执行脚本。
+// 知识库条目的 HTML 来自用户输入，不能用当前页面的 innerHTML 解析
+export const parseHTML = (html: string) => new DOMParser().parseFromString(html, 'text/html').body;
+
+const isBlockElement = (node: globalThis.Node): node is Element =>
+  node.nodeType === globalThis.Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName);
+
+// HTML 转纯文本，块之间用 '\n' 分隔、块内空白合并，与解析成文档后的 sliceText 一致。
+// 只用于编辑器内与文档文字逐字对应的场景；检索、训练和提示词使用 documentChunker 的 toModelText
+export const toPlainText = (content: string) => {
+  if (!isRichText(content)) return content;
+
+  const blocks: string[] = [];
+  const collect = (node: globalThis.Node) => {
+    // 与块级元素相邻的文字和行内元素（如 '前言<p>正文</p>' 中的“前言”）自成一块
+    let inline = '';
+    const flushInline = () => {
+      const text = inline.replace(/\s+/g, ' ');
+      if (text.trim()) blocks.push(text);
+      inline = '';
+    };
+
+    node.childNodes.forEach(child => {
+      if (!isBlockElement(child)) {
+        inline += child.textContent ?? '';
+        return;
+      }
+      flushInline();
+      if (Array.from(child.childNodes).some(isBlockElement)) {
+        collect(child);
+      } else {
+        blocks.push((child.textContent ?? '').replace(/\s+/g, ' '));
+      }
+    });
+    flushInline();
+  };
+  collect(parseHTML(content));
+  return blocks.join('\n');
+};
+
+const textblocks = (doc: ProseMirrorNode) => {
+  const blocks: Array<{ node: ProseMirrorNode; pos: number }> = [];
+  doc.descendants((node, pos) => {
+    if (node.isTextblock) {
+      blocks.push({ node, pos });
+      return false;
+    }
+    return true;
+  });
+  return blocks;
+};
+
+const docText = (doc: ProseMirrorNode) => textblocks(doc).map(({ node }) => node.textContent).join('\n');
+
+// 纯文本偏移 → 文档位置
+const posAtOffset = (doc: ProseMirrorNode, offset: number) => {
+  let remaining = offset;
+  for (const { node, pos } of textblocks(doc)) {
+    if (remaining <= node.textContent.length) {
+      let inner = 0;
+      for (let i = 0; i < node.childCount && remaining > 0; i++) {
+        const child = node.child(i);
+        const length = child.isText ? child.text!.length : 0;
+        if (remaining <= length) return pos + 1 + inner + remaining;
+        remaining -= length;
+        inner += child.nodeSize;
+      }
+      return pos + 1 + inner;
+    }
+    remaining -= node.textContent.length + 1;
+  }
+  return doc.content.size;
+};
+
+const sliceDoc = (slice: Slice) => {
+  const schema = slice.content.firstChild?.type.schema;
+  return schema ? schema.topNodeType.create(null, slice.content) : null;
+};
+
+// 保留父节点，即使只截取到一个段落内的文字，Slice 的内容也总是块节点
+const sliceByText = (doc: ProseMirrorNode, from: number, to?: number) =>
+  doc.slice(posAtOffset(doc, from), to === undefined ? posAtOffset(doc, docText(doc).length) : posAtOffset(doc, to), true);
+
+export const sliceText = (slice: Slice) => {
+  const doc = sliceDoc(slice);
+  return doc ? docText(doc) : '';
+};
+
+// 按纯文本偏移截取 Slice 的一部分
+export const cutSlice = (slice: Slice, from: number, to?: number) => {
+  const doc = sliceDoc(slice);
+  return doc ? sliceByText(doc, from, to) : Slice.empty;
+};
+
+// 单个段落且没有样式，可以按纯文本插入并继承光标处的样式
+export const isPlainSlice = (slice: Slice) => {
+  const block = slice.content.firstChild;
+  if (slice.content.childCount !== 1 || !block?.isTextblock || slice.openStart === 0) return false;
+  let plain = true;
+  block.forEach(child => {
+    if (!child.isText || child.marks.length > 0) plain = false;
+  });
+  return plain;
+};
+
+// 只处理 **粗体**、*斜体* 和 ~~删除线~~，未闭合的标记按原文显示
+const INLINE_MARKDOWN = /\*\*(.+?)\*\*|~~(.+?)~~|\*([^*\s][^*]*?)\*/g;
+
+const markdownInline = (schema: Schema, line: string) => {
+  const nodes: ProseMirrorNode[] = [];
+  const push = (text: string, marks: Mark[] = []) => {
+    if (text) nodes.push(schema.text(text, marks));
+  };
+  const markOf = (name: string) => (schema.marks[name] ? [schema.marks[name].create()] : []);
+
+  let last = 0;
+  for (const match of line.matchAll(INLINE_MARKDOWN)) {
+    push(line.slice(last, match.index));
+    if (match[1] !== undefined) push(match[1], markOf('bold'));
+    else if (match[2] !== undefined) push(match[2], markOf('strike'));
+    else push(match[3], markOf('italic'));
+    last = match.index! + match[0].length;
+  }
+  push(line.slice(last));
+  return nodes;
+};
+
+const markdownToDoc = (schema: Schema, text: string) => {
+  const paragraphs = text.split(/\n+/).map(line => schema.nodes.paragraph.create(null, markdownInline(schema, line)));
+  return schema.topNodeType.create(null, paragraphs);
+};
+
+const htmlToDoc = (schema: Schema, html: string) => ProseMirrorDOMParser.fromSchema(schema).parse(parseHTML(html));
+
+export type SuggestionFormat = 'html' | 'markdown';
+
+// 把知识库条目（HTML）或 AI 输出（Markdown）转换成建议 Slice，from 为跳过的纯文本字符数
+export const toSuggestionSlice = (schema: Schema, content: string, format: SuggestionFormat, from = 0) => {
+  const doc = format === 'html' ? htmlToDoc(schema, content) : markdownToDoc(schema, content);
+  return sliceByText(doc, from);
+};
+
+// AI 输出只有包含换行或 Markdown 标记时才需要按富文本处理
+export const hasMarkdown = (text: string) => text.includes('\n') || /\*\*.+?\*\*|~~.+?~~|\*[^*\s][^*]*?\*/.test(text);
+
+// 渲染建议预览：第一个段落接在光标后，之后的每个块单独成行
+export const renderSlicePreview = (slice: Slice, container: HTMLElement) => {
+  const schema = slice.content.firstChild?.type.schema;
+  if (!schema) return container;
+  const serializer = DOMSerializer.fromSchema(schema);
+
+  slice.content.forEach((block, _offset, index) => {
+    if (index === 0 && slice.openStart > 0 && block.isTextblock) {
+      container.append(serializer.serializeFragment(block.content));
+      return;
+    }
+    const line = document.createElement('span');
+    line.className = 'completion-suggestion-block';
+    line.append(block.isTextblock ? serializer.serializeFragment(block.content) : serializer.serializeNode(block));
+    container.append(line);
+  });
+  return container;
+};
@@ -0,0 +1,39 @@
+// 补全建议的分词工具，用于逐词 / 逐句接受建议。
+// 中文没有空格分词，优先使用浏览器内置的 Intl.Segmenter（基于 ICU 词典），不可用时退回到按单个汉字切分。
+
+const wordSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+  ? new Intl.Segmenter('zh-CN', { granularity: 'word' })
+  : null;
+
+// 中文标点总是分句；英文标点只有后面跟空白或到达结尾时才算，避免切断 5.5 或 support@summerco.com
+const SEGMENT_BOUNDARY = /[，。！？；：、…\n]|[,.!?;:](?=\s|$)/;
+const TRAILING_CLOSERS = /^[”’"')）】」』》\s]*/;
+
+// 返回建议开头“下一个词”的长度，包含它前面的空白和标点
+export const nextWordLength = (text: string): number => {
+  if (!text) return 0;
+
+  if (wordSegmenter) {
+    for (const { segment, index, isWordLike } of wordSegmenter.segment(text)) {
+      if (isWordLike) {
+        return index + segment.length;
+      }
+    }
+    return text.length;
+  }
+
+  const match = text.match(/^[^\p{L}\p{N}]*(?:\p{Script=Han}|[\p{L}\p{N}_]+)/u);
+  return match ? match[0].length : text.length;
+};
+
+// 返回建议开头到下一个标点（含其后的引号、括号和空白）为止的长度；没有标点时返回整段
+export const nextSegmentLength = (text: string): number => {
+  // 跳过开头残留的标点，否则上一次逐句接受后会只剩下一个逗号可接受
+  const start = text.match(/^[\s，。！？；：、…,.!?;:]*/)![0].length;
+  const match = SEGMENT_BOUNDARY.exec(text.slice(start));
+  if (!match) return text.length;
+
+  const end = start + match.index + match[0].length;
+  const trailing = text.slice(end).match(TRAILING_CLOSERS);
+  return end + (trailing ? trailing[0].length : 0);
+};
@@ -0,0 +1,192 @@
+import { Extension } from '@tiptap/core';
+import { EditorState, Plugin, PluginKey } from 'prosemirror-state';
+import type { StandardInfo } from '../types';
+import { createReferenceAttributes } from './standardInfoReference';
+import { isRichText, isPlainSlice, toPlainText, toSuggestionSlice } from './richSuggestion';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    slashCommand: {
+      /** 插入斜杠菜单中第 index 个条目，替换掉“/查询词”；linked 为 true 时插入链接引用 */
+      selectSlashCommandItem: (index: number, linked?: boolean) => ReturnType;
+      /** 关闭斜杠菜单，直到删掉这个“/”为止不再弹出 */
+      dismissSlashCommand: () => ReturnType;
+    };
+  }
+}
+
+export interface SlashCommandState {
+  active: boolean;
+  query: string;
+  // “/” 所在位置到光标位置，选中条目时整段被替换
+  from: number;
+  to: number;
+  selectedIndex: number;
+  // 按 Escape 关闭的 “/” 的位置，避免继续输入时又弹出来
+  dismissedFrom: number | null;
+}
+
+export const slashCommandPluginKey = new PluginKey<SlashCommandState>('slashCommand');
+
+interface SlashCommandOptions {
+  // 每次使用时读取，知识库条目修改后对已打开的编辑器立即生效
+  getStandardInfo: () => StandardInfo[];
+}
+
+const inactiveState = (dismissedFrom: number | null = null): SlashCommandState => ({
+  active: false,
+  query: '',
+  from: 0,
+  to: 0,
+  selectedIndex: 0,
+  dismissedFrom,
+});
+
+// “/” 必须在段首或跟在空白、中文等非单词字符之后，避免在 a/b、网址里误触发
+const SLASH_QUERY = /(?:^|[^\w/:.])\/([^\s/]{0,30})$/;
+
+const findSlashQuery = (state: EditorState) => {
+  const { selection } = state;
+  if (!selection.empty || !selection.$from.parent.isTextblock) return null;
+
+  const { parent, parentOffset } = selection.$from;
+  const before = parent.textBetween(0, parentOffset, undefined, '\ufffc');
+  const match = SLASH_QUERY.exec(before);
+  if (!match) return null;
+
+  const query = match[1];
+  return { query, from: selection.from - query.length - 1, to: selection.from };
+};
+
+const UNCATEGORIZED = '未分类';
+
+// 按查询词过滤条目，并按分类分组排列（分类按首次出现的顺序），菜单与键盘导航共用这个顺序
+export const getSlashCommandItems = (standardInfo: StandardInfo[], query: string): StandardInfo[] => {
+  const keyword = query.trim().toLowerCase();
+  const matches = keyword
+    ? standardInfo.filter(info =>
+        toPlainText(info.content).toLowerCase().includes(keyword) || (info.category ?? '').toLowerCase().includes(keyword))
+    : standardInfo;
+
+  const groups = new Map<string, StandardInfo[]>();
+  matches.forEach(info => {
+    const category = info.category || UNCATEGORIZED;
+    groups.set(category, [...(groups.get(category) ?? []), info]);
+  });
+  return Array.from(groups.values()).flat();
+};
+
+export const getSlashCommandCategory = (info: StandardInfo) => info.category || UNCATEGORIZED;
+
+export const SlashCommand = Extension.create<SlashCommandOptions>({
+  name: 'slashCommand',
+
+  // 菜单打开时 Enter / Tab / 方向键要先于补全插件处理
+  priority: 110,
+
+  addOptions() {
+    return {
+      getStandardInfo: () => [],
+    };
+  },
+
+  addCommands() {
+    return {
+      selectSlashCommandItem: (index: number, linked = false) => ({ state, tr, dispatch }) => {
+        const pluginState = slashCommandPluginKey.getState(state);
+        const item = pluginState?.active ? getSlashCommandItems(this.options.getStandardInfo(), pluginState.query)[index] : undefined;
+        if (!pluginState || !item) return false;
+
+        // 链接引用需要同时注册 StandardInfoReference 节点
+        const referenceType = state.schema.nodes.standardInfoReference;
+        if (linked && !referenceType) return false;
+
+        if (dispatch) {
+          if (linked) {
+            tr.replaceWith(pluginState.from, pluginState.to, referenceType.create(createReferenceAttributes(item)));
+          } else if (isRichText(item.content)) {
+            // HTML 条目保留样式和段落
+            const slice = toSuggestionSlice(state.schema, item.content, 'html');
+            if (isPlainSlice(slice)) tr.insertText(toPlainText(item.content), pluginState.from, pluginState.to);
+            else tr.replaceRange(pluginState.from, pluginState.to, slice);
+          } else {
+            tr.insertText(item.content, pluginState.from, pluginState.to);
+          }
+        }
+        return true;
+      },
+      dismissSlashCommand: () => ({ state, tr, dispatch }) => {
+        const pluginState = slashCommandPluginKey.getState(state);
+        if (!pluginState?.active) return false;
+        if (dispatch) tr.setMeta(slashCommandPluginKey, inactiveState(pluginState.from));
+        return true;
+      },
+    };
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin({
+        key: slashCommandPluginKey,
+
+        state: {
+          init: () => inactiveState(),
+          apply: (tr, value, _oldState, newState): SlashCommandState => {
+            const meta = tr.getMeta(slashCommandPluginKey);
+            if (meta) {
+              return { ...value, ...meta };
+            }
+            if (!tr.docChanged && !tr.selectionSet) {
+              return value;
+            }
+
+            const dismissedFrom = value.dismissedFrom === null ? null : tr.mapping.map(value.dismissedFrom);
+            const match = findSlashQuery(newState);
+            if (!match || match.from === dismissedFrom) {
+              return inactiveState(match ? dismissedFrom : null);
+            }
+
+            return {
+              active: true,
+              ...match,
+              selectedIndex: match.query === value.query && value.active ? value.selectedIndex : 0,
+              dismissedFrom: null,
+            };
+          },
+        },
+
+        props: {
+          handleKeyDown: (view, event) => {
+            const state = slashCommandPluginKey.getState(view.state);
+            if (!state?.active) {
+              return false;
+            }
+
+            const items = getSlashCommandItems(this.options.getStandardInfo(), state.query);
+
+            if (event.key === 'Escape') {
+              return this.editor.commands.dismissSlashCommand();
+            }
+            if (items.length === 0) {
+              return false;
+            }
+            if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+              const step = event.key === 'ArrowDown' ? 1 : -1;
+              const selectedIndex = (state.selectedIndex + step + items.length) % items.length;
+              view.dispatch(view.state.tr.setMeta(slashCommandPluginKey, { selectedIndex }));
+              return true;
+            }
+            // Ctrl/Cmd + Enter 插入链接引用，条目更新后文档中的引用会跟着变化
+            if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+              return this.editor.commands.selectSlashCommandItem(state.selectedIndex, true);
+            }
+            if (event.key === 'Enter' || event.key === 'Tab') {
+              return this.editor.commands.selectSlashCommandItem(state.selectedIndex);
+            }
+            return false;
+          },
+        },
+      }),
+    ];
+  },
+});
@@ -0,0 +1,228 @@
+import { pinyin } from 'pinyin-pro';
+import type { StandardInfo } from '../types';
+import { toPlainText } from './richSuggestion';
+
+// 标准信息（逐字模式）的匹配索引。
+// 每个条目以三种键写入前缀树：原文、全拼和拼音首字母，查询时从光标前文本的末尾取若干后缀去匹配，
+// 支持段落中间触发（“我们的口号是活出” → “活出阳光…”）、拼音首字母（“hcyg” → “活出阳光”）以及一个字符的输入错误。
+
+export type StandardInfoMatchKind = 'text' | 'pinyin' | 'initials';
+
+export interface StandardInfoMatch {
+  info: StandardInfo;
+  kind: StandardInfoMatchKind;
+  // 光标前参与匹配的字符数（UTF-16 长度，可直接用于 slice）
+  matchedLength: number;
+  // 编辑距离，0 表示精确前缀匹配
+  cost: number;
+  score: number;
+}
+
+export interface StandardInfoIndexOptions {
+  // 分类加权，例如 { 品牌: 0.5 } 让品牌口号排得更靠前
+  categoryWeights?: Record<string, number>;
+  now?: () => number;
+}
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  // 键经过该节点的所有条目，用于前缀命中后直接取出整棵子树
+  ids: number[];
+}
+
+const createNode = (): TrieNode => ({ children: new Map(), ids: [] });
+
+class Trie {
+  private root = createNode();
+
+  insert(key: string, id: number) {
+    let node = this.root;
+    for (const char of key) {
+      let child = node.children.get(char);
+      if (!child) {
+        child = createNode();
+        node.children.set(char, child);
+      }
+      if (child.ids[child.ids.length - 1] !== id) {
+        child.ids.push(id);
+      }
+      node = child;
+    }
+  }
+
+  // 返回 条目 → 编辑距离。maxEdits 为 0 时只沿精确路径查找
+  search(query: string, maxEdits: number): Map<number, number> {
+    const results = new Map<number, number>();
+    const chars = Array.from(query);
+    if (chars.length === 0) return results;
+
+    if (maxEdits === 0) {
+      let node: TrieNode | undefined = this.root;
+      for (const char of chars) {
+        node = node.children.get(char);
+        if (!node) return results;
+      }
+      node.ids.forEach(id => results.set(id, 0));
+      return results;
+    }
+
+    // 在前缀树上逐层推进 Levenshtein 动态规划行，行内最小值超过上限即剪枝
+    const visit = (node: TrieNode, char: string, previous: number[]) => {
+      const row = [previous[0] + 1];
+      for (let i = 1; i <= chars.length; i++) {
+        row[i] = Math.min(
+          row[i - 1] + 1,
+          previous[i] + 1,
+          previous[i - 1] + (chars[i - 1] === char ? 0 : 1)
+        );
+      }
+
+      const cost = row[chars.length];
+      if (cost <= maxEdits) {
+        for (const id of node.ids) {
+          const existing = results.get(id);
+          if (existing === undefined || cost < existing) results.set(id, cost);
+        }
+      }
+
+      if (Math.min(...row) <= maxEdits) {
+        node.children.forEach((child, next) => visit(child, next, row));
+      }
+    };
+
+    // 首字符要求精确匹配：输入错误很少出现在第一个字上，这样也避免遍历整棵树
+    const first = this.root.children.get(chars[0]);
+    if (!first) return results;
+    const firstRow = Array.from({ length: chars.length + 1 }, (_, i) => i);
+    visit(first, chars[0], firstRow);
+    return results;
+  }
+}
+
+const HAN = /\p{Script=Han}/u;
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+const TRAILING_LATIN = /[a-z]+$/i;
+
+// 光标前最多回看的字符数，条目开头很少会比这更长
+const MAX_QUERY_LENGTH = 48;
+// 只有不少于该长度的查询才允许一个字符的输入错误
+const MIN_FUZZY_LENGTH = 4;
+
+const KIND_WEIGHT: Record<StandardInfoMatchKind, number> = { text: 1, pinyin: 0.9, initials: 0.8 };
+const FUZZY_PENALTY = 0.6;
+const RECENCY_WEIGHT = 0.5;
+const RECENCY_HALF_LIFE_MS = 14 * 24 * 60 * 60 * 1000;
+
+const normalize = (text: string) => text.toLowerCase();
+
+// 把拼音数组拼成键：汉字取拼音，连续的非汉字只保留字母数字
+const toPinyinKey = (parts: string[]) =>
+  parts.map(part => normalize(part).replace(/[^a-z0-9]/g, '')).join('');
+
+export class StandardInfoIndex {
+  private readonly entries: StandardInfo[];
+  // 条目的纯文本，HTML 条目去掉标签后再建索引
+  private readonly texts: string[];
+  private readonly textTrie = new Trie();
+  private readonly pinyinTrie = new Trie();
+  private readonly initialsTrie = new Trie();
+  private readonly categoryWeights: Record<string, number>;
+  private readonly now: () => number;
+
+  constructor(entries: StandardInfo[], options: StandardInfoIndexOptions = {}) {
+    this.entries = entries;
+    this.texts = entries.map(info => toPlainText(info.content ?? ''));
+    this.categoryWeights = options.categoryWeights ?? {};
+    this.now = options.now ?? Date.now;
+
+    this.texts.forEach((content, id) => {
+      this.textTrie.insert(normalize(content), id);
+
+      if (HAN.test(content)) {
+        this.pinyinTrie.insert(toPinyinKey(pinyin(content, { toneType: 'none', type: 'array', nonZh: 'consecutive' })), id);
+        this.initialsTrie.insert(toPinyinKey(pinyin(content, { pattern: 'first', toneType: 'none', type: 'array', nonZh: 'consecutive' })), id);
+      }
+    });
+  }
+
+  get size() {
+    return this.entries.length;
+  }
+
+  /**
+   * 用光标前的文本查找可补全的条目，按得分从高到低排序。
+   * usage 记录每个条目最近一次被接受的时间，用于近期使用加权。
+   */
+  search(before: string, usage: ReadonlyMap<string, number> = new Map(), limit = 5): StandardInfoMatch[] {
+    if (!before || this.entries.length === 0) return [];
+
+    const best = new Map<number, Omit<StandardInfoMatch, 'info' | 'score'>>();
+    const record = (id: number, kind: StandardInfoMatchKind, matchedLength: number, cost: number) => {
+      const current = best.get(id);
+      const better = !current
+        || cost < current.cost
+        || (cost === current.cost && KIND_WEIGHT[kind] * matchedLength > KIND_WEIGHT[current.kind] * current.matchedLength);
+      if (better) best.set(id, { kind, matchedLength, cost });
+    };
+
+    // 1. 原文：从最长的后缀开始，段落开头的后缀可以只有一个字，段落中间至少两个字
+    const tail = Array.from(before).slice(-MAX_QUERY_LENGTH);
+    const truncated = tail.length < Array.from(before).length;
+    for (let start = 0; start < tail.length; start++) {
+      const query = tail.slice(start);
+      const previous = start > 0 ? tail[start - 1] : undefined;
+      const atParagraphStart = start === 0 && !truncated;
+      const atBoundary = atParagraphStart || (previous !== undefined && !WORD_CHAR.test(previous));
+
+      if (!atParagraphStart && query.length < 2) continue;
+      // 不从英文单词中间开始匹配
+      if (previous !== undefined && WORD_CHAR.test(previous) && !HAN.test(previous) && !HAN.test(query[0])) continue;
+
+      const text = normalize(query.join(''));
+      const maxEdits = atBoundary && query.length >= MIN_FUZZY_LENGTH ? 1 : 0;
+      this.textTrie.search(text, maxEdits).forEach((cost, id) => {
+        if (Array.from(this.texts[id]).length > query.length || cost > 0) {
+          record(id, 'text', query.join('').length, cost);
+        }
+      });
+    }
+
+    // 2. 拼音：末尾连续的英文字母，按全拼和首字母分别匹配
+    const latin = before.match(TRAILING_LATIN)?.[0];
+    if (latin && latin.length >= 2) {
+      const query = normalize(latin);
+      const maxEdits = query.length >= MIN_FUZZY_LENGTH ? 1 : 0;
+      this.pinyinTrie.search(query, maxEdits).forEach((cost, id) => record(id, 'pinyin', latin.length, cost));
+      this.initialsTrie.search(query, maxEdits).forEach((cost, id) => record(id, 'initials', latin.length, cost));
+    }
+
+    const matches: Array<{ match: StandardInfoMatch; length: number }> = [];
+    best.forEach((match, id) => {
+      const info = this.entries[id];
+      const score = this.score(info, match.kind, match.matchedLength, match.cost, usage);
+      matches.push({ match: { ...match, info, score }, length: this.texts[id].length });
+    });
+
+    return matches
+      .sort((a, b) => b.match.score - a.match.score || a.length - b.length)
+      .slice(0, limit)
+      .map(({ match }) => match);
+  }
+
+  // 得分 = 匹配质量（匹配越长越高，拼音略低于原文，有错字打折） + 近期使用/更新的衰减加权 + 分类加权
+  private score(
+    info: StandardInfo,
+    kind: StandardInfoMatchKind,
+    matchedLength: number,
+    cost: number,
+    usage: ReadonlyMap<string, number>
+  ) {
+    const quality = KIND_WEIGHT[kind] * (1 + Math.log2(1 + matchedLength)) * (cost > 0 ? FUZZY_PENALTY : 1);
+
+    const updatedAt = info.updatedAt ? Date.parse(info.updatedAt) : NaN;
+    const lastTouched = Math.max(usage.get(info.id) ?? 0, Number.isNaN(updatedAt) ? 0 : updatedAt);
+    const recency = lastTouched > 0 ? Math.pow(0.5, Math.max(0, this.now() - lastTouched) / RECENCY_HALF_LIFE_MS) : 0;
+
+    return quality + RECENCY_WEIGHT * recency + (this.categoryWeights[info.category] ?? 0);
+  }
+}
@@ -0,0 +1,266 @@
+import { Node, mergeAttributes } from '@tiptap/core';
+import type { Node as ProseMirrorNode } from 'prosemirror-model';
+import type { StandardInfo } from '../types';
+import { toPlainText } from './richSuggestion';
+
+declare module '@tiptap/core' {
+  interface Commands<ReturnType> {
+    standardInfoReference: {
+      /** 在光标处插入一个链接到标准信息条目的引用 */
+      insertStandardInfoReference: (info: StandardInfo) => ReturnType;
+      /** 把 pos 处的引用转换成普通文本（使用条目当前的内容） */
+      detachStandardInfoReference: (pos: number) => ReturnType;
+      /** 把文档中所有过期引用的副本更新为条目当前的内容 */
+      syncStandardInfoReferences: () => ReturnType;
+    };
+  }
+}
+
+export interface StandardInfoReferenceAttributes {
+  id: string | null;
+  // 插入或上次同步时条目内容的副本，保存到文档 HTML 中
+  content: string;
+  // 副本对应的条目 updated_at
+  syncedAt: string | null;
+}
+
+interface StandardInfoReferenceOptions {
+  // 每次渲染和同步时读取，知识库条目修改后对已打开的编辑器立即生效
+  getStandardInfo: () => StandardInfo[];
+}
+
+interface StandardInfoReferenceStorage {
+  css: string;
+  // 当前显示的节点视图，条目列表变化时逐个重新渲染
+  views: Set<() => void>;
+  // 知识库条目变化后调用：节点本身没有变化，ProseMirror 不会更新节点视图
+  refresh: () => void;
+}
+
+export const createReferenceAttributes = (info: StandardInfo): StandardInfoReferenceAttributes => ({
+  id: info.id,
+  content: toPlainText(info.content),
+  syncedAt: info.updatedAt ?? new Date().toISOString(),
+});
+
+// 条目的 updated_at 比文档中的副本新时视为过期
+export const isReferenceOutdated = (syncedAt: string | null, info: StandardInfo | undefined) => {
+  if (!info?.updatedAt) return false;
+  if (!syncedAt) return true;
+  return Date.parse(info.updatedAt) > Date.parse(syncedAt);
+};
+
+export interface OutdatedReference {
+  documentId: string;
+  documentTitle: string;
+  standardInfoId: string;
+  category: string;
+  // 文档中保存的副本
+  content: string;
+  syncedAt: string | null;
+  updatedAt: string;
+}
+
+// 扫描项目中所有文档的 HTML，找出引用了已更新条目的位置
+export const findOutdatedReferences = (
+  documents: Array<{ id: string; title: string; content: string }>,
+  standardInfo: StandardInfo[]
+): OutdatedReference[] => {
+  const entries = new Map(standardInfo.map(info => [info.id, info]));
+  const parser = new DOMParser();
+  const outdated: OutdatedReference[] = [];
+
+  documents.forEach(document => {
+    if (!document.content?.includes('data-standard-info-id')) return;
+
+    const html = parser.parseFromString(document.content, 'text/html');
+    html.querySelectorAll<HTMLElement>('[data-standard-info-id]').forEach(element => {
+      const info = entries.get(element.dataset.standardInfoId ?? '');
+      const syncedAt = element.dataset.syncedAt ?? null;
+      if (info?.updatedAt && isReferenceOutdated(syncedAt, info)) {
+        outdated.push({
+          documentId: document.id,
+          documentTitle: document.title,
+          standardInfoId: info.id,
+          category: info.category,
+          content: element.textContent ?? '',
+          syncedAt,
+          updatedAt: info.updatedAt,
+        });
+      }
+    });
+  });
+
+  return outdated;
+};
+
+export const StandardInfoReference = Node.create<StandardInfoReferenceOptions, StandardInfoReferenceStorage>({
+  name: 'standardInfoReference',
+  group: 'inline',
+  inline: true,
+  atom: true,
+  selectable: true,
+
+  addOptions() {
+    return {
+      getStandardInfo: () => [],
+    };
+  },
+
+  addAttributes() {
+    return {
+      id: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-standard-info-id'),
+        renderHTML: attributes => ({ 'data-standard-info-id': attributes.id }),
+      },
+      content: {
+        default: '',
+        parseHTML: element => element.textContent ?? '',
+        renderHTML: () => ({}),
+      },
+      syncedAt: {
+        default: null,
+        parseHTML: element => element.getAttribute('data-synced-at'),
+        renderHTML: attributes => (attributes.syncedAt ? { 'data-synced-at': attributes.syncedAt } : {}),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [{ tag: 'span[data-standard-info-id]' }];
+  },
+
+  // 保存到文档里的是副本，这样过期检查才有依据
+  renderHTML({ node, HTMLAttributes }) {
+    return ['span', mergeAttributes(HTMLAttributes, { class: 'standard-info-ref' }), node.attrs.content];
+  },
+
+  renderText({ node }) {
+    return node.attrs.content;
+  },
+
+  // 编辑器里显示条目当前的内容；过期时高亮，双击转为普通文本
+  addNodeView() {
+    return ({ node, getPos, editor }) => {
+      const dom = document.createElement('span');
+      let currentNode = node;
+
+      const render = (current: ProseMirrorNode) => {
+        currentNode = current;
+        const info = this.options.getStandardInfo().find(entry => entry.id === current.attrs.id);
+        dom.className = 'standard-info-ref';
+        dom.classList.toggle('is-outdated', isReferenceOutdated(current.attrs.syncedAt, info));
+        dom.classList.toggle('is-missing', !info);
+        dom.textContent = info ? toPlainText(info.content) : current.attrs.content;
+        dom.title = info
+          ? `链接到标准信息「${info.category}」，双击转为普通文本`
+          : '引用的标准信息已被删除，双击转为普通文本';
+      };
+
+      dom.addEventListener('dblclick', event => {
+        event.preventDefault();
+        if (typeof getPos === 'function') {
+          editor.chain().focus().detachStandardInfoReference(getPos()).run();
+        }
+      });
+
+      const refresh = () => render(currentNode);
+      render(node);
+      this.storage.views.add(refresh);
+
+      return {
+        dom,
+        update: updated => {
+          if (updated.type !== node.type) return false;
+          render(updated);
+          return true;
+        },
+        destroy: () => {
+          this.storage.views.delete(refresh);
+        },
+      };
+    };
+  },
+
+  addCommands() {
+    return {
+      insertStandardInfoReference: (info: StandardInfo) => ({ commands }) =>
+        commands.insertContent({ type: this.name, attrs: createReferenceAttributes(info) }),
+
+      detachStandardInfoReference: (pos: number) => ({ state, tr, dispatch }) => {
+        const node = state.doc.nodeAt(pos);
+        if (!node || node.type.name !== this.name) return false;
+
+        if (dispatch) {
+          const info = this.options.getStandardInfo().find(entry => entry.id === node.attrs.id);
+          const text = info ? toPlainText(info.content) : node.attrs.content;
+          // 条目内容为空时没有可保留的文字（schema.text 不接受空字符串），直接删除引用
+          if (text) {
+            tr.replaceWith(pos, pos + node.nodeSize, state.schema.text(text, state.doc.resolve(pos).marks()));
+          } else {
+            tr.delete(pos, pos + node.nodeSize);
+          }
+        }
+        return true;
+      },
+
+      syncStandardInfoReferences: () => ({ state, tr, dispatch }) => {
+        let changed = false;
+        const standardInfo = this.options.getStandardInfo();
+        state.doc.descendants((node, pos) => {
+          if (node.type.name !== this.name) return;
+          const info = standardInfo.find(entry => entry.id === node.attrs.id);
+          if (!info || !isReferenceOutdated(node.attrs.syncedAt, info)) return;
+
+          changed = true;
+          if (dispatch) tr.setNodeMarkup(pos, undefined, createReferenceAttributes(info));
+        });
+        return changed;
+      },
+    };
+  },
+
+  addStorage() {
+    const views = new Set<() => void>();
+    return {
+      views,
+      refresh: () => views.forEach(render => render()),
+      css: `
+      .standard-info-ref {
+        border-bottom: 1px dashed #1a73e8;
+        cursor: default;
+      }
+      .standard-info-ref.is-outdated {
+        background: #fef7e0;
+        border-bottom-color: #f9ab00;
+      }
+      .standard-info-ref.is-missing {
+        border-bottom-color: #d93025;
+        text-decoration: line-through;
+      }
+      .dark .standard-info-ref.is-outdated {
+        background: rgba(249, 171, 0, 0.15);
+      }
+      `
+    };
+  },
+
+  onCreate() {
+    if (typeof window !== 'undefined' && this.storage.css) {
+        const style = document.createElement('style');
+        style.textContent = this.storage.css;
+        document.head.append(style);
+    }
+  },
+});
+
+// 统计编辑器文档中过期的引用数量，用于菜单栏提示
+export const countOutdatedReferences = (doc: ProseMirrorNode, standardInfo: StandardInfo[]) => {
+  let count = 0;
+  doc.descendants(node => {
+    if (node.type.name !== StandardInfoReference.name) return;
+    if (isReferenceOutdated(node.attrs.syncedAt, standardInfo.find(entry => entry.id === node.attrs.id))) count++;
+  });
+  return count;
+};
@@ -9,6 +9,12 @@ export interface StandardInfo {
   projectId: string;
   category: string;
   content: string;
+  updatedAt?: string;
+  // 向量生成状态，ready 的条目才能被语义检索
+  embedding_status?: 'pending' | 'ready' | 'failed';
+  embedding_error?: string | null;
+  // 生成向量的模型，与当前的向量模型不同时需要重新生成
+  embedding_model?: string | null;
 }
 
 export interface Document {
@@ -1,6 +1,8 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { completionApiPlugin } from './server/completionApiPlugin';
+import { createSupabaseCompletionDeps } from './server/supabaseDeps';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +11,23 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        // /api/completion 的服务端实现，API Key 只在服务端读取
+        completionApiPlugin(() => createSupabaseCompletionDeps({
+          supabaseUrl: env.VITE_SUPABASE_URL,
+          supabaseAnonKey: env.VITE_SUPABASE_ANON_KEY,
+          apiKeys: {
+            gemini: env.GEMINI_API_KEY || env.VITE_GEMINI_API_KEY,
+            openai: env.OPENAI_API_KEY || env.VITE_OPENAI_API_KEY,
+          },
+          openaiBaseUrl: env.OPENAI_BASE_URL || undefined,
+          rateLimit: {
+            limit: Number(env.COMPLETION_RATE_LIMIT) || 30,
+            windowMs: 60 * 1000,
+          },
+        })),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)